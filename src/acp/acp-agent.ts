@@ -0,0 +1,495 @@
+/**
+ * ACP Agent - The agent side of the Agent Client Protocol over JSON-RPC
+ *
+ * Handles `initialize`, `session/new`, `session/prompt` and the
+ * `session/cancel` notification. While a prompt runs, agent events are sent
+ * as `session/update` notifications; tool calls that need approval become
+ * `session/request_permission` requests, and when the client offers file
+ * access the file tools read and write through `fs/read_text_file` and
+ * `fs/write_text_file`, so unsaved editor buffers are used.
+ */
+
+import * as path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+import type { Readable, Writable } from 'node:stream';
+import { z } from 'zod';
+import type { Agent } from '../agent.js';
+import type {
+  PermissionChoice,
+  PermissionRequest,
+} from '../permissions/index.js';
+import type {
+  AgentEvent,
+  AgentRunStatus,
+  ContentBlock,
+  ToolCall,
+} from '../schema/index.js';
+import {
+  diskFileAccess,
+  type FileAccess,
+  type ToolInput,
+} from '../tools/index.js';
+import {
+  JSON_RPC_ERRORS,
+  JsonRpcConnection,
+  JsonRpcError,
+  type JsonRpcHandler,
+} from './json-rpc.js';
+import {
+  ACP_PROTOCOL_VERSION,
+  type AcpAgentFactory,
+  type ClientCapabilities,
+  type PermissionOption,
+  type SessionUpdate,
+  type StopReason,
+  type ToolCallUpdate,
+  type ToolKind,
+} from './types.js';
+
+// ============ Params ============
+
+const InitializeParams = z.object({
+  protocolVersion: z.number().int(),
+  clientCapabilities: z
+    .object({
+      fs: z
+        .object({
+          readTextFile: z.boolean().optional(),
+          writeTextFile: z.boolean().optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+});
+
+const NewSessionParams = z.object({
+  cwd: z.string().refine((cwd) => path.isAbsolute(cwd), {
+    message: 'cwd must be an absolute path',
+  }),
+});
+
+const PromptBlock = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text'), text: z.string() }),
+  z.object({
+    type: z.literal('image'),
+    data: z.string(),
+    mimeType: z.string(),
+  }),
+  z.object({
+    type: z.literal('resource_link'),
+    uri: z.string(),
+    name: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('resource'),
+    resource: z.object({
+      uri: z.string(),
+      text: z.string().optional(),
+    }),
+  }),
+]);
+
+export type PromptContentBlock = z.infer<typeof PromptBlock>;
+
+const PromptParams = z.object({
+  sessionId: z.string(),
+  prompt: z.array(PromptBlock).min(1),
+});
+
+const SessionParams = z.object({ sessionId: z.string() });
+
+const PermissionOutcome = z.object({
+  outcome: z.union([
+    z.object({ outcome: z.literal('cancelled') }),
+    z.object({ outcome: z.literal('selected'), optionId: z.string() }),
+  ]),
+});
+
+function parseParams<T>(schema: z.ZodType<T>, params: unknown): T {
+  const parsed = schema.safeParse(params ?? {});
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new JsonRpcError(
+      JSON_RPC_ERRORS.INVALID_PARAMS,
+      `Invalid params at ${issue.path.join('.') || '(root)'}: ${issue.message}`
+    );
+  }
+  return parsed.data;
+}
+
+// ============ Conversions ============
+
+const TOOL_KINDS: Record<string, ToolKind> = {
+  read_file: 'read',
+  write_file: 'edit',
+  edit_file: 'edit',
+  bash: 'execute',
+  bash_output: 'execute',
+  bash_kill: 'execute',
+  get_skill: 'read',
+  task: 'think',
+  todo_write: 'think',
+  exit_plan_mode: 'think',
+};
+
+const PERMISSION_OPTIONS: PermissionOption[] = [
+  { optionId: 'allow_once', name: 'Allow', kind: 'allow_once' },
+  { optionId: 'allow_always', name: 'Always allow', kind: 'allow_always' },
+  { optionId: 'reject_once', name: 'Reject', kind: 'reject_once' },
+];
+
+function stopReasonFor(status: AgentRunStatus): StopReason {
+  switch (status) {
+    case 'interrupted':
+      return 'cancelled';
+    case 'max_steps':
+      return 'max_turn_requests';
+    case 'token_budget':
+      return 'max_tokens';
+    case 'blocked':
+      return 'refusal';
+    default:
+      return 'end_turn';
+  }
+}
+
+function uriToPath(uri: string): string {
+  return uri.startsWith('file://') ? fileURLToPath(uri) : uri;
+}
+
+/**
+ * Turn the prompt blocks into the content of a user message. Embedded
+ * resources are inlined like `@path` attachments.
+ */
+export function toMessageContent(
+  blocks: PromptContentBlock[]
+): string | ContentBlock[] {
+  const texts: string[] = [];
+  const images: ContentBlock[] = [];
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'text':
+        texts.push(block.text);
+        break;
+      case 'image':
+        images.push({
+          type: 'image',
+          source: {
+            type: 'base64',
+            media_type: block.mimeType,
+            data: block.data,
+          },
+        });
+        break;
+      case 'resource_link':
+        texts.push(`@${uriToPath(block.uri)}`);
+        break;
+      case 'resource': {
+        const filePath = uriToPath(block.resource.uri);
+        texts.push(
+          block.resource.text === undefined
+            ? `@${filePath}`
+            : `<file path="${filePath}">\n${block.resource.text}\n</file>`
+        );
+        break;
+      }
+    }
+  }
+  const text = texts.join('\n\n');
+  return images.length > 0 ? [{ type: 'text', text }, ...images] : text;
+}
+
+function describeToolCall(
+  name: string,
+  params: ToolInput,
+  toolCallId: string
+): ToolCallUpdate {
+  const target = params['path'] ?? params['command'] ?? params['description'];
+  return {
+    toolCallId,
+    title: typeof target === 'string' ? `${name}: ${target}` : name,
+    kind: TOOL_KINDS[name] ?? 'other',
+    rawInput: params,
+    locations:
+      typeof params['path'] === 'string'
+        ? [{ path: params['path'] }]
+        : undefined,
+  };
+}
+
+// ============ Agent side ============
+
+interface AcpSession {
+  id: string;
+  agent: Agent;
+  controller: AbortController | null;
+  /** Tool calls started in the current prompt and not finished yet */
+  toolCalls: Map<string, ToolCall>;
+}
+
+export class AcpAgent implements JsonRpcHandler {
+  private readonly connection: JsonRpcConnection;
+  private clientCapabilities: ClientCapabilities = {};
+  private readonly sessions = new Map<string, AcpSession>();
+
+  constructor(
+    input: Readable,
+    output: Writable,
+    private readonly createAgent: AcpAgentFactory
+  ) {
+    this.connection = new JsonRpcConnection(input, output, this);
+  }
+
+  /** Resolves when the client closes the input */
+  get closed(): Promise<void> {
+    return this.connection.closed;
+  }
+
+  async onRequest(method: string, params: unknown): Promise<unknown> {
+    switch (method) {
+      case 'initialize':
+        return this.initialize(params);
+      case 'session/new':
+        return this.newSession(params);
+      case 'session/prompt':
+        return this.prompt(params);
+      default:
+        throw new JsonRpcError(
+          JSON_RPC_ERRORS.METHOD_NOT_FOUND,
+          `Method not found: ${method}`
+        );
+    }
+  }
+
+  onNotification(method: string, params: unknown): void {
+    if (method === 'session/cancel') {
+      const { sessionId } = parseParams(SessionParams, params);
+      this.sessions.get(sessionId)?.controller?.abort();
+    }
+  }
+
+  /**
+   * Interrupt every running prompt.
+   */
+  cancelAll(): void {
+    for (const session of this.sessions.values()) {
+      session.controller?.abort();
+    }
+  }
+
+  // ============ Methods ============
+
+  private initialize(params: unknown): unknown {
+    const { clientCapabilities } = parseParams(InitializeParams, params);
+    this.clientCapabilities = clientCapabilities ?? {};
+    return {
+      protocolVersion: ACP_PROTOCOL_VERSION,
+      agentCapabilities: {
+        loadSession: false,
+        promptCapabilities: {
+          image: true,
+          audio: false,
+          embeddedContext: true,
+        },
+      },
+      authMethods: [],
+    };
+  }
+
+  private async newSession(params: unknown): Promise<unknown> {
+    const { cwd } = parseParams(NewSessionParams, params);
+    const sessionId = randomUUID();
+    const agent = await this.createAgent({
+      sessionId,
+      workspaceDir: cwd,
+      files: this.createFileAccess(sessionId),
+      requestPermission: (request) =>
+        this.requestPermission(sessionId, request),
+    });
+    const session: AcpSession = {
+      id: sessionId,
+      agent,
+      controller: null,
+      toolCalls: new Map(),
+    };
+    agent.subscribe((event) => this.forwardEvent(session, event));
+    this.sessions.set(sessionId, session);
+    return { sessionId };
+  }
+
+  private async prompt(params: unknown): Promise<unknown> {
+    const { sessionId, prompt } = parseParams(PromptParams, params);
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new JsonRpcError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `Session not found: ${sessionId}`
+      );
+    }
+    if (session.controller) {
+      throw new JsonRpcError(
+        JSON_RPC_ERRORS.INVALID_REQUEST,
+        `Session ${sessionId} is already running a prompt`
+      );
+    }
+
+    const controller = new AbortController();
+    session.controller = controller;
+    let status: AgentRunStatus = 'completed';
+    const unsubscribe = session.agent.subscribe((event) => {
+      if (event.type === 'run_end') {
+        status = event.status;
+      }
+    });
+    const historyLength = session.agent.messages.length;
+    try {
+      session.agent.addUserMessage(toMessageContent(prompt));
+      await session.agent.run({ signal: controller.signal });
+      return { stopReason: stopReasonFor(status) };
+    } catch (error) {
+      session.agent.messages.splice(historyLength);
+      throw error;
+    } finally {
+      unsubscribe();
+      session.controller = null;
+      session.toolCalls.clear();
+    }
+  }
+
+  // ============ Client services ============
+
+  private createFileAccess(sessionId: string): FileAccess | undefined {
+    const fs = this.clientCapabilities.fs;
+    if (!fs?.readTextFile && !fs?.writeTextFile) {
+      return undefined;
+    }
+    return {
+      readTextFile: fs.readTextFile
+        ? async (filePath) => {
+            const result = (await this.connection.request('fs/read_text_file', {
+              sessionId,
+              path: filePath,
+            })) as { content?: unknown } | null;
+            return typeof result?.content === 'string' ? result.content : '';
+          }
+        : diskFileAccess.readTextFile,
+      writeTextFile: fs.writeTextFile
+        ? async (filePath, content) => {
+            await this.connection.request('fs/write_text_file', {
+              sessionId,
+              path: filePath,
+              content,
+            });
+          }
+        : diskFileAccess.writeTextFile,
+    };
+  }
+
+  private async requestPermission(
+    sessionId: string,
+    request: PermissionRequest
+  ): Promise<PermissionChoice> {
+    // Refer to the tool call the client was told about, if there is one
+    const call =
+      request.toolCallId !== undefined
+        ? this.sessions.get(sessionId)?.toolCalls.get(request.toolCallId)
+        : undefined;
+    const toolCall = describeToolCall(
+      request.toolName,
+      request.params,
+      call?.id ?? `permission_${randomUUID()}`
+    );
+
+    const response = parseParams(
+      PermissionOutcome,
+      await this.connection.request('session/request_permission', {
+        sessionId,
+        toolCall: { ...toolCall, status: 'pending' },
+        options: PERMISSION_OPTIONS.map((option) =>
+          option.kind === 'allow_always'
+            ? { ...option, name: `Always allow ${request.suggestedRule}` }
+            : option
+        ),
+      })
+    );
+    const { outcome } = response;
+    if (outcome.outcome === 'cancelled') {
+      return { choice: 'deny', reason: 'the prompt was cancelled' };
+    }
+    switch (outcome.optionId) {
+      case 'allow_once':
+        return { choice: 'allow_once' };
+      case 'allow_always':
+        return { choice: 'allow_always' };
+      default:
+        return { choice: 'deny' };
+    }
+  }
+
+  private sendUpdate(session: AcpSession, update: SessionUpdate): void {
+    this.connection.notify('session/update', {
+      sessionId: session.id,
+      update,
+    });
+  }
+
+  private forwardEvent(session: AcpSession, event: AgentEvent): void {
+    switch (event.type) {
+      case 'content_delta':
+        this.sendUpdate(session, {
+          sessionUpdate: 'agent_message_chunk',
+          content: { type: 'text', text: event.delta },
+        });
+        return;
+
+      case 'thinking_delta':
+        this.sendUpdate(session, {
+          sessionUpdate: 'agent_thought_chunk',
+          content: { type: 'text', text: event.delta },
+        });
+        return;
+
+      case 'tool_call_start': {
+        const { toolCall } = event;
+        session.toolCalls.set(toolCall.id, toolCall);
+        this.sendUpdate(session, {
+          sessionUpdate: 'tool_call',
+          ...describeToolCall(
+            toolCall.function.name,
+            toolCall.function.arguments,
+            toolCall.id
+          ),
+          status: 'in_progress',
+        });
+        return;
+      }
+
+      case 'tool_result': {
+        const { toolCall, result } = event;
+        session.toolCalls.delete(toolCall.id);
+        const text = result.success
+          ? result.content
+          : `Error: ${result.error ?? 'Unknown error'}`;
+        this.sendUpdate(session, {
+          sessionUpdate: 'tool_call_update',
+          toolCallId: toolCall.id,
+          status: result.success ? 'completed' : 'failed',
+          content: [{ type: 'content', content: { type: 'text', text } }],
+        });
+        return;
+      }
+
+      case 'todos':
+        this.sendUpdate(session, {
+          sessionUpdate: 'plan',
+          entries: event.todos.map((todo) => ({
+            content: todo.content,
+            priority: 'medium',
+            status: todo.status,
+          })),
+        });
+        return;
+    }
+  }
+}
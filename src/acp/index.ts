@@ -0,0 +1,7 @@
+/**
+ * ACP module
+ */
+
+export * from './types.js';
+export * from './json-rpc.js';
+export * from './acp-agent.js';
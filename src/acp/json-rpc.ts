@@ -0,0 +1,188 @@
+/**
+ * JSON-RPC 2.0 - Newline-delimited messages over a pair of streams
+ *
+ * Both sides may send requests: incoming requests are dispatched to the
+ * handler without waiting for earlier ones, so a long request (a prompt)
+ * does not block the answers it depends on (permission requests, file
+ * reads).
+ */
+
+import { createInterface } from 'node:readline';
+import type { Readable, Writable } from 'node:stream';
+import { Logger } from '../util/logger.js';
+
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+} as const;
+
+/**
+ * An error sent back as the JSON-RPC error of a request.
+ */
+export class JsonRpcError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+    public readonly data?: unknown
+  ) {
+    super(message);
+  }
+}
+
+export interface JsonRpcHandler {
+  /** Answers a request; thrown errors become error responses */
+  onRequest(method: string, params: unknown): Promise<unknown>;
+  onNotification(method: string, params: unknown): void;
+}
+
+type JsonRpcId = string | number;
+
+interface JsonRpcMessage {
+  jsonrpc?: unknown;
+  id?: JsonRpcId | null;
+  method?: unknown;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+export class JsonRpcConnection {
+  private nextId = 1;
+  private pending = new Map<JsonRpcId, PendingRequest>();
+
+  /** Resolves when the input ends */
+  public readonly closed: Promise<void>;
+
+  constructor(
+    input: Readable,
+    private output: Writable,
+    private handler: JsonRpcHandler
+  ) {
+    const lines = createInterface({ input, crlfDelay: Infinity });
+    lines.on('line', (line) => this.receive(line));
+    this.closed = new Promise((resolve) => {
+      lines.on('close', () => {
+        for (const request of this.pending.values()) {
+          request.reject(new Error('Connection closed'));
+        }
+        this.pending.clear();
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Send a request to the other side and wait for its result.
+   *
+   * @throws JsonRpcError if the other side answers with an error
+   */
+  request(method: string, params?: unknown): Promise<unknown> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  notify(method: string, params?: unknown): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  private send(message: object): void {
+    this.output.write(`${JSON.stringify(message)}\n`);
+  }
+
+  private receive(line: string): void {
+    if (!line.trim()) return;
+
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line) as JsonRpcMessage;
+    } catch {
+      this.sendError(null, JSON_RPC_ERRORS.PARSE_ERROR, 'Parse error');
+      return;
+    }
+    if (
+      typeof message !== 'object' ||
+      message === null ||
+      message.jsonrpc !== '2.0'
+    ) {
+      this.sendError(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid request');
+      return;
+    }
+
+    if (typeof message.method === 'string') {
+      if (message.id === undefined || message.id === null) {
+        this.dispatchNotification(message.method, message.params);
+      } else {
+        void this.dispatchRequest(message.id, message.method, message.params);
+      }
+      return;
+    }
+
+    // A response to one of our requests
+    const request =
+      message.id !== undefined && message.id !== null
+        ? this.pending.get(message.id)
+        : undefined;
+    if (!request) {
+      Logger.log('JSON-RPC', 'Ignoring response to unknown request', message);
+      return;
+    }
+    this.pending.delete(message.id as JsonRpcId);
+    if (message.error) {
+      request.reject(
+        new JsonRpcError(
+          message.error.code,
+          message.error.message,
+          message.error.data
+        )
+      );
+    } else {
+      request.resolve(message.result ?? null);
+    }
+  }
+
+  private dispatchNotification(method: string, params: unknown): void {
+    try {
+      this.handler.onNotification(method, params);
+    } catch (error) {
+      Logger.log('JSON-RPC', `Notification ${method} failed`, error);
+    }
+  }
+
+  private async dispatchRequest(
+    id: JsonRpcId,
+    method: string,
+    params: unknown
+  ): Promise<void> {
+    try {
+      const result = await this.handler.onRequest(method, params);
+      this.send({ jsonrpc: '2.0', id, result: result ?? null });
+    } catch (error) {
+      if (error instanceof JsonRpcError) {
+        this.sendError(id, error.code, error.message, error.data);
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        this.sendError(id, JSON_RPC_ERRORS.INTERNAL_ERROR, message);
+      }
+    }
+  }
+
+  private sendError(
+    id: JsonRpcId | null,
+    code: number,
+    message: string,
+    data?: unknown
+  ): void {
+    this.send({ jsonrpc: '2.0', id, error: { code, message, data } });
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Agent Client Protocol types
+ *
+ * The subset of the protocol (https://agentclientprotocol.com) spoken by
+ * the stdio mode.
+ */
+
+import type { Agent } from '../agent.js';
+import type { PermissionPrompt } from '../permissions/index.js';
+import type { FileAccess } from '../tools/index.js';
+
+export const ACP_PROTOCOL_VERSION = 1;
+
+export interface ClientCapabilities {
+  fs?: {
+    readTextFile?: boolean;
+    writeTextFile?: boolean;
+  };
+}
+
+export type StopReason =
+  | 'end_turn'
+  | 'max_tokens'
+  | 'max_turn_requests'
+  | 'refusal'
+  | 'cancelled';
+
+export type ToolKind =
+  | 'read'
+  | 'edit'
+  | 'delete'
+  | 'move'
+  | 'search'
+  | 'execute'
+  | 'think'
+  | 'fetch'
+  | 'other';
+
+export type ToolCallStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
+
+export interface ToolCallUpdate {
+  toolCallId: string;
+  title?: string;
+  kind?: ToolKind;
+  status?: ToolCallStatus;
+  rawInput?: unknown;
+  locations?: { path: string; line?: number }[];
+  content?: { type: 'content'; content: { type: 'text'; text: string } }[];
+}
+
+/**
+ * `update` of a `session/update` notification.
+ */
+export type SessionUpdate =
+  | {
+      sessionUpdate: 'agent_message_chunk' | 'agent_thought_chunk';
+      content: { type: 'text'; text: string };
+    }
+  | ({ sessionUpdate: 'tool_call' } & ToolCallUpdate)
+  | ({ sessionUpdate: 'tool_call_update' } & ToolCallUpdate)
+  | {
+      sessionUpdate: 'plan';
+      entries: {
+        content: string;
+        priority: 'high' | 'medium' | 'low';
+        status: 'pending' | 'in_progress' | 'completed';
+      }[];
+    };
+
+export interface PermissionOption {
+  optionId: string;
+  name: string;
+  kind: 'allow_once' | 'allow_always' | 'reject_once' | 'reject_always';
+}
+
+/**
+ * What the agent of a session may use from the client.
+ */
+export interface AcpSessionContext {
+  sessionId: string;
+  workspaceDir: string;
+  /** File access through the client (editor buffers), when it offers any */
+  files?: FileAccess;
+  /** Asks the client to approve a tool call */
+  requestPermission: PermissionPrompt;
+}
+
+/**
+ * Builds the agent of a new session.
+ */
+export type AcpAgentFactory = (context: AcpSessionContext) => Promise<Agent>;
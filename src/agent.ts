@@ -1,20 +1,175 @@
 import * as path from 'node:path';
 import * as fs from 'node:fs';
 import { Logger } from './util/logger.js';
-import { Colors, drawStepHeader } from './util/terminal.js';
 import { LLMClient } from './llm-client/llm-client.js';
-import type { Message, ToolCall } from './schema/index.js';
-import type { Tool, ToolResult } from './tools/index.js';
+import {
+  Config,
+  type CompactionConfig,
+  type LoopDetectionConfig,
+  type ModelPricing,
+} from './config.js';
+import { ContextCompactor, type CompactionResult } from './compaction/index.js';
+import type {
+  AgentEvent,
+  AgentEventListener,
+  AgentRunStatus,
+  ContentBlock,
+  Message,
+  RunLimit,
+  TokenUsage,
+  ToolCall,
+} from './schema/index.js';
+import {
+  isConcurrencySafe,
+  type JsonSchema,
+  type Tool,
+  type ToolExecuteOptions,
+  type ToolInput,
+  type ToolResult,
+} from './tools/base.js';
+import {
+  coerceToSchema,
+  formatSchemaErrors,
+  validateJsonSchema,
+} from './json-schema/index.js';
+import type { HookEventInput, HookOutcome, HookRunner } from './hooks/index.js';
+import {
+  ExitPlanModeTool,
+  PLAN_MODE_PROMPT,
+  isReadOnlyCommand,
+  type PlanDecision,
+} from './tools/plan-mode.js';
+import {
+  FinalAnswerTool,
+  OUTPUT_SCHEMA_PROMPT,
+} from './tools/final-answer-tool.js';
+import {
+  TodoWriteTool,
+  formatTodoList,
+  type TodoItem,
+} from './tools/todo-tool.js';
+import {
+  LoopDetector,
+  loopWarning,
+  type LoopCheck,
+} from './loop-detection/index.js';
+import { mapWithConcurrency } from './util/concurrency.js';
+import type { PermissionManager } from './permissions/index.js';
+import {
+  addUsage,
+  calculateCost,
+  emptyUsage,
+  totalTokens,
+} from './usage/index.js';
 
-function buildSystemPrompt(basePrompt: string, workspaceDir: string): string {
-  if (basePrompt.includes('Current Workspace')) {
-    return basePrompt;
-  }
-  return `${basePrompt}
+function buildSystemPrompt(
+  basePrompt: string,
+  workspaceDir: string,
+  instructions: string
+): string {
+  const prompt = basePrompt.includes('Current Workspace')
+    ? basePrompt
+    : `${basePrompt}
 
 ## Current Workspace
 You are currently working in: \`${workspaceDir}\`
 All relative paths will be resolved relative to this directory.`;
+  return instructions ? `${prompt}\n\n${instructions}` : prompt;
+}
+
+/** Longest unparsable argument text echoed back to the model */
+const MAX_INVALID_ARGUMENTS_ECHO = 500;
+
+/**
+ * Error for a tool call whose argument text is not a JSON object.
+ */
+function describeInvalidArguments(text: string): string {
+  let reason = 'not a JSON object';
+  try {
+    JSON.parse(text);
+  } catch (error) {
+    reason = `invalid JSON: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  const received =
+    text.length > MAX_INVALID_ARGUMENTS_ECHO
+      ? `${text.slice(0, MAX_INVALID_ARGUMENTS_ECHO)}…`
+      : text;
+  return `Could not parse the arguments (${reason}). Call the tool again with the arguments as one JSON object.\nReceived: ${received}`;
+}
+
+/** Text recorded in the conversation when the user interrupts a turn */
+export const INTERRUPTED_MESSAGE = 'Interrupted by user';
+
+/** Instructions for the last response of a run that hit a limit */
+export const FINAL_ANSWER_PROMPT =
+  'You cannot call any more tools in this run. Reply to the user with a summary of your progress: what you completed, what remains to be done, and how to continue.';
+
+/** Reminder for a model that answered in text instead of `final_answer` */
+export const OUTPUT_REMINDER_PROMPT =
+  'Submit your final answer by calling the `final_answer` tool with arguments that match its schema.';
+
+/** Attempts the model gets to fix a final answer that does not validate */
+export const DEFAULT_OUTPUT_REPAIRS = 2;
+
+/**
+ * The user's answer when a run limit is reached: another budget of the
+ * same size, no limit for the rest of the run, or stop.
+ */
+export type LimitDecision = 'continue' | 'unlimited' | 'stop';
+
+export interface AgentRunOptions {
+  /** Aborts the current turn (LLM stream and running tools) */
+  signal?: AbortSignal;
+  /** Names of the only tools offered and executed during this run */
+  allowedTools?: string[];
+}
+
+export interface AgentOptions {
+  /** Context compaction settings (defaults from Config when omitted) */
+  compaction?: CompactionConfig;
+  /** Loop detection settings (defaults from Config when omitted) */
+  loopDetection?: LoopDetectionConfig;
+  /** Max concurrency-safe tool calls from one turn that run in parallel */
+  toolConcurrency?: number;
+  /** Approves tool calls before they run (everything runs when omitted) */
+  permissions?: PermissionManager;
+  /** Price of the model, used to report the cost of the usage */
+  pricing?: ModelPricing;
+  /** Start in plan mode (read-only tools until a plan is approved) */
+  planMode?: boolean;
+  /** Asks the user to approve a plan; without it plans cannot be approved */
+  reviewPlan?: (plan: string) => Promise<PlanDecision>;
+  /** User-configured lifecycle hooks */
+  hooks?: HookRunner;
+  /** Project instructions section appended to the system prompt */
+  instructions?: string;
+  /** Wall-clock limit of a run in seconds (0 = none) */
+  maxDuration?: number;
+  /** Token limit of a run, sub-agents included (0 = none) */
+  tokenBudget?: number;
+  /** Asks whether to go on when a limit is reached; without it the run stops */
+  confirmContinue?: (limit: RunLimit) => Promise<LimitDecision>;
+  /** JSON Schema the final answer must match, submitted with `final_answer` */
+  outputSchema?: JsonSchema;
+  /** Attempts to fix an answer that does not match the output schema */
+  maxOutputRepairs?: number;
+}
+
+/** One streamed model response */
+interface ModelResponse {
+  content: string;
+  thinking: string;
+  thinkingSignature?: string;
+  toolCalls: ToolCall[] | null;
+}
+
+/** Remaining budget of the current run */
+interface RunLimits {
+  steps: number;
+  /** Timestamp in ms */
+  deadline: number;
+  /** Total token count at which the budget is used up */
+  tokens: number;
 }
 
 export class Agent {
@@ -24,35 +179,164 @@ export class Agent {
   public messages: Message[];
   public workspaceDir: string;
   public tools: Map<string, Tool>;
+  public compactor: ContextCompactor;
+  public loopDetector: LoopDetector;
+  /** The model's todo list, maintained with the `todo_write` tool */
+  public todos: TodoItem[] = [];
+  public toolConcurrency: number;
+  public permissions: PermissionManager | undefined;
+  /** Pricing of the current model; update it when switching models */
+  public pricing: ModelPricing | undefined;
+  /** Accumulated token usage, sub-agents and compaction included */
+  public usage: TokenUsage = emptyUsage();
+  // Each step is priced with the pricing at the time, so a model switch
+  // does not reprice earlier steps; null until a step had pricing
+  private cost: number | null = null;
+  public planMode: boolean;
+  public reviewPlan: ((plan: string) => Promise<PlanDecision>) | undefined;
+  public hooks: HookRunner | undefined;
+  public maxDuration: number;
+  public tokenBudget: number;
+  public confirmContinue:
+    | ((limit: RunLimit) => Promise<LimitDecision>)
+    | undefined;
+  /** Validated final answer of the last run, when there is an output schema */
+  public structuredOutput: unknown = undefined;
+  public maxOutputRepairs: number;
+
+  private exitPlanModeTool: ExitPlanModeTool;
+  private finalAnswerTool: FinalAnswerTool | null = null;
+  private remindTodos = false;
+  private instructions: string;
+  private allowedTools: string[] | null = null;
+
+  private listeners = new Set<AgentEventListener>();
 
   constructor(
     llmClient: LLMClient,
     systemPrompt: string,
     tools: Tool[],
     maxSteps: number,
-    workspaceDir: string
+    workspaceDir: string,
+    options: AgentOptions = {}
   ) {
     this.llmClient = llmClient;
     this.maxSteps = maxSteps;
     this.tools = new Map();
+    this.compactor = new ContextCompactor(
+      options.compaction ?? Config.createDefaultCompactionConfig()
+    );
+    this.loopDetector = new LoopDetector(
+      options.loopDetection ?? Config.createDefaultLoopDetectionConfig()
+    );
+    this.toolConcurrency = Math.max(1, options.toolConcurrency ?? 4);
+    this.permissions = options.permissions;
+    this.pricing = options.pricing;
+    this.planMode = options.planMode ?? false;
+    this.reviewPlan = options.reviewPlan;
+    this.hooks = options.hooks;
+    this.maxDuration = options.maxDuration ?? 0;
+    this.tokenBudget = options.tokenBudget ?? 0;
+    this.confirmContinue = options.confirmContinue;
+    this.maxOutputRepairs = options.maxOutputRepairs ?? DEFAULT_OUTPUT_REPAIRS;
+    this.exitPlanModeTool = new ExitPlanModeTool(async (plan) => {
+      if (!this.reviewPlan) {
+        return null;
+      }
+      const decision = await this.reviewPlan(plan);
+      if (decision.approved) {
+        this.setPlanMode(false);
+      }
+      return decision;
+    });
 
     // Ensure workspace exists
     this.workspaceDir = path.resolve(workspaceDir);
     fs.mkdirSync(this.workspaceDir, { recursive: true });
 
     // Inject workspace dir into system prompt
-    this.systemPrompt = buildSystemPrompt(systemPrompt, workspaceDir);
+    this.instructions = options.instructions ?? '';
+    this.systemPrompt = buildSystemPrompt(
+      options.outputSchema
+        ? `${systemPrompt}\n\n${OUTPUT_SCHEMA_PROMPT}`
+        : systemPrompt,
+      workspaceDir,
+      this.instructions
+    );
     this.messages = [{ role: 'system', content: this.systemPrompt }];
 
     // Register tools with the agent
     for (const tool of tools) {
       this.registerTool(tool);
     }
+    if (!this.tools.has('todo_write')) {
+      this.registerTool(new TodoWriteTool((todos) => this.setTodos(todos)));
+    }
+    if (options.outputSchema) {
+      this.finalAnswerTool = new FinalAnswerTool(
+        options.outputSchema,
+        (answer) => {
+          this.structuredOutput = answer;
+        }
+      );
+      this.registerTool(this.finalAnswerTool);
+    }
+  }
+
+  /**
+   * Subscribe to agent events. A listener that throws is logged and does
+   * not affect the run or the other listeners.
+   *
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: AgentEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: AgentEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        Logger.log('EVENT', `Listener failed on ${event.type}`, message);
+      }
+    }
+  }
+
+  private appendMessage(message: Message): void {
+    this.messages.push(message);
+    this.emit({ type: 'message', message });
+  }
+
+  /**
+   * Cost of the accumulated usage in USD, or null without pricing.
+   * Steps that ran without pricing are not included.
+   */
+  getCost(): number | null {
+    return this.cost;
+  }
+
+  private recordUsage(usage: TokenUsage): void {
+    this.usage = addUsage(this.usage, usage);
+    const cost = calculateCost(usage, this.pricing);
+    if (cost !== null) {
+      this.cost = (this.cost ?? 0) + cost;
+    }
+    this.emit({
+      type: 'usage',
+      usage,
+      total: this.usage,
+      cost: this.getCost(),
+    });
   }
 
-  addUserMessage(content: string): void {
+  addUserMessage(content: string | ContentBlock[]): void {
     Logger.log('CHAT', 'User:', content);
-    this.messages.push({ role: 'user', content });
+    this.appendMessage({ role: 'user', content });
   }
 
   registerTool(tool: Tool): void {
@@ -67,21 +351,232 @@ export class Agent {
     return Array.from(this.tools.values());
   }
 
+  /**
+   * Turn plan mode on or off.
+   */
+  setPlanMode(enabled: boolean): void {
+    if (this.planMode === enabled) {
+      return;
+    }
+    this.planMode = enabled;
+    this.emit({ type: 'plan_mode', enabled });
+  }
+
+  /**
+   * Replace the todo list.
+   */
+  setTodos(todos: TodoItem[]): void {
+    this.todos = todos;
+    this.emit({ type: 'todos', todos });
+  }
+
+  /**
+   * Restore the todo list of a resumed session; it is added to the next
+   * prompt so the model sees it again.
+   */
+  restoreTodos(todos: TodoItem[]): void {
+    this.setTodos(todos);
+    this.remindTodos = todos.length > 0;
+  }
+
+  /**
+   * Tools offered to the model in the current mode.
+   *
+   * In plan mode only read-only tools, `bash` (restricted to read-only
+   * commands) and `exit_plan_mode` are available. A run started with
+   * `allowedTools` only gets those (and `final_answer`).
+   */
+  getActiveTools(): Tool[] {
+    const tools = this.allowedTools
+      ? this.listTools().filter(
+          (tool) =>
+            this.allowedTools?.includes(tool.name) ||
+            tool === this.finalAnswerTool
+        )
+      : this.listTools();
+    if (!this.planMode) {
+      return tools;
+    }
+    return [
+      ...tools.filter((tool) => tool.readOnly || tool.name === 'bash'),
+      this.exitPlanModeTool,
+    ];
+  }
+
+  /**
+   * Messages sent to the model; the system prompt gains the plan mode
+   * instructions while plan mode is on.
+   */
+  private getRequestMessages(): Message[] {
+    const [first, ...rest] = this.messages;
+    if (!this.planMode || first?.role !== 'system') {
+      return this.messages;
+    }
+    return [
+      { role: 'system', content: `${first.content}\n\n${PLAN_MODE_PROMPT}` },
+      ...rest,
+    ];
+  }
+
+  /**
+   * Run a tool call: coerce and validate the arguments against the tool's
+   * schema, run the `PreToolUse` hooks (validating the arguments again if a
+   * hook changed them), check permissions, execute, then run the
+   * `PostToolUse` hooks. Invalid arguments are returned to the model as
+   * errors without running anything.
+   */
   async executeTool(
     name: string,
-    params: Record<string, unknown>
+    params: Record<string, unknown>,
+    options: ToolExecuteOptions = {}
   ): Promise<ToolResult> {
-    const tool = this.getTool(name);
+    const tool =
+      this.planMode || this.allowedTools
+        ? this.getActiveTools().find((t) => t.name === name)
+        : this.getTool(name);
     if (!tool) {
-      return {
-        success: false,
-        content: '',
-        error: `Unknown tool: ${name}`,
-      };
+      let error = `Unknown tool: ${name}`;
+      if (this.getTool(name)) {
+        error = this.planMode
+          ? `Tool ${name} is not available in plan mode`
+          : `Tool ${name} is not allowed in this run`;
+      }
+      return { success: false, content: '', error };
+    }
+
+    const checked = this.checkArguments(tool, params);
+    if (checked.error) {
+      return { success: false, content: '', error: checked.error };
+    }
+    let input = checked.input;
+
+    const context: string[] = [];
+    if (this.hooks?.has('PreToolUse')) {
+      const outcome = await this.runHooks(
+        { hook_event_name: 'PreToolUse', tool_name: name, tool_input: input },
+        options.signal
+      );
+      if (outcome.blocked) {
+        return {
+          success: false,
+          content: '',
+          error: `Blocked by PreToolUse hook: ${outcome.reason}`,
+        };
+      }
+      if (outcome.updatedInput) {
+        const updated = this.checkArguments(tool, {
+          ...input,
+          ...outcome.updatedInput,
+        });
+        if (updated.error) {
+          return {
+            success: false,
+            content: '',
+            error: `${updated.error}\n(The arguments were changed by a PreToolUse hook)`,
+          };
+        }
+        input = updated.input;
+      }
+      context.push(...outcome.additionalContext);
     }
 
+    let result = await this.invokeTool(tool, input, options);
+
+    if (this.hooks?.has('PostToolUse')) {
+      const outcome = await this.runHooks(
+        {
+          hook_event_name: 'PostToolUse',
+          tool_name: name,
+          tool_input: input,
+          tool_result: result,
+        },
+        options.signal
+      );
+      context.push(...outcome.additionalContext);
+      if (outcome.blocked && outcome.reason) {
+        context.push(`PostToolUse hook: ${outcome.reason}`);
+      }
+    }
+
+    // Hook feedback goes wherever the model reads the result
+    if (context.length > 0) {
+      const note = context.join('\n\n');
+      result = result.success
+        ? { ...result, content: `${result.content}\n\n${note}` }
+        : { ...result, error: `${result.error ?? 'Unknown error'}\n\n${note}` };
+    }
+    return result;
+  }
+
+  /**
+   * Coerce the arguments of a call to the tool's schema and validate them.
+   *
+   * @returns The coerced arguments, and the error for the model if they
+   * are invalid
+   */
+  private checkArguments(
+    tool: Tool,
+    params: Record<string, unknown>
+  ): { input: ToolInput; error?: string } {
     try {
-      return await tool.execute(params);
+      const input = coerceToSchema(tool.parameters, params) as ToolInput;
+      const errors = validateJsonSchema(tool.parameters, input);
+      return errors.length > 0
+        ? {
+            input,
+            error: `Invalid arguments for ${tool.name}:\n${formatSchemaErrors(errors)}`,
+          }
+        : { input };
+    } catch (error) {
+      // A schema the validator cannot handle is not enforced
+      const message = error instanceof Error ? error.message : String(error);
+      Logger.log(
+        'TOOL',
+        `Skipped argument validation of ${tool.name}`,
+        message
+      );
+      return { input: params };
+    }
+  }
+
+  /**
+   * Check plan mode restrictions and permissions, then run the tool.
+   */
+  private async invokeTool(
+    tool: Tool,
+    params: Record<string, unknown>,
+    options: ToolExecuteOptions
+  ): Promise<ToolResult> {
+    if (this.planMode && tool.name === 'bash') {
+      const command = params['command'];
+      if (typeof command !== 'string' || !isReadOnlyCommand(command)) {
+        return {
+          success: false,
+          content: '',
+          error:
+            'Plan mode only allows read-only commands (e.g. ls, cat, grep, git status, git diff)',
+        };
+      }
+    }
+
+    // Everything that passes the plan mode checks only reads state
+    if (this.permissions && !tool.managesPermissions && !this.planMode) {
+      const decision = await this.permissions.check(
+        tool,
+        params,
+        options.toolCallId
+      );
+      if (decision.behavior === 'deny') {
+        return {
+          success: false,
+          content: '',
+          error: `Permission denied: ${decision.reason}`,
+        };
+      }
+    }
+
+    try {
+      return await tool.execute(params, options);
     } catch (error) {
       const err = error as Error;
       const details = err?.message ? err.message : String(error);
@@ -94,133 +589,604 @@ export class Agent {
     }
   }
 
-  async run(): Promise<string> {
-    for (let step = 0; step < this.maxSteps; step++) {
-      // Step Header
-      console.log();
-      console.log(drawStepHeader(step + 1, this.maxSteps));
+  /**
+   * Run the hooks of an event and report hooks that failed.
+   */
+  private async runHooks(
+    event: HookEventInput,
+    signal?: AbortSignal
+  ): Promise<HookOutcome> {
+    if (!this.hooks) {
+      return { blocked: false, additionalContext: [], errors: [] };
+    }
+    const outcome = await this.hooks.run(event, signal);
+    for (const error of outcome.errors) {
+      this.emit({
+        type: 'hook_error',
+        hookEvent: event.hook_event_name,
+        error,
+      });
+    }
+    return outcome;
+  }
+
+  /**
+   * Run the `SessionStart` hooks; context they return is added to the
+   * system prompt.
+   */
+  async startSession(source: 'startup' | 'resume'): Promise<void> {
+    if (!this.hooks?.has('SessionStart')) {
+      return;
+    }
+    const outcome = await this.runHooks({
+      hook_event_name: 'SessionStart',
+      source,
+    });
+    if (outcome.additionalContext.length > 0) {
+      this.updateSystemPrompt(
+        [this.systemPrompt, ...outcome.additionalContext].join('\n\n')
+      );
+    }
+  }
+
+  /**
+   * Replace the project instructions section of the system prompt
+   * (e.g. after an instruction file was edited).
+   */
+  setInstructions(instructions: string): void {
+    const prompt = this.instructions
+      ? this.systemPrompt.replace(this.instructions, () => instructions)
+      : `${this.systemPrompt}\n\n${instructions}`;
+    this.instructions = instructions;
+    this.updateSystemPrompt(prompt.trimEnd());
+  }
+
+  private updateSystemPrompt(prompt: string): void {
+    this.systemPrompt = prompt;
+    if (this.messages[0]?.role === 'system') {
+      this.messages[0] = { role: 'system', content: prompt };
+    }
+  }
+
+  /**
+   * Run the `UserPromptSubmit` hooks on the prompt that starts this run.
+   *
+   * @returns The reason if a hook blocked the prompt, otherwise null
+   */
+  private async submitPrompt(signal?: AbortSignal): Promise<string | null> {
+    const index = this.messages.length - 1;
+    const last = this.messages[index];
+    if (!this.hooks?.has('UserPromptSubmit') || last?.role !== 'user') {
+      return null;
+    }
 
-      let fullContent = '';
-      let fullThinking = '';
-      let toolCalls: ToolCall[] | null = null;
-      let isThinkingPrinted = false;
+    const prompt =
+      typeof last.content === 'string'
+        ? last.content
+        : last.content.map((block) => block.text ?? '').join('\n');
+    const outcome = await this.runHooks(
+      { hook_event_name: 'UserPromptSubmit', prompt },
+      signal
+    );
 
-      const toolList = this.listTools();
+    if (outcome.blocked) {
+      // The blocked prompt never reaches the model
+      this.messages = this.messages.slice(0, index);
+      return outcome.reason ?? 'Prompt blocked by hook';
+    }
+    if (outcome.additionalContext.length > 0) {
+      this.appendToPrompt(outcome.additionalContext.join('\n\n'));
+    }
+    return null;
+  }
+
+  /**
+   * Add extra context to the user message that starts the run.
+   */
+  private appendToPrompt(text: string): void {
+    const index = this.messages.length - 1;
+    const last = this.messages[index];
+    if (last?.role !== 'user') {
+      return;
+    }
+    this.messages[index] = {
+      role: 'user',
+      content:
+        typeof last.content === 'string'
+          ? `${last.content}\n\n${text}`
+          : [...last.content, { type: 'text', text }],
+    };
+  }
+
+  /**
+   * Run the `Stop` hooks when the model is done.
+   *
+   * @returns Feedback to continue with if a hook blocked stopping
+   */
+  private async checkStop(
+    result: string,
+    stopHookActive: boolean,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    if (!this.hooks?.has('Stop')) {
+      return null;
+    }
+    const outcome = await this.runHooks(
+      {
+        hook_event_name: 'Stop',
+        result,
+        stop_hook_active: stopHookActive,
+      },
+      signal
+    );
+    return outcome.blocked ? (outcome.reason ?? 'Continue working') : null;
+  }
+
+  /**
+   * Execute the tool calls of one assistant turn.
+   *
+   * Consecutive concurrency-safe calls (e.g. several `read_file`) run in
+   * parallel up to `toolConcurrency`; any other call runs on its own, in
+   * order. Results are returned in the original tool_call order.
+   * Calls that have not started when the signal fires are not executed.
+   */
+  private async executeToolCalls(
+    toolCalls: ToolCall[],
+    signal?: AbortSignal
+  ): Promise<ToolResult[]> {
+    const runOne = async (toolCall: ToolCall): Promise<ToolResult> => {
+      if (signal?.aborted) {
+        return { success: false, content: '', error: INTERRUPTED_MESSAGE };
+      }
+
+      this.emit({ type: 'tool_call_start', toolCall });
+      const invalid = toolCall.function.invalid_arguments;
+      const result =
+        invalid !== undefined
+          ? {
+              success: false,
+              content: '',
+              error: describeInvalidArguments(invalid),
+            }
+          : await this.executeTool(
+              toolCall.function.name,
+              toolCall.function.arguments || {},
+              {
+                signal,
+                toolCallId: toolCall.id,
+                onEvent: (event) => {
+                  this.emit({ type: 'subagent', toolCall, event });
+                  if (event.type === 'usage') {
+                    this.recordUsage(event.usage);
+                  }
+                },
+              }
+            );
+      this.emit({ type: 'tool_result', toolCall, result });
+      return result;
+    };
+
+    const isSafe = (toolCall: ToolCall): boolean => {
+      const tool = this.getActiveTools().find(
+        (t) => t.name === toolCall.function.name
+      );
+      return tool ? isConcurrencySafe(tool) : false;
+    };
+
+    const results: ToolResult[] = [];
+    let index = 0;
+    while (index < toolCalls.length) {
+      if (!isSafe(toolCalls[index])) {
+        results.push(await runOne(toolCalls[index]));
+        index++;
+        continue;
+      }
+
+      // Collect the run of consecutive safe calls
+      let end = index;
+      while (end < toolCalls.length && isSafe(toolCalls[end])) {
+        end++;
+      }
+      const batch = toolCalls.slice(index, end);
+      results.push(
+        ...(await mapWithConcurrency(batch, this.toolConcurrency, runOne))
+      );
+      index = end;
+    }
+
+    return results;
+  }
+
+  /**
+   * Summarize older turns into a single message to free up context.
+   *
+   * @returns The compaction result, or null if there was nothing to summarize
+   */
+  async compact(signal?: AbortSignal): Promise<CompactionResult | null> {
+    // The summary keeps the todo list in context
+    const result = await this.compactor.compact(
+      this.messages,
+      this.llmClient,
+      signal,
+      this.todos.length > 0 ? formatTodoList(this.todos) : undefined
+    );
+    if (result?.usage) {
+      this.recordUsage(result.usage);
+    }
+    if (result) {
+      this.messages = result.messages;
+      this.emit({
+        type: 'compaction',
+        summarizedCount: result.summarizedCount,
+        tokensBefore: result.tokensBefore,
+        tokensAfter: result.tokensAfter,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Compact automatically once the estimated usage passes the threshold.
+   * A failed summarization is reported but never aborts the run.
+   */
+  private async autoCompact(signal?: AbortSignal): Promise<void> {
+    if (!this.compactor.shouldCompact(this.messages)) {
+      return;
+    }
+
+    try {
+      await this.compact(signal);
+    } catch (error) {
+      if (signal?.aborted) return;
+      const message = error instanceof Error ? error.message : String(error);
+      Logger.log('COMPACTION', 'Automatic compaction failed', message);
+      this.emit({ type: 'compaction_failed', error: message });
+    }
+  }
+
+  private finishRun(
+    status: AgentRunStatus,
+    content: string,
+    steps: number
+  ): string {
+    this.emit({ type: 'run_end', status, content, steps });
+    return content;
+  }
+
+  /**
+   * Stream one model response and record its usage.
+   * When the signal fires, the partial response is returned.
+   */
+  private async streamResponse(
+    tools: Tool[],
+    signal?: AbortSignal
+  ): Promise<ModelResponse> {
+    const response: ModelResponse = {
+      content: '',
+      thinking: '',
+      toolCalls: null,
+    };
+    let usage: TokenUsage | undefined;
+
+    try {
       for await (const chunk of this.llmClient.generateStream(
-        this.messages,
-        toolList
+        this.getRequestMessages(),
+        tools,
+        signal
       )) {
         if (chunk.thinking) {
-          if (!isThinkingPrinted) {
-            console.log();
-            console.log(`${Colors.DIM}─${'─'.repeat(60)}${Colors.RESET}`);
-            console.log();
-            console.log(
-              `${Colors.BOLD}${Colors.BRIGHT_MAGENTA}🧠 Thinking:${Colors.RESET}`
-            );
-            isThinkingPrinted = true;
-          }
-          process.stdout.write(chunk.thinking);
-          fullThinking += chunk.thinking;
+          response.thinking += chunk.thinking;
+          this.emit({ type: 'thinking_delta', delta: chunk.thinking });
         }
 
         if (chunk.content) {
-          if (isThinkingPrinted && fullContent === '') {
-            console.log();
-            console.log();
-            console.log(`${Colors.DIM}─${'─'.repeat(60)}${Colors.RESET}`);
-            console.log();
-            console.log(
-              `${Colors.BOLD}${Colors.BRIGHT_BLUE}📝 Response:${Colors.RESET}`
-            );
-          } else if (!isThinkingPrinted && fullContent === '') {
-            // 只有 Response，无 Thinking：1 个空行 + Response 标题
-            console.log();
-            console.log(
-              `${Colors.BOLD}${Colors.BRIGHT_BLUE}📝 Response:${Colors.RESET}`
-            );
-          }
-          process.stdout.write(chunk.content);
-          fullContent += chunk.content;
+          response.content += chunk.content;
+          this.emit({ type: 'content_delta', delta: chunk.content });
+        }
+
+        if (chunk.thinking_signature) {
+          response.thinkingSignature = chunk.thinking_signature;
         }
 
         if (chunk.tool_calls) {
-          toolCalls = chunk.tool_calls;
+          response.toolCalls = chunk.tool_calls;
         }
+
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+      }
+    } catch (error) {
+      if (!signal?.aborted) {
+        throw error;
       }
+    }
 
-      if (!toolCalls || toolCalls.length === 0) {
-        console.log();
+    if (usage) {
+      this.recordUsage(usage);
+    }
+    return response;
+  }
+
+  /**
+   * Find the first run limit that has been reached.
+   */
+  private reachedLimit(step: number, limits: RunLimits): RunLimit | null {
+    if (step >= limits.steps) {
+      return 'max_steps';
+    }
+    if (Date.now() >= limits.deadline) {
+      return 'time_limit';
+    }
+    if (totalTokens(this.usage) >= limits.tokens) {
+      return 'token_budget';
+    }
+    return null;
+  }
+
+  /**
+   * Give a reached limit another budget of the same size, or lift it.
+   */
+  private extendLimit(
+    limit: RunLimit,
+    decision: LimitDecision,
+    step: number,
+    limits: RunLimits
+  ): void {
+    const unlimited = decision === 'unlimited';
+    switch (limit) {
+      case 'max_steps':
+        limits.steps = unlimited ? Infinity : step + this.maxSteps;
+        break;
+      case 'time_limit':
+        limits.deadline = unlimited
+          ? Infinity
+          : Date.now() + this.maxDuration * 1000;
+        break;
+      case 'token_budget':
+        limits.tokens = unlimited
+          ? Infinity
+          : totalTokens(this.usage) + this.tokenBudget;
+        break;
+    }
+  }
+
+  private describeLimit(limit: RunLimit, steps: number): string {
+    switch (limit) {
+      case 'max_steps':
+        return `Task couldn't be completed after ${steps} steps.`;
+      case 'time_limit':
+        return `Task couldn't be completed within the time limit (${this.maxDuration}s).`;
+      case 'token_budget':
+        return `Task couldn't be completed within the token budget (${this.tokenBudget} tokens).`;
+    }
+  }
+
+  /**
+   * End a run that hit a limit with one last response, without tool use,
+   * that summarizes the progress for the user.
+   */
+  private async finishWithSummary(
+    limit: RunLimit,
+    steps: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const notice = this.describeLimit(limit, steps);
+    this.appendMessage({
+      role: 'user',
+      content: `[${notice}]\n\n${FINAL_ANSWER_PROMPT}`,
+    });
+
+    // Tools stay declared because earlier messages reference them
+    const response = await this.streamResponse(this.getActiveTools(), signal);
+    if (signal?.aborted) {
+      return this.finishRun('interrupted', INTERRUPTED_MESSAGE, steps);
+    }
+
+    this.appendMessage({
+      role: 'assistant',
+      content: response.content,
+      thinking: response.thinking || undefined,
+      thinking_signature: response.thinkingSignature,
+    });
+    return this.finishRun(
+      limit,
+      response.content ? `${notice}\n\n${response.content}` : notice,
+      steps
+    );
+  }
+
+  /**
+   * Run the agent loop until the model answers without tool calls.
+   *
+   * When `options.signal` fires, the current turn stops: a partial response
+   * is kept, every issued tool call still gets a (interrupted) result, and
+   * the run ends with status `interrupted`.
+   *
+   * When a limit (steps, time or tokens) is reached, `confirmContinue` may
+   * extend it; otherwise the model summarizes its progress and the run ends
+   * with the limit as status.
+   *
+   * With an output schema the run completes when `final_answer` accepts an
+   * answer, which is returned as JSON (and kept in `structuredOutput`).
+   * Answers that do not validate, or text replies, go back to the model up
+   * to `maxOutputRepairs` times before the run ends with `invalid_output`.
+   */
+  async run(options: AgentRunOptions = {}): Promise<string> {
+    this.allowedTools = options.allowedTools ?? null;
+    this.structuredOutput = undefined;
+    try {
+      return await this.runSteps(options.signal);
+    } finally {
+      this.allowedTools = null;
+    }
+  }
+
+  private async runSteps(signal?: AbortSignal): Promise<string> {
+    const blockReason = await this.submitPrompt(signal);
+    if (blockReason !== null) {
+      return this.finishRun('blocked', blockReason, 0);
+    }
+
+    const limits: RunLimits = {
+      steps: this.maxSteps,
+      deadline:
+        this.maxDuration > 0 ? Date.now() + this.maxDuration * 1000 : Infinity,
+      tokens:
+        this.tokenBudget > 0
+          ? totalTokens(this.usage) + this.tokenBudget
+          : Infinity,
+    };
+    if (this.remindTodos) {
+      this.remindTodos = false;
+      this.appendToPrompt(formatTodoList(this.todos));
+    }
+
+    this.loopDetector.reset();
+    let stopHookActive = false;
+    let repairs = 0;
+    for (let step = 0; ; step++) {
+      if (signal?.aborted) {
+        return this.finishRun('interrupted', INTERRUPTED_MESSAGE, step);
       }
 
-      this.messages.push({
-        role: 'assistant',
-        content: fullContent,
-        thinking: fullThinking || undefined,
-        tool_calls: toolCalls || undefined,
+      let limit = this.reachedLimit(step, limits);
+      while (limit) {
+        this.emit({ type: 'limit_reached', limit, steps: step });
+        const decision = this.confirmContinue
+          ? await this.confirmContinue(limit)
+          : 'stop';
+        if (decision === 'stop' || signal?.aborted) {
+          return this.finishWithSummary(limit, step, signal);
+        }
+        this.extendLimit(limit, decision, step, limits);
+        limit = this.reachedLimit(step, limits);
+      }
+
+      await this.autoCompact(signal);
+
+      this.emit({
+        type: 'step_start',
+        step: step + 1,
+        maxSteps: Number.isFinite(limits.steps) ? limits.steps : null,
       });
 
-      if (!toolCalls || toolCalls.length === 0) {
-        return fullContent;
-      }
+      const { content, thinking, thinkingSignature, toolCalls } =
+        await this.streamResponse(this.getActiveTools(), signal);
 
-      for (const toolCall of toolCalls) {
-        const toolCallId = toolCall.id;
-        const functionName = toolCall.function.name;
-        const args = toolCall.function.arguments || {};
+      if (signal?.aborted) {
+        // Keep the partial response; unsigned partial thinking and
+        // unfinished tool calls cannot be replayed, so they are dropped
+        const marker = `[${INTERRUPTED_MESSAGE}]`;
+        this.appendMessage({
+          role: 'assistant',
+          content: content ? `${content}\n\n${marker}` : marker,
+        });
+        this.emit({ type: 'step_end', step: step + 1 });
+        return this.finishRun('interrupted', INTERRUPTED_MESSAGE, step + 1);
+      }
 
-        // Tool 标题
-        console.log(
-          `\n${Colors.BOLD}${Colors.BRIGHT_YELLOW}🔧 Tool: ${functionName}${Colors.RESET}`
-        );
+      this.appendMessage({
+        role: 'assistant',
+        content,
+        thinking: thinking || undefined,
+        thinking_signature: thinkingSignature,
+        tool_calls: toolCalls || undefined,
+      });
 
-        // Arguments
-        console.log(`${Colors.DIM}   Arguments:${Colors.RESET}`);
-        const truncatedArgs: Record<string, unknown> = {};
-        for (const [key, value] of Object.entries(args)) {
-          const valueStr = String(value);
-          if (valueStr.length > 200) {
-            truncatedArgs[key] = `${valueStr.slice(0, 200)}...`;
-          } else {
-            truncatedArgs[key] = value;
+      if (!toolCalls || toolCalls.length === 0) {
+        this.emit({ type: 'step_end', step: step + 1 });
+        if (this.finalAnswerTool) {
+          if (repairs >= this.maxOutputRepairs) {
+            return this.finishRun(
+              'invalid_output',
+              'Stopped: the final answer was not submitted with the final_answer tool.',
+              step + 1
+            );
           }
+          repairs++;
+          this.appendMessage({ role: 'user', content: OUTPUT_REMINDER_PROMPT });
+          continue;
         }
-        const argsJson = JSON.stringify(truncatedArgs, null, 2);
-        for (const line of argsJson.split('\n')) {
-          console.log(`   ${Colors.DIM}${line}${Colors.RESET}`);
+        const feedback = await this.checkStop(content, stopHookActive, signal);
+        if (feedback === null) {
+          return this.finishRun('completed', content, step + 1);
         }
+        // A Stop hook asked for more work
+        stopHookActive = true;
+        this.appendMessage({ role: 'user', content: feedback });
+        continue;
+      }
 
-        const result = await this.executeTool(functionName, args);
+      // Every tool_call gets a tool result, even when interrupted
+      const results = await this.executeToolCalls(toolCalls, signal);
+      let loop: LoopCheck = { status: 'ok' };
+      for (const [index, toolCall] of toolCalls.entries()) {
+        const result = results[index];
+        let content = result.success
+          ? result.content
+          : `Error: ${result.error ?? 'Unknown error'}`;
 
-        if (result.success) {
-          let resultText = result.content;
-          const MAX_LENGTH = 300;
-          if (resultText.length > MAX_LENGTH) {
-            resultText = `${resultText.slice(
-              0,
-              MAX_LENGTH
-            )}${Colors.DIM}...${Colors.RESET}`;
-          }
-          console.log(
-            `${Colors.BRIGHT_GREEN}✓${Colors.RESET} ${Colors.BOLD}${Colors.BRIGHT_GREEN}Success:${Colors.RESET} ${resultText}\n`
-          );
-        } else {
-          console.log(
-            `${Colors.BRIGHT_RED}✗${Colors.RESET} ${Colors.BOLD}${Colors.BRIGHT_RED}Error:${Colors.RESET} ${Colors.RED}${result.error ?? 'Unknown error'}${Colors.RESET}\n`
-          );
+        const check = this.loopDetector.record(toolCall, result);
+        if (check.status === 'warn') {
+          this.emit({
+            type: 'loop_warning',
+            toolName: check.toolName,
+            count: check.count,
+          });
+          content = `${content}\n\n${loopWarning(check.toolName, check.count)}`;
+        } else if (check.status === 'stop') {
+          loop = check;
         }
 
-        this.messages.push({
+        this.appendMessage({
           role: 'tool',
-          content: result.success
-            ? result.content
-            : `Error: ${result.error ?? 'Unknown error'}`,
-          tool_call_id: toolCallId,
-          tool_name: functionName,
+          content,
+          tool_call_id: toolCall.id,
+          tool_name: toolCall.function.name,
         });
       }
-    }
 
-    return `Task couldn't be completed after ${this.maxSteps} steps.`;
+      this.emit({ type: 'step_end', step: step + 1 });
+
+      if (signal?.aborted) {
+        return this.finishRun('interrupted', INTERRUPTED_MESSAGE, step + 1);
+      }
+      if (loop.status === 'stop') {
+        return this.finishRun(
+          'loop_detected',
+          `Stopped: stuck in a loop calling ${loop.toolName} with the same arguments and result ${loop.count} times.`,
+          step + 1
+        );
+      }
+
+      if (this.structuredOutput !== undefined) {
+        const answer = JSON.stringify(this.structuredOutput, null, 2);
+        const feedback = await this.checkStop(answer, stopHookActive, signal);
+        if (feedback === null) {
+          return this.finishRun('completed', answer, step + 1);
+        }
+        stopHookActive = true;
+        this.structuredOutput = undefined;
+        this.appendMessage({ role: 'user', content: feedback });
+        continue;
+      }
+
+      const rejected = toolCalls.findIndex(
+        (toolCall, index) =>
+          toolCall.function.name === this.finalAnswerTool?.name &&
+          !results[index].success
+      );
+      if (rejected !== -1) {
+        if (repairs >= this.maxOutputRepairs) {
+          return this.finishRun(
+            'invalid_output',
+            `Stopped after ${repairs + 1} invalid final answers.\n\n${results[rejected].error ?? ''}`.trimEnd(),
+            step + 1
+          );
+        }
+        repairs++;
+      }
+    }
   }
 }
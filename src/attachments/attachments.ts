@@ -0,0 +1,241 @@
+/**
+ * Attachments - Files mentioned with `@path` in user input
+ *
+ * Text files are inlined with line numbers; images become base64 image
+ * blocks (in Anthropic's format, which the OpenAI client converts).
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { ContentBlock } from '../schema/index.js';
+
+// ============ Types ============
+
+export interface Attachment {
+  /** Path as written after `@` */
+  reference: string;
+  /** Absolute path of the file */
+  path: string;
+  kind: 'text' | 'image';
+  /** Lines inlined (text) */
+  lines?: number;
+  /** Whether the text was cut at the size limits */
+  truncated?: boolean;
+  /** File size in bytes */
+  bytes: number;
+}
+
+export interface AttachmentLimits {
+  /** Maximum number of lines inlined per text file */
+  maxLines: number;
+  /** Maximum number of bytes inlined per text file */
+  maxTextBytes: number;
+  /** Larger images are rejected */
+  maxImageBytes: number;
+}
+
+export interface ResolvedInput {
+  /** Message content: a string, or blocks when images are attached */
+  content: string | ContentBlock[];
+  attachments: Attachment[];
+  /** Mentions of existing files that could not be attached */
+  errors: string[];
+}
+
+export const DEFAULT_ATTACHMENT_LIMITS: AttachmentLimits = {
+  maxLines: 2000,
+  maxTextBytes: 256 * 1024,
+  maxImageBytes: 5 * 1024 * 1024,
+};
+
+export const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+// ============ Mentions ============
+
+// `@path` or `@"path with spaces"` at the start of a word
+const MENTION = /(?<!\S)@(?:"([^"]+)"|([^\s"]+))/g;
+
+/**
+ * Find the `@path` mentions of an input line.
+ */
+export function findMentions(input: string): string[] {
+  const mentions: string[] = [];
+  for (const match of input.matchAll(MENTION)) {
+    // Trailing punctuation belongs to the sentence, not the path
+    const reference = match[1] ?? match[2].replace(/[.,;:!?)]+$/, '');
+    if (reference && !mentions.includes(reference)) {
+      mentions.push(reference);
+    }
+  }
+  return mentions;
+}
+
+// ============ Loading ============
+
+function formatTextFile(
+  reference: string,
+  buffer: Buffer,
+  limits: AttachmentLimits
+): { text: string; lines: number; truncated: boolean } {
+  let raw = buffer.toString('utf8');
+  let truncated = false;
+  if (buffer.length > limits.maxTextBytes) {
+    raw = buffer.subarray(0, limits.maxTextBytes).toString('utf8');
+    truncated = true;
+  }
+  let lines = raw.replace(/\n$/, '').split('\n');
+  if (truncated) {
+    // The last line may be cut in the middle
+    lines = lines.slice(0, -1);
+  }
+  if (lines.length > limits.maxLines) {
+    lines = lines.slice(0, limits.maxLines);
+    truncated = true;
+  }
+
+  const numbered = lines
+    .map((line, index) => `${String(index + 1).padStart(6, ' ')}|${line}`)
+    .join('\n');
+  const note = truncated
+    ? `\n[Truncated after line ${lines.length}; use read_file for the rest]`
+    : '';
+  return {
+    text: `<file path="${reference}">\n${numbered}${note}\n</file>`,
+    lines: lines.length,
+    truncated,
+  };
+}
+
+/**
+ * Attach the files mentioned in a line of user input.
+ *
+ * Mentions that are not files (e.g. `@someone`) are left alone; files that
+ * cannot be attached (binary, too large) are reported in `errors`. The input
+ * itself is kept as the first part of the message.
+ */
+export function resolveAttachments(
+  input: string,
+  workspaceDir: string,
+  limits: AttachmentLimits = DEFAULT_ATTACHMENT_LIMITS
+): ResolvedInput {
+  const attachments: Attachment[] = [];
+  const errors: string[] = [];
+  const texts: string[] = [];
+  const images: ContentBlock[] = [];
+
+  for (const reference of findMentions(input)) {
+    const filePath = path.resolve(workspaceDir, reference);
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(filePath);
+    } catch {
+      continue;
+    }
+    if (!stats.isFile()) continue;
+
+    const mediaType = IMAGE_MEDIA_TYPES[path.extname(filePath).toLowerCase()];
+    try {
+      if (mediaType) {
+        if (stats.size > limits.maxImageBytes) {
+          errors.push(
+            `${reference}: image is larger than ${Math.round(limits.maxImageBytes / 1024 / 1024)} MB`
+          );
+          continue;
+        }
+        images.push({
+          type: 'image',
+          source: {
+            type: 'base64',
+            media_type: mediaType,
+            data: fs.readFileSync(filePath).toString('base64'),
+          },
+        });
+        attachments.push({
+          reference,
+          path: filePath,
+          kind: 'image',
+          bytes: stats.size,
+        });
+        continue;
+      }
+
+      const buffer = fs.readFileSync(filePath);
+      if (buffer.subarray(0, 8000).includes(0)) {
+        errors.push(`${reference}: binary files cannot be attached`);
+        continue;
+      }
+      const { text, lines, truncated } = formatTextFile(
+        reference,
+        buffer,
+        limits
+      );
+      texts.push(text);
+      attachments.push({
+        reference,
+        path: filePath,
+        kind: 'text',
+        lines,
+        truncated,
+        bytes: stats.size,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(`${reference}: ${message}`);
+    }
+  }
+
+  const text = [input, ...texts].join('\n\n');
+  return {
+    content: images.length > 0 ? [{ type: 'text', text }, ...images] : text,
+    attachments,
+    errors,
+  };
+}
+
+// ============ Completion ============
+
+/**
+ * Complete the workspace path of an `@` mention at the end of the line.
+ *
+ * @returns Completions and the part of the line they replace, as expected
+ * by the `completer` option of `readline`
+ */
+export function completeMention(
+  line: string,
+  workspaceDir: string
+): [string[], string] {
+  const match = /(?<!\S)@([^\s"]*)$/.exec(line);
+  if (!match) {
+    return [[], line];
+  }
+
+  const partial = match[1];
+  const slash = partial.lastIndexOf('/');
+  const dirPart = slash === -1 ? '' : partial.slice(0, slash + 1);
+  const prefix = partial.slice(slash + 1);
+
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(path.resolve(workspaceDir, dirPart || '.'), {
+      withFileTypes: true,
+    });
+  } catch {
+    return [[], match[0]];
+  }
+
+  const completions = entries
+    .filter(
+      (entry) =>
+        entry.name.startsWith(prefix) &&
+        (prefix.startsWith('.') || !entry.name.startsWith('.'))
+    )
+    .map((entry) => `@${dirPart}${entry.name}${entry.isDirectory() ? '/' : ''}`)
+    .sort();
+  return [completions, match[0]];
+}
@@ -0,0 +1,5 @@
+/**
+ * Attachments module
+ */
+
+export * from './attachments.js';
@@ -0,0 +1,393 @@
+/**
+ * Bootstrap - Build a ready-to-run agent from the configuration
+ *
+ * Shared by the interactive REPL, the headless mode and the server: loads
+ * the config, system prompt, tools, skills and MCP servers and wires up the
+ * agent.
+ */
+
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { Config } from './config.js';
+import { LLMClient } from './llm-client/llm-client.js';
+import { Logger } from './util/logger.js';
+import { Agent } from './agent.js';
+import { CheckpointStore } from './checkpoints/index.js';
+import { HookRunner } from './hooks/index.js';
+import {
+  loadInstructions,
+  type LoadedInstructions,
+} from './instructions/index.js';
+import {
+  PermissionManager,
+  PROJECT_SETTINGS_PATH,
+  loadProjectSettings,
+  type PermissionMode,
+} from './permissions/index.js';
+import type { Skill } from './skills/index.js';
+import {
+  BashKillTool,
+  BashOutputTool,
+  BashTool,
+  EditTool,
+  ReadTool,
+  TaskTool,
+  WriteTool,
+  loadMcpToolsAsync,
+  setMcpTimeoutConfig,
+  type FileAccess,
+  type JsonSchema,
+  type Tool,
+} from './tools/index.js';
+
+/**
+ * Receives the progress messages of loading the config and the runtime.
+ */
+export type ProgressLog = (message: string) => void;
+
+const logToConsole: ProgressLog = (message) => console.log(message);
+
+export interface AgentRuntime {
+  config: Config;
+  llmClient: LLMClient;
+  permissions: PermissionManager;
+  /** Pre-images of files changed by the file tools; open it per session */
+  checkpoints: CheckpointStore;
+  /** Instruction files merged into the system prompt */
+  instructions: LoadedInstructions;
+  /** Skills listed in the system prompt */
+  skills: Skill[];
+  agent: Agent;
+}
+
+export interface AgentRuntimeOptions {
+  workspaceDir: string;
+  /** Receives the progress messages (default: `console.log`) */
+  log?: ProgressLog;
+  /** Overrides the configured permission mode */
+  permissionMode?: PermissionMode;
+  /** Send a test request before loading tools */
+  checkConnection?: boolean;
+  /** Tools of already connected MCP servers, used instead of connecting */
+  mcpTools?: Tool[];
+  /** File access of the file tools (default: the disk) */
+  files?: FileAccess;
+  /** JSON Schema the final answer of the main agent must match */
+  outputSchema?: JsonSchema;
+}
+
+/**
+ * Find the project root directory by searching for package.json.
+ * Starts from the current file location and searches upward.
+ *
+ * @returns The absolute path to the project root directory
+ * @throws Error if package.json cannot be found
+ */
+function findProjectRoot(): string {
+  let currentDir = path.dirname(fileURLToPath(import.meta.url));
+
+  while (true) {
+    const packageJsonPath = path.join(currentDir, 'package.json');
+    if (fs.existsSync(packageJsonPath)) {
+      return currentDir;
+    }
+
+    const parentDir = path.resolve(currentDir, '..');
+    if (parentDir === currentDir) {
+      throw new Error('Cannot find project root (package.json not found)');
+    }
+    currentDir = parentDir;
+  }
+}
+
+/**
+ * Find skills directory with fallback mechanism.
+ *
+ * Search order:
+ * 1. Config-specified directory
+ * 2. Package installation directory
+ *
+ * @param skillsDirConfig - The skillsDir from config (default: './skills')
+ * @returns The absolute path to skills directory
+ */
+function findSkillsDir(skillsDirConfig: string, log: ProgressLog): string {
+  const cwdSkillsDir = path.resolve(skillsDirConfig);
+  if (fs.existsSync(cwdSkillsDir)) {
+    return cwdSkillsDir;
+  }
+
+  const projectRoot = findProjectRoot();
+  const packageSkillsDir = path.join(projectRoot, 'skills');
+
+  if (fs.existsSync(packageSkillsDir)) {
+    log(`📦 Using built-in skills from: ${packageSkillsDir}`);
+    return packageSkillsDir;
+  }
+
+  return cwdSkillsDir;
+}
+
+/**
+ * Build the permission manager from config.yaml, the project settings file
+ * and the --permission-mode flag.
+ */
+function createPermissionManager(
+  config: Config,
+  workspaceDir: string,
+  permissionMode: PermissionMode | undefined,
+  log: ProgressLog
+): PermissionManager {
+  let project = null;
+  try {
+    project = loadProjectSettings(workspaceDir);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log(`⚠️  Ignoring project settings: ${message}`);
+  }
+  if (project?.permissions.allow.length) {
+    log(
+      `⚠️  Ignoring allow rules in ${PROJECT_SETTINGS_PATH}: add the ones you trust to config.yaml`
+    );
+  }
+
+  const permissions = PermissionManager.fromConfig(
+    config.permissions,
+    workspaceDir,
+    project?.permissions
+  );
+  if (permissionMode) {
+    permissions.mode = permissionMode;
+  }
+  return permissions;
+}
+
+/**
+ * Load `config.yaml` from the usual search locations.
+ *
+ * @returns The config and the path it was loaded from
+ * @throws Error if no config file is found or it is invalid
+ */
+export function loadConfig(log: ProgressLog = logToConsole): {
+  config: Config;
+  configPath: string;
+} {
+  const configPath = Config.findConfigFile('config.yaml');
+  if (!configPath) {
+    throw new Error('Configuration file not found. Please run setup.');
+  }
+  const config = Config.fromYaml(configPath);
+  if (config.logging.enableLogging) {
+    log(`Logging to file: ${Logger.initialize()}`);
+  }
+  return { config, configPath };
+}
+
+/**
+ * Connect to the MCP servers of the config and return their tools.
+ *
+ * Progress is reported to `log`.
+ */
+export async function loadConfiguredMcpTools(
+  config: Config,
+  log: ProgressLog = logToConsole
+): Promise<Tool[]> {
+  log('Loading MCP tools...');
+  const mcpConfig = config.tools.mcp;
+  setMcpTimeoutConfig({
+    connectTimeout: mcpConfig.connectTimeout,
+    executeTimeout: mcpConfig.executeTimeout,
+    sseReadTimeout: mcpConfig.sseReadTimeout,
+  });
+
+  const mcpConfigPath = Config.findConfigFile(config.tools.mcpConfigPath);
+  if (!mcpConfigPath) {
+    const msg = `⚠️  MCP config file not found: ${config.tools.mcpConfigPath}`;
+    log(msg);
+    Logger.log('startup', msg);
+    return [];
+  }
+
+  const mcpTools = await loadMcpToolsAsync(mcpConfigPath, log);
+  if (mcpTools.length > 0) {
+    const msg = `✅ Loaded ${mcpTools.length} MCP tools (from: ${mcpConfigPath})`;
+    Logger.log('startup', msg);
+  } else {
+    const msg = '⚠️  No available MCP tools found';
+    log(msg);
+    Logger.log('startup', msg);
+  }
+  return mcpTools;
+}
+
+/**
+ * Create the LLM client, tools and agent described by the config.
+ *
+ * Progress is reported to `options.log`.
+ *
+ * @throws Error if the permission rules are invalid
+ */
+export async function createAgentRuntime(
+  config: Config,
+  options: AgentRuntimeOptions
+): Promise<AgentRuntime> {
+  const { workspaceDir } = options;
+  const log = options.log ?? logToConsole;
+
+  // Create LLM Client
+  const llmClient = new LLMClient(
+    config.llm.apiKey,
+    config.llm.apiBase,
+    config.llm.provider,
+    config.llm.model,
+    config.llm.retry
+  );
+
+  if (options.checkConnection) {
+    process.stdout.write('Checking API connection... ');
+    const isConnected = await llmClient.checkConnection();
+    if (isConnected) {
+      log('✅ OK');
+    } else {
+      log('❌ Failed (Check API Key/Network)');
+    }
+  }
+
+  // Load system prompt
+  let systemPrompt: string;
+  const systemPromptPath = Config.findConfigFile(config.agent.systemPromptPath);
+  if (systemPromptPath && fs.existsSync(systemPromptPath)) {
+    systemPrompt = fs.readFileSync(systemPromptPath, 'utf-8');
+    log(`✅ Loaded system prompt`);
+  } else {
+    systemPrompt =
+      'You are Mini Agent TS, an intelligent assistant powered by MiniMax M2 that can help users complete various tasks.';
+    log('⚠️  System prompt not found, using default');
+  }
+
+  const instructions = loadInstructions(workspaceDir);
+  if (instructions.files.length > 0) {
+    log(
+      `✅ Loaded ${instructions.files.length} instruction file(s) (AGENTS.md)`
+    );
+  }
+
+  // Load Tools & MCPs
+  const checkpoints = new CheckpointStore(workspaceDir);
+  const tools: Tool[] = [];
+  tools.push(new ReadTool(workspaceDir, options.files));
+  tools.push(new WriteTool(workspaceDir, checkpoints, options.files));
+  tools.push(new EditTool(workspaceDir, checkpoints, options.files));
+  tools.push(new BashTool());
+  tools.push(new BashOutputTool());
+  tools.push(new BashKillTool());
+
+  // Load Skills
+  log('Loading Claude Skills...');
+  const skillsDir = findSkillsDir(config.tools.skillsDir, log);
+
+  // Create directory if neither CWD nor package directory has skills
+  if (!fs.existsSync(skillsDir)) {
+    log(`⚠️  Skills directory does not exist: ${skillsDir}`);
+    fs.mkdirSync(skillsDir, { recursive: true });
+    log(`✅ Created skills directory: ${skillsDir}`);
+  }
+
+  // Load skills
+  let skills: Skill[] = [];
+  try {
+    const { SkillLoader, GetSkillTool } = await import('./skills/index.js');
+    const skillLoader = new SkillLoader(skillsDir, log);
+    const discoveredSkills = skillLoader.discoverSkills();
+
+    if (discoveredSkills.length > 0) {
+      skills = discoveredSkills;
+      // Inject find skill tool
+      tools.push(new GetSkillTool(skillLoader));
+
+      // Inject skills metadata into system prompt
+      const skillsMetadata = skillLoader.getSkillsMetadataPrompt();
+      systemPrompt += `\n\n${skillsMetadata}`;
+
+      // Log skills info
+      Logger.log(
+        'startup',
+        'Skills Loaded:',
+        discoveredSkills.map((s) => s.name)
+      );
+      Logger.log('startup', 'Full System Prompt:', systemPrompt);
+
+      log(`✅ Loaded ${discoveredSkills.length} skill(s)`);
+    } else {
+      log('⚠️  No skills found in skills directory');
+    }
+  } catch (error) {
+    console.error(`❌ Failed to load skills: ${error}`);
+  }
+
+  // Load MCPs
+  tools.push(
+    ...(options.mcpTools ?? (await loadConfiguredMcpTools(config, log)))
+  );
+
+  let permissions: PermissionManager;
+  try {
+    permissions = createPermissionManager(
+      config,
+      workspaceDir,
+      options.permissionMode,
+      log
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid permission rules: ${message}`);
+  }
+  log(`Permission mode: ${permissions.mode}`);
+
+  const hooks = new HookRunner(config.hooks, workspaceDir);
+  const agentOptions = {
+    compaction: config.compaction,
+    loopDetection: config.loopDetection,
+    toolConcurrency: config.agent.toolConcurrency,
+    maxDuration: config.agent.maxDuration,
+    tokenBudget: config.agent.tokenBudget,
+    permissions,
+    pricing: config.getModelPricing(config.llm.model),
+    hooks,
+    instructions: instructions.prompt,
+  };
+
+  // Sub-agents get every other tool and the same settings; only the tool
+  // hooks apply to them, prompt and session hooks belong to the main agent
+  tools.push(
+    new TaskTool({
+      llmClient,
+      workspaceDir,
+      tools: [...tools],
+      maxSteps: config.agent.maxSteps,
+      agentOptions: {
+        ...agentOptions,
+        hooks: hooks.only(['PreToolUse', 'PostToolUse']),
+      },
+    })
+  );
+
+  const agent = new Agent(
+    llmClient,
+    systemPrompt,
+    tools,
+    config.agent.maxSteps,
+    workspaceDir,
+    { ...agentOptions, outputSchema: options.outputSchema }
+  );
+
+  return {
+    config,
+    llmClient,
+    permissions,
+    checkpoints,
+    instructions,
+    skills,
+    agent,
+  };
+}
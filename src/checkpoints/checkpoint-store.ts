@@ -0,0 +1,250 @@
+/**
+ * Checkpoint Store - Pre-images of files changed by the file tools
+ *
+ * Layout: `~/.mini-agent-ts/checkpoints/<workspace-hash>/<session-id>/`
+ * with `checkpoints.json` (one checkpoint per user turn) and `blobs/`
+ * (file contents, named by their SHA-256).
+ *
+ * Only `write_file` and `edit_file` are tracked; changes made through `bash`
+ * cannot be reverted.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+import { hashWorkspace } from '../session/index.js';
+import { Logger } from '../util/logger.js';
+
+// ============ Types ============
+
+export interface FileSnapshot {
+  /** Absolute path of the file */
+  path: string;
+  /** Blob with the content before the turn, null if the file did not exist */
+  blob: string | null;
+}
+
+export interface Checkpoint {
+  /** 1-based number of the user turn within the session */
+  turn: number;
+  /**
+   * Index of the turn's user message in `Agent.messages`; null once the
+   * conversation was cleared or compacted
+   */
+  messageIndex: number | null;
+  prompt: string;
+  createdAt: string;
+  files: FileSnapshot[];
+}
+
+export interface RevertResult {
+  /** Checkpoints that were reverted, newest first */
+  checkpoints: Checkpoint[];
+  restored: string[];
+  deleted: string[];
+}
+
+// ============ Helpers ============
+
+function getDefaultCheckpointsRoot(): string {
+  const homeDir = process.env['HOME'] || process.env['USERPROFILE'] || '';
+  return path.join(homeDir, '.mini-agent-ts', 'checkpoints');
+}
+
+// ============ Checkpoint Store ============
+
+/**
+ * CheckpointStore
+ *
+ * Records the state of every file before the first change of each user turn,
+ * so `/undo` and `/rewind` can put the workspace back.
+ */
+export class CheckpointStore {
+  public readonly workspaceDir: string;
+  private readonly rootDir: string;
+  private dir: string | null = null;
+  private checkpoints: Checkpoint[] = [];
+
+  constructor(
+    workspaceDir: string,
+    rootDir: string = getDefaultCheckpointsRoot()
+  ) {
+    this.workspaceDir = path.resolve(workspaceDir);
+    this.rootDir = path.join(rootDir, hashWorkspace(workspaceDir));
+  }
+
+  private get indexPath(): string | null {
+    return this.dir ? path.join(this.dir, 'checkpoints.json') : null;
+  }
+
+  private blobPath(blob: string): string {
+    return path.join(this.dir ?? this.rootDir, 'blobs', blob);
+  }
+
+  /**
+   * Use the checkpoints of a session (loads the ones saved earlier).
+   */
+  open(sessionId: string): void {
+    this.dir = path.join(this.rootDir, sessionId);
+    this.checkpoints = [];
+
+    const indexPath = this.indexPath;
+    if (indexPath && fs.existsSync(indexPath)) {
+      try {
+        this.checkpoints = JSON.parse(
+          fs.readFileSync(indexPath, 'utf8')
+        ) as Checkpoint[];
+      } catch (error) {
+        Logger.log('CHECKPOINT', `Failed to read ${indexPath}`, error);
+      }
+    }
+  }
+
+  private save(): void {
+    const indexPath = this.indexPath;
+    if (!indexPath) return;
+    fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+    fs.writeFileSync(indexPath, JSON.stringify(this.checkpoints, null, 2));
+  }
+
+  /**
+   * Start the checkpoint of a new user turn.
+   *
+   * @param messageIndex - Index the turn's user message will have
+   * @param prompt - The user's prompt
+   */
+  begin(messageIndex: number, prompt: string): Checkpoint {
+    const last = this.checkpoints.at(-1);
+    const checkpoint: Checkpoint = {
+      turn: last ? last.turn + 1 : 1,
+      messageIndex,
+      prompt,
+      createdAt: new Date().toISOString(),
+      files: [],
+    };
+    this.checkpoints.push(checkpoint);
+    this.save();
+    return checkpoint;
+  }
+
+  /**
+   * Forget where the turns are in the conversation, after it was cleared
+   * or compacted. Their files can still be reverted.
+   */
+  detachConversation(): void {
+    for (const checkpoint of this.checkpoints) {
+      checkpoint.messageIndex = null;
+    }
+    this.save();
+  }
+
+  /**
+   * Record the current state of a file before a tool changes it.
+   * Only the first change of a file per turn is recorded; without an
+   * active turn nothing is recorded.
+   *
+   * @param filePath - Absolute path of the file about to be changed
+   */
+  snapshot(filePath: string): void {
+    const checkpoint = this.checkpoints.at(-1);
+    if (!this.dir || !checkpoint) return;
+
+    const target = path.resolve(filePath);
+    if (checkpoint.files.some((file) => file.path === target)) return;
+
+    let blob: string | null = null;
+    if (fs.existsSync(target)) {
+      const content = fs.readFileSync(target);
+      blob = createHash('sha256').update(content).digest('hex');
+      const blobPath = this.blobPath(blob);
+      if (!fs.existsSync(blobPath)) {
+        fs.mkdirSync(path.dirname(blobPath), { recursive: true });
+        fs.writeFileSync(blobPath, content);
+      }
+    }
+
+    checkpoint.files.push({ path: target, blob });
+    this.save();
+  }
+
+  /**
+   * Checkpoints of the session, oldest first.
+   */
+  list(): Checkpoint[] {
+    return [...this.checkpoints];
+  }
+
+  /**
+   * Revert the file changes of the most recent turn that changed files.
+   *
+   * @returns What was reverted, or null if no turn changed files
+   */
+  undo(): RevertResult | null {
+    const index = this.checkpoints.findLastIndex(
+      (checkpoint) => checkpoint.files.length > 0
+    );
+    if (index === -1) {
+      return null;
+    }
+
+    const [checkpoint] = this.checkpoints.splice(index, 1);
+    const result = this.revert([checkpoint]);
+    this.save();
+    return result;
+  }
+
+  /**
+   * Revert the file changes of a turn and of every later turn, and drop
+   * their checkpoints.
+   *
+   * @throws Error if the session has no checkpoint for the turn
+   */
+  rewind(turn: number): RevertResult {
+    const index = this.checkpoints.findIndex(
+      (checkpoint) => checkpoint.turn === turn
+    );
+    if (index === -1) {
+      throw new Error(`No checkpoint for turn ${turn}`);
+    }
+
+    const removed = this.checkpoints.splice(index).reverse();
+    const result = this.revert(removed);
+    this.save();
+    return result;
+  }
+
+  /**
+   * Restore pre-images, newest checkpoint first, so the oldest one wins.
+   */
+  private revert(checkpoints: Checkpoint[]): RevertResult {
+    const restored = new Set<string>();
+    const deleted = new Set<string>();
+
+    for (const checkpoint of checkpoints) {
+      for (const file of checkpoint.files) {
+        if (file.blob === null) {
+          // The file was created during the turn
+          fs.rmSync(file.path, { force: true });
+          restored.delete(file.path);
+          deleted.add(file.path);
+        } else {
+          fs.mkdirSync(path.dirname(file.path), { recursive: true });
+          fs.copyFileSync(this.blobPath(file.blob), file.path);
+          deleted.delete(file.path);
+          restored.add(file.path);
+        }
+      }
+    }
+
+    Logger.log('CHECKPOINT', 'Reverted file changes', {
+      turns: checkpoints.map((checkpoint) => checkpoint.turn),
+      restored: [...restored],
+      deleted: [...deleted],
+    });
+    return {
+      checkpoints,
+      restored: [...restored],
+      deleted: [...deleted],
+    };
+  }
+}
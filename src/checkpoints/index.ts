@@ -0,0 +1,5 @@
+/**
+ * Checkpoints module
+ */
+
+export * from './checkpoint-store.js';
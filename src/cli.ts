@@ -3,21 +3,64 @@ import * as fs from 'node:fs';
 import { Command } from 'commander';
 import { fileURLToPath } from 'node:url';
 import { createInterface } from 'node:readline/promises';
-import { Config } from './config.js';
-import { LLMClient } from './llm-client/llm-client.js';
 import { Logger } from './util/logger.js';
-import { Agent } from './agent.js';
+import { Colors, TerminalRenderer } from './util/terminal.js';
+import type { Agent, LimitDecision } from './agent.js';
+import { completeMention, resolveAttachments } from './attachments/index.js';
+import {
+  createAgentRuntime,
+  loadConfig,
+  type AgentRuntime,
+} from './bootstrap.js';
+import {
+  BUILTIN_COMMANDS,
+  CommandRegistry,
+  createTemplateSlashCommand,
+  loadTemplateCommands,
+  parseCommand,
+  printUsage,
+  type CommandContext,
+  type ParsedCommand,
+  type PromptOptions,
+  type SlashCommand,
+} from './commands/index.js';
+import {
+  OUTPUT_FORMATS,
+  buildHeadlessPrompt,
+  readStdin,
+  runHeadless,
+  STDIN_TIMEOUT_MS,
+  type OutputFormat,
+} from './headless.js';
+import {
+  DEFAULT_SERVER_HOST,
+  DEFAULT_SERVER_PORT,
+  runServer,
+} from './serve.js';
+import { runStdio } from './stdio.js';
+import {
+  DEFAULT_MCP_PORT,
+  MCP_TRANSPORTS,
+  runMcpServe,
+  type McpTransport,
+} from './mcp-serve.js';
+import {
+  PERMISSION_MODES,
+  type PermissionChoice,
+  type PermissionMode,
+  type PermissionRequest,
+} from './permissions/index.js';
+import type { ContentBlock, RunLimit } from './schema/index.js';
+import {
+  SessionStore,
+  type LoadedSession,
+  type Session,
+} from './session/index.js';
+import { loadJsonSchema } from './json-schema/index.js';
 import {
-  BashKillTool,
-  BashOutputTool,
-  BashTool,
-  EditTool,
-  ReadTool,
-  WriteTool,
   cleanupMcpConnections,
-  loadMcpToolsAsync,
-  setMcpTimeoutConfig,
-  type Tool,
+  type JsonSchema,
+  type PlanDecision,
 } from './tools/index.js';
 
 // ============ Utilities ============
@@ -35,57 +78,6 @@ function getProjectVersion(): string {
   }
 }
 
-/**
- * Find the project root directory by searching for package.json.
- * Starts from the current file location and searches upward.
- *
- * @returns The absolute path to the project root directory
- * @throws Error if package.json cannot be found
- */
-function findProjectRoot(): string {
-  let currentDir = path.dirname(fileURLToPath(import.meta.url));
-
-  while (true) {
-    const packageJsonPath = path.join(currentDir, 'package.json');
-    if (fs.existsSync(packageJsonPath)) {
-      return currentDir;
-    }
-
-    const parentDir = path.resolve(currentDir, '..');
-    if (parentDir === currentDir) {
-      throw new Error('Cannot find project root (package.json not found)');
-    }
-    currentDir = parentDir;
-  }
-}
-
-/**
- * Find skills directory with fallback mechanism.
- *
- * Search order:
- * 1. Config-specified directory
- * 2. Package installation directory
- *
- * @param skillsDirConfig - The skillsDir from config (default: './skills')
- * @returns The absolute path to skills directory
- */
-function findSkillsDir(skillsDirConfig: string): string {
-  const cwdSkillsDir = path.resolve(skillsDirConfig);
-  if (fs.existsSync(cwdSkillsDir)) {
-    return cwdSkillsDir;
-  }
-
-  const projectRoot = findProjectRoot();
-  const packageSkillsDir = path.join(projectRoot, 'skills');
-
-  if (fs.existsSync(packageSkillsDir)) {
-    console.log(`📦 Using built-in skills from: ${packageSkillsDir}`);
-    return packageSkillsDir;
-  }
-
-  return cwdSkillsDir;
-}
-
 function printBanner(): void {
   const BOX_WIDTH = 58;
   const bannerText = '🤖 Mini Agent TS - Multi-turn Interactive Session';
@@ -106,7 +98,33 @@ function printBanner(): void {
   console.log();
 }
 
-function parseArgs(): { workspace: string | undefined } {
+interface CliArgs {
+  workspace: string | undefined;
+  continue: boolean;
+  resume: string | boolean | undefined;
+  permissionMode: PermissionMode | undefined;
+  plan: boolean;
+  print: string | boolean | undefined;
+  outputFormat: OutputFormat;
+  outputSchema: string | undefined;
+  stdio: boolean;
+  /** Set by the `serve` subcommand */
+  serve?: ServeArgs;
+  /** Set by the `mcp-serve` subcommand */
+  mcpServe?: McpServeArgs;
+}
+
+interface ServeArgs {
+  port: number;
+  host: string;
+  token: string | undefined;
+}
+
+interface McpServeArgs extends ServeArgs {
+  transport: McpTransport;
+}
+
+function parseArgs(): CliArgs {
   const program = new Command();
 
   program
@@ -118,6 +136,16 @@ function parseArgs(): { workspace: string | undefined } {
 Examples:
   mini-agent-ts                              # Use current directory as workspace
   mini-agent-ts --workspace /path/to/dir     # Use specific workspace directory
+  mini-agent-ts --continue                   # Resume the latest session of this workspace
+  mini-agent-ts --resume                     # Pick a session to resume
+  mini-agent-ts --permission-mode acceptEdits  # Apply file edits without asking
+  mini-agent-ts --plan                       # Investigate and propose a plan before editing
+  mini-agent-ts -p "Summarize README.md"     # Run one prompt and print the answer
+  git diff | mini-agent-ts -p "Review this" --output-format json
+  mini-agent-ts -p "List the TODOs" --output-schema todos.schema.json
+  mini-agent-ts serve --port 4317 --token secret  # Serve sessions over HTTP
+  mini-agent-ts --stdio                      # Run as an editor agent (ACP over stdio)
+  mini-agent-ts mcp-serve                    # Offer the tools and agent_run to MCP hosts
       `
     );
 
@@ -126,15 +154,153 @@ Examples:
     'Workspace directory (default: current directory)'
   );
 
+  program.option(
+    '-c, --continue',
+    'Resume the most recent session of the workspace'
+  );
+
+  program.option(
+    '-r, --resume [id]',
+    'Resume a session by id, or pick one interactively'
+  );
+
+  program.option(
+    '--permission-mode <mode>',
+    `Permission mode: ${PERMISSION_MODES.join(', ')} (default: from config)`
+  );
+
+  program.option(
+    '--plan',
+    'Start in plan mode: read-only tools until you approve a plan'
+  );
+
+  program.option(
+    '-p, --print [prompt]',
+    'Run a single prompt (also read from piped stdin), print the result and exit'
+  );
+
+  program.option(
+    '--output-format <format>',
+    `Output format with --print: ${OUTPUT_FORMATS.join(', ')}`,
+    'text'
+  );
+
+  program.option(
+    '--output-schema <file>',
+    'JSON Schema file the final answer of --print must match'
+  );
+
+  program.option(
+    '--stdio',
+    'Speak JSON-RPC (Agent Client Protocol) on stdin/stdout, for editors'
+  );
+
+  const parsePort = (value: string | undefined): number => {
+    const port = Number(value);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      program.error(`error: invalid port '${value}'`);
+    }
+    return port;
+  };
+
+  let serve: ServeArgs | undefined;
+  program
+    .command('serve')
+    .description(
+      'Serve agent sessions over HTTP and Server-Sent Events (workspaces inside --workspace)'
+    )
+    .option('--port <port>', 'Port to listen on', String(DEFAULT_SERVER_PORT))
+    .option('--host <host>', 'Address to listen on', DEFAULT_SERVER_HOST)
+    .option(
+      '--token <token>',
+      'Bearer token clients must send (default: MINI_AGENT_TOKEN, else generated)'
+    )
+    .action((serveOptions: Record<string, string | undefined>) => {
+      serve = {
+        port: parsePort(serveOptions['port']),
+        host: serveOptions['host'] ?? DEFAULT_SERVER_HOST,
+        token: serveOptions['token'] ?? process.env['MINI_AGENT_TOKEN'],
+      };
+    });
+
+  let mcpServe: McpServeArgs | undefined;
+  program
+    .command('mcp-serve')
+    .description(
+      'Serve the built-in tools, skills and an agent_run tool to MCP hosts'
+    )
+    .option(
+      '--transport <transport>',
+      `Transport: ${MCP_TRANSPORTS.join(', ')}`,
+      'stdio'
+    )
+    .option(
+      '--port <port>',
+      'Port of the http transport',
+      String(DEFAULT_MCP_PORT)
+    )
+    .option(
+      '--host <host>',
+      'Address of the http transport',
+      DEFAULT_SERVER_HOST
+    )
+    .option(
+      '--token <token>',
+      'Bearer token http clients must send (default: MINI_AGENT_TOKEN, else generated)'
+    )
+    .action((mcpOptions: Record<string, string | undefined>) => {
+      const transport = mcpOptions['transport'] as McpTransport;
+      if (!MCP_TRANSPORTS.includes(transport)) {
+        program.error(
+          `error: invalid transport '${transport}' (expected one of: ${MCP_TRANSPORTS.join(', ')})`
+        );
+      }
+      mcpServe = {
+        transport,
+        port: parsePort(mcpOptions['port']),
+        host: mcpOptions['host'] ?? DEFAULT_SERVER_HOST,
+        token: mcpOptions['token'] ?? process.env['MINI_AGENT_TOKEN'],
+      };
+    });
+  // Without a subcommand, start the REPL (or the headless run)
+  program.action(() => {});
+
   program.parse(process.argv);
   const options = program.opts();
 
+  const outputFormat = options['outputFormat'] as string;
+  if (!OUTPUT_FORMATS.includes(outputFormat as OutputFormat)) {
+    program.error(
+      `error: invalid output format '${outputFormat}' (expected one of: ${OUTPUT_FORMATS.join(', ')})`
+    );
+  }
+
+  const permissionMode = options['permissionMode'] as string | undefined;
+  if (
+    permissionMode !== undefined &&
+    !PERMISSION_MODES.includes(permissionMode as PermissionMode)
+  ) {
+    program.error(
+      `error: invalid permission mode '${permissionMode}' (expected one of: ${PERMISSION_MODES.join(', ')})`
+    );
+  }
+
   return {
     workspace: options['workspace'] as string | undefined,
+    continue: Boolean(options['continue']),
+    resume: options['resume'] as string | boolean | undefined,
+    permissionMode: permissionMode as PermissionMode | undefined,
+    plan: Boolean(options['plan']),
+    print: options['print'] as string | boolean | undefined,
+    outputFormat: outputFormat as OutputFormat,
+    outputSchema: options['outputSchema'] as string | undefined,
+    stdio: Boolean(options['stdio']),
+    serve,
+    mcpServe,
   };
 }
 
-function resolveWorkspace(args: { workspace: string | undefined }): string {
+function resolveWorkspace(args: CliArgs): string {
   let workspaceDir: string;
 
   if (args.workspace) {
@@ -151,143 +317,263 @@ function resolveWorkspace(args: { workspace: string | undefined }): string {
   return workspaceDir;
 }
 
-// ============ Main Startup Logic ============
-
-async function runAgent(workspaceDir: string): Promise<void> {
-  // Load Workspace dir
-  const configPath = Config.findConfigFile('config.yaml');
-  if (!configPath) {
-    console.error('❌ Configuration file not found. Please run setup.');
-    process.exit(1);
+/**
+ * Register the built-in commands, those contributed by tools and the
+ * Markdown template commands of the user and the project.
+ */
+function createCommandRegistry(agent: Agent): CommandRegistry {
+  const registry = new CommandRegistry();
+  for (const command of BUILTIN_COMMANDS) {
+    registry.register(command);
   }
-  const config = Config.fromYaml(configPath);
-  console.log(`Config loaded from: ${configPath}`);
-  console.log(`Workspace: ${workspaceDir}`);
+  const register = (command: SlashCommand, source: string): void => {
+    try {
+      registry.register(command, source);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.log(`⚠️  Skipping /${command.name} (${source}): ${message}`);
+    }
+  };
+  for (const tool of agent.listTools()) {
+    for (const command of tool.commands ?? []) {
+      register(command, tool.name);
+    }
+  }
+  const templates = loadTemplateCommands(agent.workspaceDir);
+  for (const template of templates) {
+    register(createTemplateSlashCommand(template), template.scope);
+  }
+  if (templates.length > 0) {
+    console.log(`✅ Loaded ${templates.length} custom command(s)`);
+  }
+  return registry;
+}
 
-  if (config.logging.enableLogging) {
-    Logger.initialize();
+async function runCommand(
+  { name, args }: ParsedCommand,
+  context: CommandContext
+): Promise<void> {
+  const command = context.registry.get(name);
+  if (!command) {
+    console.log(`❌ Unknown command: /${name} (type /help for a list)\n`);
+    return;
+  }
+  try {
+    await command.execute(args, context);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.log(`❌ /${command.name} failed: ${message}\n`);
   }
+}
 
-  printBanner();
-  console.log(`Model: ${config.llm.model}`);
-  console.log(`Provider: ${config.llm.provider}`);
-  console.log(`Base URL: ${config.llm.apiBase}`);
-  console.log(`Type 'exit' to quit\n`);
-
-  // Create LLM Client
-  const llmClient = new LLMClient(
-    config.llm.apiKey,
-    config.llm.apiBase,
-    config.llm.provider,
-    config.llm.model,
-    config.llm.retry
+/**
+ * Ask the user whether a tool call may run.
+ */
+async function askPermission(
+  request: PermissionRequest,
+  rl: ReturnType<typeof createInterface>,
+  signal?: AbortSignal
+): Promise<PermissionChoice> {
+  console.log(
+    `\n${Colors.BRIGHT_YELLOW}🔐 Allow ${Colors.BOLD}${request.toolName}${Colors.RESET}${Colors.BRIGHT_YELLOW} to run?${Colors.RESET}`
+  );
+  console.log('   1. Allow once');
+  console.log(
+    `   2. Allow always for this session ${Colors.DIM}(${request.suggestedRule})${Colors.RESET}`
   );
+  console.log('   3. Deny and tell the agent why');
 
-  // Check connection
-  process.stdout.write('Checking API connection... ');
-  const isConnected = await llmClient.checkConnection();
-  if (isConnected) {
-    console.log('✅ OK');
-  } else {
-    console.log('❌ Failed (Check API Key/Network)');
+  while (true) {
+    const answer = (await rl.question('Choice [1/2/3]: ', { signal }))
+      .trim()
+      .toLowerCase();
+    if (answer === '1' || answer === 'y') {
+      return { choice: 'allow_once' };
+    }
+    if (answer === '2' || answer === 'a') {
+      return { choice: 'allow_always' };
+    }
+    if (answer === '3' || answer === 'n') {
+      const reason = (
+        await rl.question('Reason (optional): ', { signal })
+      ).trim();
+      return { choice: 'deny', reason: reason || undefined };
+    }
   }
+}
 
-  // Load system prompt
-  let systemPrompt: string;
-  const systemPromptPath = Config.findConfigFile(config.agent.systemPromptPath);
-  if (systemPromptPath && fs.existsSync(systemPromptPath)) {
-    systemPrompt = fs.readFileSync(systemPromptPath, 'utf-8');
-    console.log(`✅ Loaded system prompt`);
-  } else {
-    systemPrompt =
-      'You are Mini Agent TS, an intelligent assistant powered by MiniMax M2 that can help users complete various tasks.';
-    console.log('⚠️  System prompt not found, using default');
-  }
+/**
+ * Show a plan proposed with `exit_plan_mode` and ask for approval.
+ */
+async function askPlanApproval(
+  plan: string,
+  rl: ReturnType<typeof createInterface>,
+  signal?: AbortSignal
+): Promise<PlanDecision> {
+  console.log(
+    `\n${Colors.BOLD}${Colors.BRIGHT_MAGENTA}📋 Proposed plan:${Colors.RESET}\n`
+  );
+  console.log(plan);
+  console.log();
+  console.log('   1. Approve and start implementing');
+  console.log('   2. Keep planning and tell the agent what to change');
 
-  // Load Tools & MCPs
-  const tools: Tool[] = [];
-  tools.push(new ReadTool(workspaceDir));
-  tools.push(new WriteTool(workspaceDir));
-  tools.push(new EditTool(workspaceDir));
-  tools.push(new BashTool());
-  tools.push(new BashOutputTool());
-  tools.push(new BashKillTool());
-
-  // Load Skills
-  console.log('Loading Claude Skills...');
-  const skillsDir = findSkillsDir(config.tools.skillsDir);
-
-  // Create directory if neither CWD nor package directory has skills
-  if (!fs.existsSync(skillsDir)) {
-    console.log(`⚠️  Skills directory does not exist: ${skillsDir}`);
-    fs.mkdirSync(skillsDir, { recursive: true });
-    console.log(`✅ Created skills directory: ${skillsDir}`);
+  while (true) {
+    const answer = (await rl.question('Choice [1/2]: ', { signal }))
+      .trim()
+      .toLowerCase();
+    if (answer === '1' || answer === 'y') {
+      return { approved: true };
+    }
+    if (answer === '2' || answer === 'n') {
+      const feedback = (
+        await rl.question('What should change? (optional): ', { signal })
+      ).trim();
+      return { approved: false, feedback: feedback || undefined };
+    }
   }
+}
 
-  // Load skills
-  try {
-    const { SkillLoader, GetSkillTool } = await import('./skills/index.js');
-    const skillLoader = new SkillLoader(skillsDir);
-    const discoveredSkills = skillLoader.discoverSkills();
-
-    if (discoveredSkills.length > 0) {
-      // Inject find skill tool
-      tools.push(new GetSkillTool(skillLoader));
-
-      // Inject skills metadata into system prompt
-      const skillsMetadata = skillLoader.getSkillsMetadataPrompt();
-      systemPrompt += `\n\n${skillsMetadata}`;
-
-      // Log skills info
-      Logger.log(
-        'startup',
-        'Skills Loaded:',
-        discoveredSkills.map((s) => s.name)
-      );
-      Logger.log('startup', 'Full System Prompt:', systemPrompt);
+/**
+ * Ask the user whether to go on after a run limit was reached.
+ */
+async function askContinue(
+  limit: RunLimit,
+  agent: Agent,
+  rl: ReturnType<typeof createInterface>,
+  signal?: AbortSignal
+): Promise<LimitDecision> {
+  const budget = {
+    max_steps: `${agent.maxSteps} more steps`,
+    time_limit: `${agent.maxDuration} more seconds`,
+    token_budget: `${agent.tokenBudget} more tokens`,
+  }[limit];
+  console.log();
+  console.log(`   1. Continue for ${budget}`);
+  console.log('   2. Continue until the task is done');
+  console.log('   3. Stop and summarize the progress');
 
-      console.log(`✅ Loaded ${discoveredSkills.length} skill(s)`);
-    } else {
-      console.log('⚠️  No skills found in skills directory');
+  try {
+    while (true) {
+      const answer = (await rl.question('Choice [1/2/3]: ', { signal }))
+        .trim()
+        .toLowerCase();
+      if (answer === '1' || answer === 'y') return 'continue';
+      if (answer === '2') return 'unlimited';
+      if (answer === '3' || answer === 'n') return 'stop';
     }
   } catch (error) {
-    console.error(`❌ Failed to load skills: ${error}`);
+    if (signal?.aborted) return 'stop';
+    throw error;
   }
+}
 
-  // Load MCPs
-  console.log('Loading MCP tools...');
-  const mcpConfig = config.tools.mcp;
-  setMcpTimeoutConfig({
-    connectTimeout: mcpConfig.connectTimeout,
-    executeTimeout: mcpConfig.executeTimeout,
-    sseReadTimeout: mcpConfig.sseReadTimeout,
+/**
+ * Let the user choose one of the workspace's sessions.
+ *
+ * @returns The chosen session id, or null if none was chosen
+ */
+async function pickSession(
+  store: SessionStore,
+  rl: ReturnType<typeof createInterface>
+): Promise<string | null> {
+  const sessions = store.list().slice(0, 20);
+  if (sessions.length === 0) {
+    console.log('⚠️  No saved sessions for this workspace');
+    return null;
+  }
+
+  console.log('\nSaved sessions:');
+  sessions.forEach((s, index) => {
+    const updated = s.updatedAt.replace('T', ' ').slice(0, 16);
+    console.log(
+      `  ${String(index + 1).padStart(2)}. ${updated}  ${s.id}  (${s.messageCount} messages)  ${s.preview}`
+    );
   });
 
-  const mcpConfigPath = Config.findConfigFile(config.tools.mcpConfigPath);
-  if (mcpConfigPath) {
-    const mcpTools = await loadMcpToolsAsync(mcpConfigPath);
-    if (mcpTools.length > 0) {
-      tools.push(...mcpTools);
-      const msg = `✅ Loaded ${mcpTools.length} MCP tools (from: ${mcpConfigPath})`;
-      Logger.log('startup', msg);
-    } else {
-      const msg = '⚠️  No available MCP tools found';
-      console.log(msg);
-      Logger.log('startup', msg);
+  const answer = (await rl.question('\nSelect a session (number): ')).trim();
+  const choice = Number.parseInt(answer, 10);
+  if (!Number.isInteger(choice) || choice < 1 || choice > sessions.length) {
+    return null;
+  }
+  return sessions[choice - 1].id;
+}
+
+/**
+ * Open the session requested by --continue / --resume, or start a new one.
+ */
+async function openSession(
+  args: CliArgs,
+  store: SessionStore,
+  rl: ReturnType<typeof createInterface>,
+  info: { model: string; provider: string }
+): Promise<{ session: Session; restored: LoadedSession | null }> {
+  let restored: LoadedSession | null = null;
+
+  try {
+    if (typeof args.resume === 'string') {
+      restored = store.open(args.resume);
+    } else if (args.resume) {
+      const id = await pickSession(store, rl);
+      restored = id ? store.open(id) : null;
+    } else if (args.continue) {
+      restored = store.openLatest();
+      if (!restored) {
+        console.log('⚠️  No previous session for this workspace');
+      }
     }
-  } else {
-    const msg = `⚠️  MCP config file not found: ${config.tools.mcpConfigPath}`;
-    console.log(msg);
-    Logger.log('startup', msg);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.log(`❌ Failed to resume session: ${message}`);
   }
 
-  const agent = new Agent(
-    llmClient,
-    systemPrompt,
-    tools,
-    config.agent.maxSteps,
-    workspaceDir
-  );
+  if (restored) {
+    return { session: restored.session, restored };
+  }
+  return { session: store.create(info), restored: null };
+}
+
+// ============ Main Startup Logic ============
+
+async function runInteractive(
+  args: CliArgs,
+  workspaceDir: string
+): Promise<void> {
+  let loaded: ReturnType<typeof loadConfig>;
+  try {
+    loaded = loadConfig();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ ${message}`);
+    process.exit(1);
+  }
+  const { config, configPath } = loaded;
+  console.log(`Config loaded from: ${configPath}`);
+  console.log(`Workspace: ${workspaceDir}`);
+
+  printBanner();
+  console.log(`Model: ${config.llm.model}`);
+  console.log(`Provider: ${config.llm.provider}`);
+  console.log(`Base URL: ${config.llm.apiBase}`);
+  console.log(`Type 'exit' to quit or '/help' to list the commands\n`);
+
+  let runtime: AgentRuntime;
+  try {
+    runtime = await createAgentRuntime(config, {
+      workspaceDir,
+      permissionMode: args.permissionMode,
+      checkConnection: true,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ ${message}`);
+    process.exit(1);
+  }
+  const { agent, permissions, checkpoints } = runtime;
+  const commands = createCommandRegistry(agent);
+
+  const renderer = new TerminalRenderer();
+  agent.subscribe((event) => renderer.render(event));
 
   const rl = createInterface({
     input: process.stdin,
@@ -295,22 +581,126 @@ async function runAgent(workspaceDir: string): Promise<void> {
     terminal: true,
     historySize: 1000,
     removeHistoryDuplicates: true,
+    completer: (line: string) => completeMention(line, workspaceDir),
   });
-  let interrupted = false;
+  // Ctrl+C aborts the running turn; at the prompt it ends the session
+  let activeRun: AbortController | null = null;
+  let promptController: AbortController | null = null;
   const onSigint = (): void => {
-    interrupted = true;
-    rl.close();
+    if (activeRun) {
+      activeRun.abort();
+      return;
+    }
+    promptController?.abort();
+  };
+  const onClose = (): void => {
+    promptController?.abort();
+  };
+  rl.on('SIGINT', onSigint);
+  rl.on('close', onClose);
+  process.on('SIGINT', onSigint);
+
+  // Approval prompts are cancelled together with the running turn
+  permissions.prompt = (request) =>
+    askPermission(request, rl, activeRun?.signal);
+  agent.reviewPlan = (plan) => askPlanApproval(plan, rl, activeRun?.signal);
+  agent.confirmContinue = (limit) =>
+    askContinue(limit, agent, rl, activeRun?.signal);
+  agent.setPlanMode(args.plan);
+
+  // Restore or start the persisted session
+  const sessionStore = new SessionStore(workspaceDir);
+  const { session, restored } = await openSession(args, sessionStore, rl, {
+    model: config.llm.model,
+    provider: config.llm.provider,
+  });
+  if (restored) {
+    agent.messages = [...agent.messages, ...restored.messages];
+    agent.restoreTodos(restored.todos);
+    console.log(
+      `✅ Resumed session ${session.id} (${restored.messages.length} messages)\n`
+    );
+  } else {
+    Logger.log('session', `Started session ${session.id}`);
+  }
+  checkpoints.open(session.id);
+  if (agent.hooks) {
+    agent.hooks.sessionId = session.id;
+  }
+  await agent.startSession(restored ? 'resume' : 'startup');
+
+  // Persist every history change as it happens
+  agent.subscribe((event) => {
+    if (event.type === 'message' || event.type === 'compaction') {
+      session.sync(agent.messages);
+    }
+    if (event.type === 'compaction') {
+      checkpoints.detachConversation();
+    }
+    if (event.type === 'todos') {
+      session.saveTodos(event.todos);
+    }
+  });
+
+  // Run one turn; template commands submit their expanded prompt here
+  const submit = async (
+    prompt: string,
+    options: PromptOptions = {},
+    content: string | ContentBlock[] = prompt
+  ): Promise<void> => {
+    const client = agent.llmClient;
+    const previousModel = client.model;
+    const previousPricing = agent.pricing;
+    if (options.model) {
+      client.switchModel(options.model);
+      agent.pricing = config.getModelPricing(options.model);
+    }
+    checkpoints.begin(agent.messages.length, prompt);
+    agent.addUserMessage(content);
+
+    activeRun = new AbortController();
+    try {
+      await agent.run({
+        signal: activeRun.signal,
+        allowedTools: options.allowedTools,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        console.log(`\n❌ Error: ${error.message}`);
+        console.log('   Please check your API key and configuration.\n');
+      } else {
+        console.log(`\n❌ Unexpected error: ${String(error)}`);
+        console.log('   Please try again or report this issue.\n');
+      }
+
+      // Remove unfinished user message
+      agent.messages.pop();
+      session.sync(agent.messages);
+      return;
+    } finally {
+      activeRun = null;
+      if (options.model) {
+        client.switchModel(previousModel);
+        agent.pricing = previousPricing;
+      }
+    }
+
+    console.log(`\n${'─'.repeat(60)}\n`);
   };
-  process.once('SIGINT', onSigint);
 
   try {
     while (true) {
       let raw: string;
+      promptController = new AbortController();
       try {
-        raw = await rl.question('You > ');
+        raw = await rl.question(agent.planMode ? 'You (plan) > ' : 'You > ', {
+          signal: promptController.signal,
+        });
       } catch (error) {
-        if (interrupted) break;
+        if (promptController.signal.aborted) break;
         throw error;
+      } finally {
+        promptController = null;
       }
 
       const userInput = raw.trim();
@@ -318,30 +708,45 @@ async function runAgent(workspaceDir: string): Promise<void> {
 
       if (userInput === 'exit' || userInput === 'quit' || userInput === 'q')
         break;
-      agent.addUserMessage(userInput);
 
-      try {
-        await agent.run();
-      } catch (error) {
-        if (error instanceof Error) {
-          console.log(`\n❌ Error: ${error.message}`);
-          console.log('   Please check your API key and configuration.\n');
-        } else {
-          console.log(`\n❌ Unexpected error: ${String(error)}`);
-          console.log('   Please try again or report this issue.\n');
-        }
-
-        // Remove unfinished user message
-        agent.messages.pop();
+      const command = parseCommand(userInput);
+      if (command) {
+        await runCommand(command, {
+          agent,
+          runtime,
+          session,
+          rl,
+          registry: commands,
+          submit,
+        });
         continue;
       }
 
-      console.log(`\n${'─'.repeat(60)}\n`);
+      const input = resolveAttachments(userInput, workspaceDir);
+      for (const attachment of input.attachments) {
+        const details =
+          attachment.kind === 'image'
+            ? 'image'
+            : `${attachment.lines} line(s)${attachment.truncated ? ', truncated' : ''}`;
+        console.log(`📎 Attached ${attachment.reference} (${details})`);
+      }
+      for (const error of input.errors) {
+        console.log(`⚠️  Not attached: ${error}`);
+      }
+      await submit(userInput, {}, input.content);
     }
   } finally {
     // Graceful Shutdown
     process.removeListener('SIGINT', onSigint);
+    rl.removeListener('close', onClose);
     rl.close();
+    session.sync(agent.messages);
+    printUsage(agent);
+    if (session.hasTranscript()) {
+      console.log(
+        `Session saved. Resume with: mini-agent-ts --resume ${session.id}`
+      );
+    }
     await cleanupMcpConnections();
   }
 }
@@ -357,5 +762,95 @@ export async function run(): Promise<void> {
     process.exit(1);
   }
 
-  await runAgent(workspaceDir);
+  if (args.stdio) {
+    try {
+      await runStdio({ permissionMode: args.permissionMode });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ ${message}`);
+      process.exit(1);
+    }
+    process.exit(0);
+  }
+
+  if (args.serve) {
+    try {
+      await runServer({
+        ...args.serve,
+        rootDir: workspaceDir,
+        permissionMode: args.permissionMode,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ ${message}`);
+      process.exit(1);
+    }
+    process.exit(0);
+  }
+
+  if (args.mcpServe) {
+    try {
+      await runMcpServe({
+        ...args.mcpServe,
+        workspaceDir,
+        permissionMode: args.permissionMode,
+        version: getProjectVersion(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ ${message}`);
+      process.exit(1);
+    }
+    process.exit(0);
+  }
+
+  if (args.print !== undefined) {
+    const prompt = buildHeadlessPrompt(
+      typeof args.print === 'string' ? args.print : undefined,
+      // Without a prompt argument, stdin is the prompt: wait for it
+      await readStdin(
+        typeof args.print === 'string' ? STDIN_TIMEOUT_MS : undefined
+      )
+    );
+    if (!prompt) {
+      console.error('❌ No prompt given: pass one to -p or pipe it to stdin');
+      process.exit(1);
+    }
+    if (args.resume === true) {
+      console.error('❌ --resume needs a session id together with --print');
+      process.exit(1);
+    }
+    let outputSchema: JsonSchema | undefined;
+    try {
+      outputSchema = args.outputSchema
+        ? loadJsonSchema(path.resolve(args.outputSchema))
+        : undefined;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ ${message}`);
+      process.exit(1);
+    }
+    const exitCode = await runHeadless({
+      prompt,
+      outputFormat: args.outputFormat,
+      workspaceDir,
+      permissionMode: args.permissionMode,
+      planMode: args.plan,
+      continue: args.continue,
+      resume: typeof args.resume === 'string' ? args.resume : undefined,
+      outputSchema,
+    });
+    // Let piped stdout drain before exiting
+    await new Promise<void>((resolve) =>
+      process.stdout.write('', () => resolve())
+    );
+    process.exit(exitCode);
+  }
+
+  if (args.outputSchema) {
+    console.error('❌ --output-schema only applies together with --print');
+    process.exit(1);
+  }
+
+  await runInteractive(args, workspaceDir);
 }
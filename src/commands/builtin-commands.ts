@@ -0,0 +1,545 @@
+/**
+ * Built-in slash commands of the REPL
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { spawnSync } from 'node:child_process';
+import type { Interface } from 'node:readline/promises';
+import type { Agent } from '../agent.js';
+import type { CheckpointStore, RevertResult } from '../checkpoints/index.js';
+import {
+  getUserInstructionsDir,
+  loadInstructions,
+} from '../instructions/index.js';
+import type { Message } from '../schema/index.js';
+import { GetSkillTool } from '../skills/index.js';
+import { MCPTool, getMcpServerStatus, type Tool } from '../tools/index.js';
+import { formatUsageReport } from '../usage/index.js';
+import { Colors } from '../util/terminal.js';
+import type { CommandContext, SlashCommand } from './types.js';
+
+// ============ Helpers ============
+
+/**
+ * Path relative to the workspace, or absolute when outside of it.
+ */
+function displayPath(file: string, workspaceDir: string): string {
+  const relative = path.relative(workspaceDir, file);
+  return relative.startsWith('..') ? file : relative;
+}
+
+/**
+ * Plain text of a message for previews.
+ */
+function messageText(message: Message): string {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+  if (Array.isArray(message.content)) {
+    return message.content.map((block) => block.text ?? '').join(' ');
+  }
+  return '';
+}
+
+function preview(text: string, length = 80): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+}
+
+/**
+ * Render the conversation (without the system prompt) as Markdown.
+ */
+export function formatTranscript(messages: Message[]): string {
+  const sections = ['# Conversation'];
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+    if (message.role === 'tool') {
+      const name = message.tool_name ?? 'tool';
+      sections.push(
+        `## Tool result (${name})\n\n\`\`\`\n${message.content}\n\`\`\``
+      );
+      continue;
+    }
+    const title = message.role === 'user' ? 'User' : 'Assistant';
+    const parts = [`## ${title}`];
+    const text = messageText(message).trim();
+    if (text) parts.push(text);
+    if (message.role === 'assistant') {
+      for (const toolCall of message.tool_calls ?? []) {
+        parts.push(
+          `**Tool call:** \`${toolCall.function.name}\`\n\n\`\`\`json\n${JSON.stringify(toolCall.function.arguments, null, 2)}\n\`\`\``
+        );
+      }
+    }
+    sections.push(parts.join('\n\n'));
+  }
+  return `${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Where a tool comes from, as shown by `/tools`.
+ */
+function toolSource(tool: Tool): string {
+  if (tool instanceof MCPTool) return `MCP: ${tool.serverName}`;
+  if (tool instanceof GetSkillTool) return 'skills';
+  return 'built-in';
+}
+
+export function printUsage(agent: Agent): void {
+  console.log('\n📊 Token usage (this session):');
+  console.log(
+    formatUsageReport(agent.usage, agent.getCost(), agent.llmClient.model)
+  );
+  console.log();
+}
+
+function printRevert(result: RevertResult, workspaceDir: string): void {
+  for (const file of result.restored) {
+    console.log(`   ↩️  Restored ${displayPath(file, workspaceDir)}`);
+  }
+  for (const file of result.deleted) {
+    console.log(`   🗑️  Deleted ${displayPath(file, workspaceDir)}`);
+  }
+}
+
+/**
+ * Revert the file changes of the last turn that changed files.
+ */
+function undoLastTurn(checkpoints: CheckpointStore): void {
+  try {
+    const result = checkpoints.undo();
+    if (!result) {
+      console.log('⚠️  No file changes to undo\n');
+      return;
+    }
+    const [checkpoint] = result.checkpoints;
+    console.log(`⏪ Reverted the file changes of turn ${checkpoint.turn}:`);
+    printRevert(result, checkpoints.workspaceDir);
+    console.log();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.log(`❌ Undo failed: ${message}\n`);
+  }
+}
+
+/**
+ * Handle `/rewind [<n> [--files-only]]`: without a turn, list the
+ * checkpoints; otherwise restore the files as they were before turn n and
+ * drop the conversation from that turn on.
+ */
+function rewind(
+  args: string[],
+  agent: Agent,
+  checkpoints: CheckpointStore
+): void {
+  const [turnArg, ...flags] = args;
+  if (!turnArg) {
+    const list = checkpoints.list();
+    if (list.length === 0) {
+      console.log('⚠️  No checkpoints in this session\n');
+      return;
+    }
+    console.log('\nCheckpoints:');
+    for (const checkpoint of list) {
+      console.log(
+        `  ${String(checkpoint.turn).padStart(3)}. ${preview(checkpoint.prompt, 60)} ${Colors.DIM}(${checkpoint.files.length} file(s) changed)${Colors.RESET}`
+      );
+    }
+    console.log(
+      `\nUse '/rewind <n>' to go back to before turn n, or '/rewind <n> --files-only' to keep the conversation\n`
+    );
+    return;
+  }
+
+  const turn = Number(turnArg);
+  const filesOnly = flags.includes('--files-only');
+  if (!Number.isInteger(turn) || turn < 1) {
+    console.log('❌ Usage: /rewind <n> [--files-only]\n');
+    return;
+  }
+
+  let result: RevertResult;
+  try {
+    result = checkpoints.rewind(turn);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.log(`❌ Rewind failed: ${message}\n`);
+    return;
+  }
+  console.log(`⏪ Restored the files as they were before turn ${turn}:`);
+  printRevert(result, checkpoints.workspaceDir);
+
+  if (!filesOnly) {
+    // The oldest reverted checkpoint is the requested turn
+    const { messageIndex, prompt } =
+      result.checkpoints[result.checkpoints.length - 1];
+    const message =
+      messageIndex === null ? undefined : agent.messages[messageIndex];
+    if (
+      messageIndex !== null &&
+      message?.role === 'user' &&
+      messageText(message).startsWith(prompt)
+    ) {
+      agent.messages = agent.messages.slice(0, messageIndex);
+      console.log(`   💬 Conversation rewound to before turn ${turn}`);
+    } else {
+      console.log(
+        '   ⚠️  The conversation was cleared or compacted since then and was left as is'
+      );
+    }
+  }
+  console.log();
+}
+
+/**
+ * Open a file in the user's editor and wait until it is closed.
+ */
+function openInEditor(filePath: string, rl: Interface): void {
+  const editor = process.env['VISUAL'] || process.env['EDITOR'] || 'vi';
+  rl.pause();
+  try {
+    const result = spawnSync(`${editor} "${filePath}"`, {
+      stdio: 'inherit',
+      shell: true,
+    });
+    if (result.error || result.status !== 0) {
+      console.log(`⚠️  Editor '${editor}' exited with an error`);
+    }
+  } finally {
+    rl.resume();
+  }
+}
+
+/**
+ * Handle `/memory [<n> | project | user]`: without an argument, list the
+ * loaded instruction files; otherwise open one in the editor and reload all
+ * of them into the system prompt.
+ */
+function editMemory(args: string[], context: CommandContext): void {
+  const { agent, runtime } = context;
+  const workspaceDir = agent.workspaceDir;
+  const [target] = args;
+  if (!target) {
+    if (runtime.instructions.files.length === 0) {
+      console.log('⚠️  No instruction files loaded');
+    } else {
+      console.log('\nInstruction files (later ones take precedence):');
+      runtime.instructions.files.forEach((file, index) => {
+        console.log(
+          `  ${String(index + 1).padStart(3)}. ${displayPath(file.path, workspaceDir)} ${Colors.DIM}(${file.scope})${Colors.RESET}`
+        );
+      });
+    }
+    console.log(
+      `\nUse '/memory <n>' to edit a file, or '/memory project' / '/memory user' to create or edit AGENTS.md\n`
+    );
+    return;
+  }
+
+  let filePath: string;
+  if (target === 'project' || target === 'user') {
+    const dir = target === 'project' ? workspaceDir : getUserInstructionsDir();
+    filePath = path.join(dir, 'AGENTS.md');
+    if (!fs.existsSync(filePath)) {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(filePath, '');
+    }
+  } else {
+    const index = Number(target);
+    const file = runtime.instructions.files[index - 1];
+    if (!Number.isInteger(index) || !file) {
+      console.log('❌ Usage: /memory [<n> | project | user]\n');
+      return;
+    }
+    filePath = file.path;
+  }
+
+  openInEditor(filePath, context.rl);
+  runtime.instructions = loadInstructions(workspaceDir);
+  agent.setInstructions(runtime.instructions.prompt);
+  console.log(
+    `✅ Reloaded ${runtime.instructions.files.length} instruction file(s) into the system prompt\n`
+  );
+}
+
+// ============ Commands ============
+
+const helpCommand: SlashCommand = {
+  name: 'help',
+  usage: '[command]',
+  description: 'List the commands, or show one in detail',
+  execute([name], { registry }) {
+    if (name) {
+      const command = registry.get(name.replace(/^\//, ''));
+      if (!command) {
+        console.log(`❌ Unknown command: /${name}\n`);
+        return;
+      }
+      console.log(`\n/${command.name} ${command.usage ?? ''}`.trimEnd());
+      console.log(`  ${command.description}`);
+      if (command.aliases?.length) {
+        console.log(
+          `  Aliases: ${command.aliases.map((alias) => `/${alias}`).join(', ')}`
+        );
+      }
+      console.log(`  Source: ${command.source}\n`);
+      return;
+    }
+
+    const commands = registry.list();
+    const synopses = commands.map((command) =>
+      `/${command.name} ${command.usage ?? ''}`.trimEnd()
+    );
+    const width = Math.max(...synopses.map((synopsis) => synopsis.length));
+    console.log('\nCommands:');
+    commands.forEach((command, index) => {
+      const source =
+        command.source === 'builtin'
+          ? ''
+          : ` ${Colors.DIM}(${command.source})${Colors.RESET}`;
+      console.log(
+        `  ${synopses[index].padEnd(width)}  ${command.description}${source}`
+      );
+    });
+    console.log(`  ${'exit'.padEnd(width)}  Quit (also 'quit' or 'q')\n`);
+  },
+};
+
+const clearCommand: SlashCommand = {
+  name: 'clear',
+  description: 'Start over with an empty conversation',
+  execute(_args, { agent, runtime, session }) {
+    agent.messages = [{ role: 'system', content: agent.systemPrompt }];
+    runtime.checkpoints.detachConversation();
+    if (agent.todos.length > 0) {
+      agent.setTodos([]);
+    }
+    session.sync(agent.messages);
+    console.log('🧹 Conversation cleared\n');
+  },
+};
+
+const compactCommand: SlashCommand = {
+  name: 'compact',
+  description: 'Summarize the conversation to free up context',
+  async execute(_args, { agent }) {
+    console.log('🗜️  Compacting conversation...');
+    try {
+      // Success is reported by the renderer through the compaction event
+      const result = await agent.compact();
+      if (!result) {
+        console.log('⚠️  Nothing to compact yet');
+      }
+      console.log();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.log(`❌ Compaction failed: ${message}\n`);
+    }
+  },
+};
+
+const costCommand: SlashCommand = {
+  name: 'cost',
+  description: 'Show the token usage and cost of this session',
+  execute(_args, { agent }) {
+    printUsage(agent);
+  },
+};
+
+const planCommand: SlashCommand = {
+  name: 'plan',
+  description: 'Toggle plan mode (read-only until a plan is approved)',
+  execute(_args, { agent }) {
+    agent.setPlanMode(!agent.planMode);
+    console.log();
+  },
+};
+
+const undoCommand: SlashCommand = {
+  name: 'undo',
+  description: 'Revert the file changes of the last turn',
+  execute(_args, { runtime }) {
+    undoLastTurn(runtime.checkpoints);
+  },
+};
+
+const rewindCommand: SlashCommand = {
+  name: 'rewind',
+  usage: '[<n> [--files-only]]',
+  description: 'List the turns, or go back to before turn n',
+  execute(args, { agent, runtime, session }) {
+    rewind(args, agent, runtime.checkpoints);
+    session.sync(agent.messages);
+  },
+};
+
+const memoryCommand: SlashCommand = {
+  name: 'memory',
+  usage: '[<n> | project | user]',
+  description: 'List or edit the instruction files (AGENTS.md)',
+  execute(args, context) {
+    editMemory(args, context);
+  },
+};
+
+const toolsCommand: SlashCommand = {
+  name: 'tools',
+  description: 'List the tools the agent can use',
+  execute(_args, { agent }) {
+    const tools = agent.listTools();
+    const width = Math.max(...tools.map((tool) => tool.name.length));
+    console.log(`\nTools (${tools.length}):`);
+    for (const tool of tools) {
+      console.log(
+        `  ${tool.name.padEnd(width)}  ${Colors.DIM}${toolSource(tool)}${tool.readOnly ? ', read-only' : ''}${Colors.RESET}`
+      );
+    }
+    console.log();
+  },
+};
+
+const skillsCommand: SlashCommand = {
+  name: 'skills',
+  description: 'List the loaded skills',
+  execute(_args, { agent, runtime }) {
+    if (runtime.skills.length === 0) {
+      console.log('⚠️  No skills loaded\n');
+      return;
+    }
+    console.log(`\nSkills (${runtime.skills.length}):`);
+    for (const skill of runtime.skills) {
+      console.log(`  ${Colors.BOLD}${skill.name}${Colors.RESET}`);
+      console.log(`    ${preview(skill.description, 100)}`);
+      if (skill.skillPath) {
+        console.log(
+          `    ${Colors.DIM}${displayPath(skill.skillPath, agent.workspaceDir)}${Colors.RESET}`
+        );
+      }
+    }
+    console.log();
+  },
+};
+
+const mcpCommand: SlashCommand = {
+  name: 'mcp',
+  description: 'Show the status of the MCP servers',
+  execute() {
+    const servers = getMcpServerStatus();
+    if (servers.length === 0) {
+      console.log('⚠️  No MCP servers configured\n');
+      return;
+    }
+    const icons = { connected: '✅', failed: '❌', disabled: '⏸️ ' };
+    console.log('\nMCP servers:');
+    for (const server of servers) {
+      const tools =
+        server.state === 'connected' ? `, ${server.toolCount} tool(s)` : '';
+      console.log(
+        `  ${icons[server.state]} ${server.name} ${Colors.DIM}(${server.connectionType}) ${server.state}${tools}${Colors.RESET}`
+      );
+    }
+    console.log();
+  },
+};
+
+const modelCommand: SlashCommand = {
+  name: 'model',
+  usage: '[<name> [--provider <provider>]]',
+  description: 'Show or switch the model for the rest of the session',
+  execute(args, { agent, runtime }) {
+    const client = agent.llmClient;
+    if (args.length === 0) {
+      console.log(`Model: ${client.model} (${client.provider})\n`);
+      return;
+    }
+
+    const flag = args.indexOf('--provider');
+    const provider = flag === -1 ? client.provider : args[flag + 1];
+    const [model] = args.filter((_arg, i) => i !== flag && i !== flag + 1);
+    if (!model || !provider) {
+      console.log('❌ Usage: /model <name> [--provider <provider>]\n');
+      return;
+    }
+
+    client.switchModel(model, provider);
+    agent.pricing = runtime.config.getModelPricing(model);
+    console.log(`✅ Switched to ${model} (${client.provider})\n`);
+  },
+};
+
+const historyCommand: SlashCommand = {
+  name: 'history',
+  usage: '[n]',
+  description: 'Show the last n messages of the conversation (default: 20)',
+  execute([countArg], { agent }) {
+    const count = countArg === undefined ? 20 : Number(countArg);
+    if (!Number.isInteger(count) || count < 1) {
+      console.log('❌ Usage: /history [n]\n');
+      return;
+    }
+
+    const start = Math.max(1, agent.messages.length - count);
+    if (start >= agent.messages.length) {
+      console.log('⚠️  The conversation is empty\n');
+      return;
+    }
+    console.log();
+    for (let index = start; index < agent.messages.length; index++) {
+      const message = agent.messages[index];
+      let text = messageText(message);
+      if (message.role === 'assistant' && message.tool_calls?.length) {
+        const calls = message.tool_calls.map((call) => call.function.name);
+        text = `${text} → ${calls.join(', ')}`;
+      } else if (message.role === 'tool') {
+        text = `[${message.tool_name ?? 'tool'}] ${text}`;
+      }
+      console.log(
+        `  ${String(index).padStart(3)}. ${Colors.BOLD}${message.role}${Colors.RESET}: ${preview(text)}`
+      );
+    }
+    console.log();
+  },
+};
+
+const saveCommand: SlashCommand = {
+  name: 'save',
+  usage: '<file>',
+  description: 'Save the conversation as Markdown (or JSON for .json files)',
+  execute([file], { agent }) {
+    if (!file) {
+      console.log('❌ Usage: /save <file>\n');
+      return;
+    }
+    const filePath = path.resolve(agent.workspaceDir, file);
+    const content =
+      path.extname(filePath).toLowerCase() === '.json'
+        ? `${JSON.stringify(agent.messages, null, 2)}\n`
+        : formatTranscript(agent.messages);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content, 'utf8');
+    console.log(
+      `💾 Saved ${agent.messages.length - 1} message(s) to ${displayPath(filePath, agent.workspaceDir)}\n`
+    );
+  },
+};
+
+/**
+ * Commands registered in every REPL, in `/help` order.
+ */
+export const BUILTIN_COMMANDS: readonly SlashCommand[] = [
+  helpCommand,
+  clearCommand,
+  compactCommand,
+  costCommand,
+  planCommand,
+  undoCommand,
+  rewindCommand,
+  memoryCommand,
+  toolsCommand,
+  skillsCommand,
+  mcpCommand,
+  modelCommand,
+  historyCommand,
+  saveCommand,
+];
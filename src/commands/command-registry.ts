@@ -0,0 +1,78 @@
+/**
+ * Command Registry - Slash commands available in the REPL
+ */
+
+import type { ParsedCommand, SlashCommand } from './types.js';
+
+/**
+ * Split a line into words; single or double quotes keep spaces in a word.
+ */
+export function splitArgs(line: string): string[] {
+  const args: string[] = [];
+  for (const match of line.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)) {
+    args.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return args;
+}
+
+/**
+ * Parse a line like `/save "notes.md"`.
+ *
+ * @returns The command, or null when the line is not a command (paths such
+ * as `/etc/hosts` are not)
+ */
+export function parseCommand(line: string): ParsedCommand | null {
+  const match = /^\/([a-z][\w-]*)(?:\s+([\s\S]*))?$/i.exec(line.trim());
+  if (!match) {
+    return null;
+  }
+  return { name: match[1].toLowerCase(), args: splitArgs(match[2] ?? '') };
+}
+
+/**
+ * CommandRegistry
+ *
+ * Holds the built-in commands and those added by tools or plugins. Names and
+ * aliases share one namespace; the first registration wins.
+ */
+export class CommandRegistry {
+  private commands: SlashCommand[] = [];
+  private byName = new Map<string, SlashCommand>();
+
+  /**
+   * Add a command.
+   *
+   * @param source - Who adds it (default: `builtin`)
+   * @throws Error if the name or an alias is already taken
+   */
+  register(command: SlashCommand, source = command.source ?? 'builtin'): void {
+    const names = [command.name, ...(command.aliases ?? [])].map((name) =>
+      name.toLowerCase()
+    );
+    for (const name of names) {
+      const existing = this.byName.get(name);
+      if (existing) {
+        throw new Error(
+          `Command /${name} is already registered by ${existing.source}`
+        );
+      }
+    }
+
+    command.source = source;
+    this.commands.push(command);
+    for (const name of names) {
+      this.byName.set(name, command);
+    }
+  }
+
+  get(name: string): SlashCommand | undefined {
+    return this.byName.get(name.toLowerCase());
+  }
+
+  /**
+   * Commands in registration order.
+   */
+  list(): SlashCommand[] {
+    return [...this.commands];
+  }
+}
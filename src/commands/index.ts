@@ -0,0 +1,8 @@
+/**
+ * Commands module
+ */
+
+export * from './types.js';
+export * from './command-registry.js';
+export * from './builtin-commands.js';
+export * from './template-commands.js';
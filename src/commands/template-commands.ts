@@ -0,0 +1,385 @@
+/**
+ * Template Commands - Slash commands defined as Markdown prompt templates
+ *
+ * Every `*.md` file in `~/.mini-agent-ts/commands/` (user) and
+ * `.mini-agent/commands/` (project) becomes a command named after the file;
+ * project commands replace user commands of the same name. Optional
+ * frontmatter:
+ *
+ * ```markdown
+ * ---
+ * description: Review code for security issues
+ * argument-hint: <path>
+ * allowed-tools: read_file, bash
+ * model: claude-sonnet-4-5
+ * ---
+ * Review @$1 for security issues. Recent changes: !`git diff --stat`
+ * ```
+ *
+ * In the body, `$ARGUMENTS` is replaced by all arguments and `$1`..`$9` by
+ * single ones, `@path` by the content of a workspace file, and `` !`cmd` ``
+ * by the output of a shell command.
+ *
+ * Project commands come with the repository, so they get the same limits as
+ * its instruction files: `@path` must stay inside the workspace, and their
+ * shell commands go through the permission check of the `bash` tool.
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import yaml from 'yaml';
+import { z } from 'zod';
+import { getUserInstructionsDir } from '../instructions/index.js';
+import type { PermissionDecision } from '../permissions/index.js';
+import type { CommandContext, SlashCommand } from './types.js';
+
+const execAsync = promisify(exec);
+
+// ============ Types ============
+
+export type TemplateCommandScope = 'user' | 'project';
+
+export interface TemplateCommand {
+  name: string;
+  description: string;
+  /** Argument synopsis shown by `/help` */
+  argumentHint?: string;
+  /** Only these tools are available while the prompt runs */
+  allowedTools?: string[];
+  /** Model used for the prompt instead of the current one */
+  model?: string;
+  template: string;
+  filePath: string;
+  scope: TemplateCommandScope;
+}
+
+export interface TemplateCommandLoaderOptions {
+  /** Directory holding the user `commands/` directory (default: `~/.mini-agent-ts`) */
+  userDir?: string;
+}
+
+export interface ExpandTemplateOptions {
+  /** Directory for `@path` files and `` !`cmd` `` commands */
+  cwd: string;
+  /** Timeout of each shell command in milliseconds (default: 30000) */
+  commandTimeout?: number;
+  /**
+   * Whether `@~/…` and files outside `cwd` may be included (default: true).
+   * Off for project commands.
+   */
+  trusted?: boolean;
+  /** Decides whether a shell command may run (default: every command runs) */
+  checkCommand?: (command: string) => Promise<PermissionDecision>;
+}
+
+const toolList = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) =>
+    (Array.isArray(value) ? value : value.split(','))
+      .map((tool) => tool.trim())
+      .filter(Boolean)
+  );
+
+const FrontmatterSchema = z.object({
+  description: z.string().optional(),
+  'argument-hint': z.string().optional(),
+  'allowed-tools': toolList.optional(),
+  model: z.string().optional(),
+});
+
+// Same rule as `parseCommand()`, so every loaded command can be typed
+const COMMAND_NAME = /^[a-z][\w-]*$/i;
+
+// ============ Loader ============
+
+/**
+ * Split a file into YAML frontmatter and body.
+ */
+function splitFrontmatter(content: string): {
+  frontmatter: string;
+  body: string;
+} {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(content);
+  if (!match) {
+    return { frontmatter: '', body: content };
+  }
+  return { frontmatter: match[1], body: content.slice(match[0].length) };
+}
+
+/**
+ * Parse one command file.
+ *
+ * @throws Error if the frontmatter is invalid
+ */
+export function parseTemplateCommand(
+  filePath: string,
+  content: string,
+  scope: TemplateCommandScope
+): TemplateCommand {
+  const { frontmatter, body } = splitFrontmatter(content);
+  const parsed = FrontmatterSchema.safeParse(
+    frontmatter ? (yaml.parse(frontmatter) ?? {}) : {}
+  );
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  const template = body.trim();
+  const firstLine = template.split('\n').find((line) => line.trim()) ?? '';
+  return {
+    name: path.basename(filePath, '.md').toLowerCase(),
+    description:
+      parsed.data.description ??
+      (firstLine.replace(/^#+\s*/, '').slice(0, 80) || 'Custom command'),
+    argumentHint: parsed.data['argument-hint'],
+    allowedTools: parsed.data['allowed-tools'],
+    model: parsed.data.model,
+    template,
+    filePath,
+    scope,
+  };
+}
+
+function loadFromDir(
+  dir: string,
+  scope: TemplateCommandScope
+): TemplateCommand[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const commands: TemplateCommand[] = [];
+  for (const entry of entries) {
+    if (!entry.isFile() || !entry.name.endsWith('.md')) continue;
+    const filePath = path.join(dir, entry.name);
+    if (!COMMAND_NAME.test(path.basename(entry.name, '.md'))) {
+      console.warn(`⚠️  Skipping command file with invalid name: ${filePath}`);
+      continue;
+    }
+    try {
+      const content = fs.readFileSync(filePath, 'utf8');
+      commands.push(parseTemplateCommand(filePath, content, scope));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️  Skipping command file ${filePath}: ${message}`);
+    }
+  }
+  return commands;
+}
+
+/**
+ * Load the user and project commands of a workspace, sorted by name.
+ */
+export function loadTemplateCommands(
+  workspaceDir: string,
+  options: TemplateCommandLoaderOptions = {}
+): TemplateCommand[] {
+  const userDir = options.userDir ?? getUserInstructionsDir();
+  const byName = new Map<string, TemplateCommand>();
+  for (const command of [
+    ...loadFromDir(path.join(userDir, 'commands'), 'user'),
+    ...loadFromDir(
+      path.join(workspaceDir, '.mini-agent', 'commands'),
+      'project'
+    ),
+  ]) {
+    byName.set(command.name, command);
+  }
+  return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// ============ Expansion ============
+
+/**
+ * Output of a template shell command, errors included.
+ */
+async function runShellCommand(
+  command: string,
+  cwd: string,
+  timeout: number
+): Promise<string> {
+  try {
+    const { stdout, stderr } = await execAsync(command, {
+      cwd,
+      timeout,
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    return `${stdout}${stderr}`.trim();
+  } catch (error) {
+    const failure = error as { stdout?: string; stderr?: string };
+    const output = `${failure.stdout ?? ''}${failure.stderr ?? ''}`.trim();
+    return output || `Error: ${(error as Error).message}`;
+  }
+}
+
+/**
+ * Content of a referenced file, or null if there is none or it may not be
+ * included. Untrusted templates only include files inside `cwd`, symlinks
+ * resolved.
+ */
+function readReferencedFile(
+  reference: string,
+  cwd: string,
+  trusted: boolean
+): string | null {
+  const isHomePath = reference.startsWith('~/');
+  if (!trusted && (isHomePath || path.isAbsolute(reference))) {
+    return null;
+  }
+  try {
+    const filePath = isHomePath
+      ? path.join(os.homedir(), reference.slice(2))
+      : path.resolve(cwd, reference);
+    if (!trusted) {
+      const relative = path.relative(
+        fs.realpathSync(cwd),
+        fs.realpathSync(filePath)
+      );
+      if (relative.split(path.sep)[0] === '..' || path.isAbsolute(relative)) {
+        return null;
+      }
+    }
+    if (!fs.statSync(filePath).isFile()) return null;
+    return `${reference}:\n\`\`\`\n${fs.readFileSync(filePath, 'utf8').trimEnd()}\n\`\`\``;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Quote a value as a single POSIX shell word.
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Replace `@path` references by the content of the files.
+ */
+function includeFiles(text: string, cwd: string, trusted: boolean): string {
+  return text.replace(
+    /(?<!\S)@((?:~\/|\.{0,2}\/)?[\w./-]+)/g,
+    (match, target: string) => {
+      // Trailing punctuation belongs to the sentence, not the path
+      const reference = target.replace(/[.,;:]+$/, '');
+      const punctuation = target.slice(reference.length);
+      const included = readReferencedFile(reference, cwd, trusted);
+      return included === null ? match : `${included}${punctuation}`;
+    }
+  );
+}
+
+/**
+ * Turn a template and the command arguments into the prompt to submit.
+ *
+ * Shell commands only come from the template: they run before anything is
+ * inserted, with the arguments in them shell-quoted. Elsewhere arguments
+ * are substituted before files are included, so `@$1` includes the file
+ * named by the first argument. File contents and command output are
+ * inserted as is and never expanded themselves. Arguments are appended
+ * when the template has no placeholder for them. A shell command refused
+ * by `checkCommand` is replaced by a note with the reason.
+ */
+export async function expandTemplate(
+  template: string,
+  args: string[],
+  options: ExpandTemplateOptions
+): Promise<string> {
+  const timeout = options.commandTimeout ?? 30_000;
+  const trusted = options.trusted ?? true;
+  let usesArguments = false;
+  const substitute = (text: string, quote: (arg: string) => string) =>
+    text.replace(/\$ARGUMENTS|\$([1-9])(?!\d)/g, (_match, n) => {
+      usesArguments = true;
+      return n ? quote(args[Number(n) - 1] ?? '') : args.map(quote).join(' ');
+    });
+  const asIs = (arg: string): string => arg;
+
+  const parts: string[] = [];
+  let last = 0;
+  for (const match of template.matchAll(/!`([^`\n]+)`/g)) {
+    parts.push(
+      includeFiles(
+        substitute(template.slice(last, match.index), asIs),
+        options.cwd,
+        trusted
+      )
+    );
+    last = match.index + match[0].length;
+    const command = substitute(match[1], shellQuote);
+    const decision = (await options.checkCommand?.(command)) ?? {
+      behavior: 'allow',
+    };
+    parts.push(
+      decision.behavior === 'allow'
+        ? await runShellCommand(command, options.cwd, timeout)
+        : `[Command not run: ${decision.reason}]`
+    );
+  }
+  let rest = substitute(template.slice(last), asIs);
+  if (!usesArguments && args.length > 0) {
+    rest = `${rest}\n\n${args.join(' ')}`;
+  }
+  parts.push(includeFiles(rest, options.cwd, trusted));
+  return parts.join('');
+}
+
+/**
+ * Check a shell command of a project template like a `bash` tool call of
+ * the agent. The command's `allowed-tools` must include `bash`.
+ */
+function checkAsBashCall(
+  command: TemplateCommand,
+  context: CommandContext
+): (shellCommand: string) => Promise<PermissionDecision> {
+  return async (shellCommand) => {
+    const bash = context.agent.getTool('bash');
+    if (
+      !bash ||
+      (command.allowedTools && !command.allowedTools.includes('bash'))
+    ) {
+      return {
+        behavior: 'deny',
+        reason: `bash is not available to /${command.name}`,
+      };
+    }
+    return (
+      (await context.agent.permissions?.check(bash, {
+        command: shellCommand,
+      })) ?? { behavior: 'allow' }
+    );
+  };
+}
+
+/**
+ * Wrap a template as a slash command that submits the expanded prompt.
+ */
+export function createTemplateSlashCommand(
+  command: TemplateCommand
+): SlashCommand {
+  return {
+    name: command.name,
+    usage: command.argumentHint,
+    description: command.description,
+    source: command.scope,
+    async execute(args, context) {
+      const isProject = command.scope === 'project';
+      const prompt = await expandTemplate(command.template, args, {
+        cwd: context.agent.workspaceDir,
+        trusted: !isProject,
+        checkCommand: isProject ? checkAsBashCall(command, context) : undefined,
+      });
+      await context.submit(prompt, {
+        allowedTools: command.allowedTools,
+        model: command.model,
+      });
+    },
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Slash command types
+ */
+
+import type { Interface } from 'node:readline/promises';
+import type { Agent } from '../agent.js';
+import type { AgentRuntime } from '../bootstrap.js';
+import type { Session } from '../session/index.js';
+import type { CommandRegistry } from './command-registry.js';
+
+/**
+ * Settings of a prompt submitted by a command.
+ */
+export interface PromptOptions {
+  /** Only these tools are available while the prompt runs */
+  allowedTools?: string[];
+  /** Model used for this prompt instead of the current one */
+  model?: string;
+}
+
+/**
+ * What a command can use while it runs in the REPL.
+ */
+export interface CommandContext {
+  agent: Agent;
+  runtime: AgentRuntime;
+  /** Persisted session; sync it after changing `agent.messages` */
+  session: Session;
+  /** Terminal prompt, for commands that ask questions or hand it over */
+  rl: Interface;
+  registry: CommandRegistry;
+  /** Send a prompt to the agent as if the user had typed it */
+  submit(prompt: string, options?: PromptOptions): Promise<void>;
+}
+
+/**
+ * A REPL command such as `/help`.
+ *
+ * @property name        - Name without the leading slash
+ * @property aliases     - (optional) Other names for the command
+ * @property usage       - (optional) Argument synopsis shown by `/help`, e.g. `<file>`
+ * @property description - One line shown by `/help`
+ * @property source      - (optional) Who added the command; set on registration
+ * @method execute       - Runs the command with the parsed arguments
+ */
+export interface SlashCommand {
+  name: string;
+  aliases?: string[];
+  usage?: string;
+  description: string;
+  source?: string;
+  execute(args: string[], context: CommandContext): void | Promise<void>;
+}
+
+/**
+ * A command line split into command name and arguments.
+ */
+export interface ParsedCommand {
+  name: string;
+  args: string[];
+}
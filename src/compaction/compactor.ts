@@ -0,0 +1,286 @@
+/**
+ * Context Compactor - Summarize older turns when the context window fills up
+ */
+
+import type { CompactionConfig } from '../config.js';
+import type { LLMClient } from '../llm-client/llm-client.js';
+import type { Message, TokenUsage } from '../schema/index.js';
+import { Logger } from '../util/logger.js';
+
+/**
+ * Prefix of the synthetic message that replaces summarized turns.
+ */
+export const SUMMARY_PREFIX = '[Summary of earlier conversation]';
+
+const SUMMARY_SYSTEM_PROMPT = `You are summarizing the earlier part of a conversation between a user and an AI coding agent so the agent can continue working with a smaller context.
+
+Write a concise but complete summary that preserves:
+- The user's goals, requests and constraints
+- Important decisions, findings and conclusions
+- Files that were read, created or modified (with paths) and what changed
+- Commands that were run and their relevant results or errors
+- Work that is still pending or in progress
+
+Do not invent details. Output only the summary.`;
+
+// Per-message overhead (role markers, separators) in estimated tokens
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Rough token cost of a non-text content block (e.g. an image)
+const BLOCK_TOKENS = 1600;
+// Tool results longer than this are truncated in the summarization transcript
+const MAX_TRANSCRIPT_TOOL_CHARS = 2000;
+
+export interface CompactionResult {
+  messages: Message[];
+  summarizedCount: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  /** Token usage of the summarization request, if reported */
+  usage?: TokenUsage;
+}
+
+/**
+ * Estimate the token count of a text with the ~4 chars/token heuristic.
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimate the token count of a single message.
+ */
+export function estimateMessageTokens(message: Message): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+
+  if (typeof message.content === 'string') {
+    tokens += estimateTextTokens(message.content);
+  } else if (Array.isArray(message.content)) {
+    for (const block of message.content) {
+      tokens +=
+        typeof block.text === 'string'
+          ? estimateTextTokens(block.text)
+          : BLOCK_TOKENS;
+    }
+  }
+
+  if (message.role === 'assistant') {
+    if (message.thinking) {
+      tokens += estimateTextTokens(message.thinking);
+    }
+    if (message.tool_calls) {
+      tokens += estimateTextTokens(JSON.stringify(message.tool_calls));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Estimate the token count of a whole conversation.
+ */
+export function estimateMessagesTokens(messages: Message[]): number {
+  return messages.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0);
+}
+
+/**
+ * Find where the kept (recent) part of the conversation starts.
+ *
+ * Messages in `[1, split)` are summarized, messages from `split` on are kept.
+ * The split never lands on a tool message, so every kept tool result still
+ * follows the assistant message that issued its tool call.
+ *
+ * @param messages - Full conversation, starting with the system prompt
+ * @param keepRecentMessages - Minimum number of trailing messages to keep
+ * @returns The split index, or null if there is nothing to summarize
+ */
+export function findCompactionSplit(
+  messages: Message[],
+  keepRecentMessages: number
+): number | null {
+  let split = Math.max(1, messages.length - Math.max(0, keepRecentMessages));
+  while (split > 1 && messages[split]?.role === 'tool') {
+    split--;
+  }
+  return split > 1 ? split : null;
+}
+
+/**
+ * Render messages as a plain-text transcript for the summarization request.
+ */
+function renderTranscript(messages: Message[]): string {
+  const parts: string[] = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'user') {
+      const text =
+        typeof msg.content === 'string'
+          ? msg.content
+          : msg.content
+              .map((block) => block.text ?? `[${block.type}]`)
+              .join('\n');
+      parts.push(`## User\n${text}`);
+    } else if (msg.role === 'assistant') {
+      const lines: string[] = [];
+      if (msg.content) {
+        lines.push(msg.content);
+      }
+      for (const toolCall of msg.tool_calls ?? []) {
+        lines.push(
+          `[Tool call] ${toolCall.function.name}(${JSON.stringify(
+            toolCall.function.arguments ?? {}
+          )})`
+        );
+      }
+      parts.push(`## Assistant\n${lines.join('\n')}`);
+    } else if (msg.role === 'tool') {
+      const content =
+        msg.content.length > MAX_TRANSCRIPT_TOOL_CHARS
+          ? `${msg.content.slice(0, MAX_TRANSCRIPT_TOOL_CHARS)}... [truncated]`
+          : msg.content;
+      parts.push(`## Tool result (${msg.tool_name ?? 'unknown'})\n${content}`);
+    }
+  }
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Put the summary in front of the kept messages. A kept message list that
+ * starts with a user message gets the summary merged into that message, so
+ * there are never two user messages in a row.
+ */
+function withSummary(kept: Message[], summaryText: string): Message[] {
+  const [first, ...rest] = kept;
+  if (first?.role !== 'user') {
+    return [{ role: 'user', content: summaryText }, ...kept];
+  }
+
+  const content =
+    typeof first.content === 'string'
+      ? `${summaryText}\n\n${first.content}`
+      : [{ type: 'text', text: summaryText }, ...first.content];
+  return [{ ...first, content }, ...rest];
+}
+
+/**
+ * ContextCompactor
+ *
+ * Estimates token usage of the conversation and, past the configured
+ * threshold, replaces older turns with a single LLM-generated summary.
+ */
+export class ContextCompactor {
+  constructor(public config: CompactionConfig) {}
+
+  /**
+   * Check whether automatic compaction should run before the next step.
+   *
+   * Compaction is skipped when the messages it would keep are already past
+   * the threshold on their own: summarizing the rest could not bring the
+   * conversation below it, so it would only run again on every step.
+   */
+  shouldCompact(messages: Message[]): boolean {
+    if (!this.config.enabled) {
+      return false;
+    }
+    const limit = this.config.contextWindow * this.config.threshold;
+    if (estimateMessagesTokens(messages) < limit) {
+      return false;
+    }
+
+    const split = findCompactionSplit(messages, this.config.keepRecentMessages);
+    if (split === null) {
+      return false;
+    }
+    const kept = [...messages.slice(0, 1), ...messages.slice(split)];
+    return estimateMessagesTokens(kept) < limit;
+  }
+
+  /**
+   * Summarize older turns and return the compacted conversation.
+   *
+   * The system prompt and the most recent messages are kept verbatim;
+   * everything in between is replaced by one synthetic user message. When
+   * the kept messages start with a user message, the summary is merged into
+   * it so that user and assistant turns still alternate.
+   *
+   * @param messages - Full conversation, starting with the system prompt
+   * @param llmClient - Client used to generate the summary
+   * @param signal - Optional signal to abort the summarization request
+   * @param context - Optional text appended to the summary
+   * @returns The compaction result, or null if there is nothing to summarize
+   */
+  async compact(
+    messages: Message[],
+    llmClient: LLMClient,
+    signal?: AbortSignal,
+    context?: string
+  ): Promise<CompactionResult | null> {
+    const split = findCompactionSplit(messages, this.config.keepRecentMessages);
+    if (split === null) {
+      return null;
+    }
+
+    const [systemMessage] = messages;
+    const toSummarize = messages.slice(1, split);
+    const kept = messages.slice(split);
+
+    const { summary, usage } = await this.summarize(
+      toSummarize,
+      llmClient,
+      signal
+    );
+    const summaryText = [SUMMARY_PREFIX, summary, context]
+      .filter(Boolean)
+      .join('\n\n');
+
+    const compacted: Message[] = [
+      ...(systemMessage ? [systemMessage] : []),
+      ...withSummary(kept, summaryText),
+    ];
+
+    const result: CompactionResult = {
+      messages: compacted,
+      summarizedCount: toSummarize.length,
+      tokensBefore: estimateMessagesTokens(messages),
+      tokensAfter: estimateMessagesTokens(compacted),
+      usage,
+    };
+    Logger.log('COMPACTION', 'Context compacted', {
+      summarizedCount: result.summarizedCount,
+      tokensBefore: result.tokensBefore,
+      tokensAfter: result.tokensAfter,
+    });
+    return result;
+  }
+
+  private async summarize(
+    messages: Message[],
+    llmClient: LLMClient,
+    signal?: AbortSignal
+  ): Promise<{ summary: string; usage?: TokenUsage }> {
+    const request: Message[] = [
+      { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Summarize the following conversation:\n\n${renderTranscript(messages)}`,
+      },
+    ];
+
+    let summary = '';
+    let usage: TokenUsage | undefined;
+    for await (const chunk of llmClient.generateStream(request, null, signal)) {
+      if (chunk.content) {
+        summary += chunk.content;
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+    }
+
+    summary = summary.trim();
+    if (!summary) {
+      throw new Error('Summarization returned an empty response');
+    }
+    return { summary, usage };
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * Compaction module
+ */
+
+export * from './compactor.js';
@@ -25,6 +25,9 @@ const DEFAULTS = {
   AGENT: {
     maxSteps: 50,
     systemPromptPath: 'system_prompt.md',
+    toolConcurrency: 4,
+    maxDuration: 0,
+    tokenBudget: 0,
   },
   LOGGING: {
     enableLogging: false,
@@ -38,6 +41,26 @@ const DEFAULTS = {
     skillsDir: './skills',
     mcpConfigPath: 'mcp.json',
   },
+  COMPACTION: {
+    enabled: true,
+    contextWindow: 200000,
+    threshold: 0.8,
+    keepRecentMessages: 6,
+  },
+  HOOKS: {
+    timeout: 60,
+  },
+  LOOP_DETECTION: {
+    enabled: true,
+    warnThreshold: 3,
+    stopThreshold: 5,
+    window: 20,
+  },
+  PERMISSIONS: {
+    mode: 'default' as const,
+    allow: [] as string[],
+    deny: [] as string[],
+  },
 };
 
 // ============ Schemas ============
@@ -59,12 +82,76 @@ const ToolsSchema = z.object({
   mcp: MCPSchema,
 });
 
+const CompactionSchema = z.object({
+  enabled: z.boolean().default(DEFAULTS.COMPACTION.enabled),
+  contextWindow: z.number().default(DEFAULTS.COMPACTION.contextWindow),
+  threshold: z.number().min(0).max(1).default(DEFAULTS.COMPACTION.threshold),
+  keepRecentMessages: z
+    .number()
+    .default(DEFAULTS.COMPACTION.keepRecentMessages),
+});
+
+const LoopDetectionSchema = z
+  .object({
+    enabled: z.boolean().default(DEFAULTS.LOOP_DETECTION.enabled),
+    // Repeats of the same call (tool, arguments and result) before a warning
+    warnThreshold: z
+      .number()
+      .int()
+      .min(2)
+      .default(DEFAULTS.LOOP_DETECTION.warnThreshold),
+    // Repeats before the run is stopped
+    stopThreshold: z
+      .number()
+      .int()
+      .min(2)
+      .default(DEFAULTS.LOOP_DETECTION.stopThreshold),
+    // Number of recent tool calls that are compared
+    window: z.number().int().min(2).default(DEFAULTS.LOOP_DETECTION.window),
+  })
+  .refine((data) => data.stopThreshold >= data.warnThreshold, {
+    message: 'stopThreshold must not be lower than warnThreshold',
+  });
+
+const PermissionsSchema = z.object({
+  mode: z
+    .enum(['default', 'acceptEdits', 'bypass'])
+    .default(DEFAULTS.PERMISSIONS.mode),
+  allow: z.array(z.string()).default(DEFAULTS.PERMISSIONS.allow),
+  deny: z.array(z.string()).default(DEFAULTS.PERMISSIONS.deny),
+});
+
+// Prices in USD per million tokens; cache prices default to the input price
+const ModelPricingSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+  cacheRead: z.number().min(0).optional(),
+  cacheWrite: z.number().min(0).optional(),
+});
+
+const HookSchema = z.object({
+  // Regular expression matched against the tool name (tool events only)
+  matcher: z.string().optional(),
+  command: z.string().min(1),
+  timeout: z.number().positive().default(DEFAULTS.HOOKS.timeout),
+});
+
+const HooksSchema = z.object({
+  PreToolUse: z.array(HookSchema).default([]),
+  PostToolUse: z.array(HookSchema).default([]),
+  UserPromptSubmit: z.array(HookSchema).default([]),
+  Stop: z.array(HookSchema).default([]),
+  SessionStart: z.array(HookSchema).default([]),
+});
+
 const ConfigSchema = z
   .object({
     apiKey: z.string().min(1, 'Please configure a valid API Key'),
     apiBase: z.string().default(DEFAULTS.LLM.apiBase),
     model: z.string().default(DEFAULTS.LLM.model),
-    provider: z.enum(['anthropic', 'openai']).default(DEFAULTS.LLM.provider),
+    provider: z
+      .enum(['anthropic', 'openai', 'mock'])
+      .default(DEFAULTS.LLM.provider),
 
     enableLogging: z.boolean().default(DEFAULTS.LOGGING.enableLogging),
 
@@ -72,8 +159,31 @@ const ConfigSchema = z
 
     maxSteps: z.number().default(DEFAULTS.AGENT.maxSteps),
     systemPromptPath: z.string().default(DEFAULTS.AGENT.systemPromptPath),
+    toolConcurrency: z
+      .number()
+      .int()
+      .min(1)
+      .default(DEFAULTS.AGENT.toolConcurrency),
+    maxDuration: z.number().min(0).default(DEFAULTS.AGENT.maxDuration),
+    tokenBudget: z.number().int().min(0).default(DEFAULTS.AGENT.tokenBudget),
 
     tools: ToolsSchema,
+
+    compaction: CompactionSchema.default(DEFAULTS.COMPACTION),
+
+    loopDetection: LoopDetectionSchema.default(DEFAULTS.LOOP_DETECTION),
+
+    permissions: PermissionsSchema.default(DEFAULTS.PERMISSIONS),
+
+    pricing: z.record(z.string(), ModelPricingSchema).default({}),
+
+    hooks: HooksSchema.default({
+      PreToolUse: [],
+      PostToolUse: [],
+      UserPromptSubmit: [],
+      Stop: [],
+      SessionStart: [],
+    }),
   })
   .transform((data) => ({
     llm: {
@@ -89,8 +199,16 @@ const ConfigSchema = z
     agent: {
       maxSteps: data.maxSteps,
       systemPromptPath: data.systemPromptPath,
+      toolConcurrency: data.toolConcurrency,
+      maxDuration: data.maxDuration,
+      tokenBudget: data.tokenBudget,
     },
     tools: data.tools,
+    compaction: data.compaction,
+    loopDetection: data.loopDetection,
+    permissions: data.permissions,
+    pricing: data.pricing,
+    hooks: data.hooks,
   }));
 
 // ============ Types ============
@@ -100,6 +218,12 @@ export type LoggingConfig = z.infer<typeof ConfigSchema>['logging'];
 export type ToolsConfig = z.infer<typeof ToolsSchema>;
 export type LLMConfig = z.infer<typeof ConfigSchema>['llm'];
 export type AgentConfig = z.infer<typeof ConfigSchema>['agent'];
+export type CompactionConfig = z.infer<typeof CompactionSchema>;
+export type LoopDetectionConfig = z.infer<typeof LoopDetectionSchema>;
+export type PermissionsConfig = z.infer<typeof PermissionsSchema>;
+export type ModelPricing = z.infer<typeof ModelPricingSchema>;
+export type HookConfig = z.infer<typeof HookSchema>;
+export type HooksConfig = z.infer<typeof HooksSchema>;
 
 // ============ Config Class ============
 
@@ -108,18 +232,47 @@ export class Config {
   logging: LoggingConfig;
   agent: AgentConfig;
   tools: ToolsConfig;
+  compaction: CompactionConfig;
+  loopDetection: LoopDetectionConfig;
+  permissions: PermissionsConfig;
+  pricing: Record<string, ModelPricing>;
+  hooks: HooksConfig;
 
   constructor(data: z.infer<typeof ConfigSchema>) {
     this.llm = data.llm;
     this.logging = data.logging;
     this.agent = data.agent;
     this.tools = data.tools;
+    this.compaction = data.compaction;
+    this.loopDetection = data.loopDetection;
+    this.permissions = data.permissions;
+    this.pricing = data.pricing;
+    this.hooks = data.hooks;
   }
 
   static createDefaultRetryConfig(): RetryConfig {
     return RetrySchema.parse({});
   }
 
+  static createDefaultCompactionConfig(): CompactionConfig {
+    return CompactionSchema.parse({});
+  }
+
+  static createDefaultLoopDetectionConfig(): LoopDetectionConfig {
+    return LoopDetectionSchema.parse({});
+  }
+
+  static createDefaultPermissionsConfig(): PermissionsConfig {
+    return PermissionsSchema.parse({});
+  }
+
+  /**
+   * Price table entry of a model, if one is configured.
+   */
+  getModelPricing(model: string): ModelPricing | undefined {
+    return this.pricing[model];
+  }
+
   /**
    * Load and parse config from YAML file.
    *
@@ -0,0 +1,288 @@
+/**
+ * Headless mode - Run a single prompt without the interactive REPL
+ *
+ * Used by `mini-agent-ts -p "<prompt>"` for scripts, git hooks and CI.
+ * stdout only carries the result in the requested output format; every
+ * other message goes to stderr.
+ */
+
+import type { Readable } from 'node:stream';
+import { createAgentRuntime, loadConfig } from './bootstrap.js';
+import type { Config } from './config.js';
+import type { PermissionMode } from './permissions/index.js';
+import type { AgentEvent, AgentRunStatus, TokenUsage } from './schema/index.js';
+import { SessionStore, type Session } from './session/index.js';
+import { cleanupMcpConnections, type JsonSchema } from './tools/index.js';
+import { emptyUsage } from './usage/index.js';
+
+export type OutputFormat = 'text' | 'json' | 'stream-json';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = [
+  'text',
+  'json',
+  'stream-json',
+];
+
+/** How long to wait for piped input to start when `-p` has a prompt */
+export const STDIN_TIMEOUT_MS = 3000;
+
+/**
+ * Process exit codes of a headless run.
+ */
+
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  ERROR: 1,
+  MAX_STEPS: 2,
+  BLOCKED: 3,
+  TIME_LIMIT: 4,
+  TOKEN_BUDGET: 5,
+  LOOP_DETECTED: 6,
+  INVALID_OUTPUT: 7,
+  INTERRUPTED: 130,
+} as const;
+
+export interface HeadlessOptions {
+  prompt: string;
+  outputFormat: OutputFormat;
+  workspaceDir: string;
+  permissionMode?: PermissionMode;
+  /** Run in plan mode; the proposed plan becomes the result */
+  planMode?: boolean;
+  /** Continue the most recent session of the workspace */
+  continue?: boolean;
+  /** Resume the session with this id */
+  resume?: string;
+  /** JSON Schema the final answer must match */
+  outputSchema?: JsonSchema;
+  /** Config to use instead of loading config.yaml */
+  config?: Config;
+  /** Receives the result output (default: stdout) */
+  output?: (text: string) => void;
+}
+
+/**
+ * Final result, printed by `json` and as the last line of `stream-json`.
+ */
+export interface HeadlessResult {
+  type: 'result';
+  status: AgentRunStatus | 'error';
+  is_error: boolean;
+  result: string;
+  /** The validated answer, when there is an output schema */
+  structured_output?: unknown;
+  error?: string;
+  steps: number;
+  duration_ms: number;
+  usage: TokenUsage;
+  cost: number | null;
+  session_id: string | null;
+}
+
+function exitCodeFor(status: HeadlessResult['status']): number {
+  switch (status) {
+    case 'completed':
+      return EXIT_CODES.SUCCESS;
+    case 'max_steps':
+      return EXIT_CODES.MAX_STEPS;
+    case 'blocked':
+      return EXIT_CODES.BLOCKED;
+    case 'time_limit':
+      return EXIT_CODES.TIME_LIMIT;
+    case 'token_budget':
+      return EXIT_CODES.TOKEN_BUDGET;
+    case 'loop_detected':
+      return EXIT_CODES.LOOP_DETECTED;
+    case 'invalid_output':
+      return EXIT_CODES.INVALID_OUTPUT;
+    case 'interrupted':
+      return EXIT_CODES.INTERRUPTED;
+    default:
+      return EXIT_CODES.ERROR;
+  }
+}
+
+/**
+ * Read everything piped to stdin.
+ *
+ * A stdin that is inherited but never written to (e.g. from a CI runner)
+ * would never end, so with `timeoutMs` the input is only read if it starts
+ * arriving within that time. Giving up on stdin is reported to `log`, since
+ * input that starts later is dropped.
+ *
+ * @returns The input, or an empty string when stdin is a terminal or
+ * nothing arrived in time
+ */
+export function readStdin(
+  timeoutMs?: number,
+  input: Readable & { isTTY?: boolean } = process.stdin,
+  log: (message: string) => void = (message) => console.error(message)
+): Promise<string> {
+  if (input.isTTY) {
+    return Promise.resolve('');
+  }
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const onData = (chunk: Buffer | string): void => {
+      clearTimeout(timer);
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    };
+    const finish = (): void => {
+      clearTimeout(timer);
+      input.off('data', onData);
+      input.off('error', reject);
+      input.pause();
+      resolve(Buffer.concat(chunks).toString('utf8'));
+    };
+    const timer =
+      timeoutMs === undefined
+        ? undefined
+        : setTimeout(() => {
+            log(
+              `⚠️  Ignoring stdin: no input arrived within ${timeoutMs / 1000}s. ` +
+                'Pipe the input before starting, or use </dev/null to skip it.'
+            );
+            finish();
+          }, timeoutMs);
+    input.on('data', onData);
+    input.once('end', finish);
+    input.once('error', reject);
+  });
+}
+
+/**
+ * Combine the `-p` argument and piped stdin into one prompt.
+ * Piped input is appended after the instruction, e.g.
+ * `git diff | mini-agent-ts -p "Review this diff"`.
+ */
+export function buildHeadlessPrompt(
+  argument: string | undefined,
+  stdin: string
+): string {
+  const parts = [argument?.trim(), stdin.trim()].filter(
+    (part): part is string => Boolean(part)
+  );
+  return parts.join('\n\n');
+}
+
+/**
+ * Run one prompt to completion and print the result.
+ *
+ * @returns The process exit code
+ */
+export async function runHeadless(options: HeadlessOptions): Promise<number> {
+  const output =
+    options.output ?? ((text: string) => void process.stdout.write(text));
+  const writeLine = (value: unknown): void =>
+    output(`${JSON.stringify(value)}\n`);
+  // Keep stdout clean for the result: all progress output goes to stderr
+  const log = (message: string): void => console.error(message);
+
+  const startedAt = Date.now();
+  let session: Session | null = null;
+  let status = 'error' as HeadlessResult['status'];
+  let content = '';
+  let structuredOutput: unknown = undefined;
+  let steps = 0;
+  let usage = emptyUsage();
+  let cost: number | null = null;
+  let errorMessage: string | undefined;
+
+  const controller = new AbortController();
+  const onSigint = (): void => controller.abort();
+  process.on('SIGINT', onSigint);
+
+  try {
+    const config = options.config ?? loadConfig(log).config;
+    const { agent, checkpoints } = await createAgentRuntime(config, {
+      log,
+      workspaceDir: options.workspaceDir,
+      permissionMode: options.permissionMode,
+      outputSchema: options.outputSchema,
+    });
+
+    const store = new SessionStore(options.workspaceDir);
+    const restored = options.resume
+      ? store.open(options.resume)
+      : options.continue
+        ? store.openLatest()
+        : null;
+    if (restored) {
+      agent.messages = [...agent.messages, ...restored.messages];
+      agent.restoreTodos(restored.todos);
+      session = restored.session;
+    } else {
+      session = store.create({
+        model: config.llm.model,
+        provider: config.llm.provider,
+      });
+    }
+
+    checkpoints.open(session.id);
+    if (agent.hooks) {
+      agent.hooks.sessionId = session.id;
+    }
+    await agent.startSession(restored ? 'resume' : 'startup');
+
+    const activeSession = session;
+    agent.subscribe((event: AgentEvent) => {
+      if (event.type === 'message' || event.type === 'compaction') {
+        activeSession.sync(agent.messages);
+      }
+      if (event.type === 'todos') {
+        activeSession.saveTodos(event.todos);
+      }
+      if (event.type === 'run_end') {
+        activeSession.sync(agent.messages);
+        status = event.status;
+        steps = event.steps;
+      }
+      if (options.outputFormat === 'stream-json') {
+        writeLine(event);
+      }
+    });
+
+    agent.setPlanMode(options.planMode ?? false);
+    checkpoints.begin(agent.messages.length, options.prompt);
+    agent.addUserMessage(options.prompt);
+    content = await agent.run({ signal: controller.signal });
+    structuredOutput = agent.structuredOutput;
+    usage = agent.usage;
+    cost = agent.getCost();
+  } catch (error) {
+    status = 'error';
+    errorMessage = error instanceof Error ? error.message : String(error);
+  } finally {
+    process.removeListener('SIGINT', onSigint);
+    await cleanupMcpConnections();
+  }
+
+  const result: HeadlessResult = {
+    type: 'result',
+    status,
+    is_error: status !== 'completed',
+    result: content,
+    structured_output: structuredOutput,
+    error: errorMessage,
+    steps,
+    duration_ms: Date.now() - startedAt,
+    usage,
+    cost,
+    session_id: session?.hasTranscript() ? session.id : null,
+  };
+
+  if (options.outputFormat === 'text') {
+    if (errorMessage) {
+      console.error(`❌ Error: ${errorMessage}`);
+    } else {
+      output(content.endsWith('\n') ? content : `${content}\n`);
+      if (status !== 'completed') {
+        console.error(`⚠️  Run ended with status: ${status}`);
+      }
+    }
+  } else {
+    writeLine(result);
+  }
+
+  return exitCodeFor(status);
+}
@@ -0,0 +1,240 @@
+/**
+ * Hook Runner - Run user-configured shell commands on agent lifecycle events
+ *
+ * Each hook gets the event as JSON on stdin. Exit code 0 means success and
+ * stdout may hold a `HookOutput` JSON object (plain text is used as extra
+ * context for `UserPromptSubmit` and `SessionStart`). Exit code 2 blocks,
+ * with stderr as the reason. Any other failure is reported but ignored.
+ */
+
+import { spawn } from 'node:child_process';
+import type { HookConfig, HooksConfig } from '../config.js';
+import { Logger } from '../util/logger.js';
+import type {
+  HookEventInput,
+  HookEventName,
+  HookInput,
+  HookOutcome,
+  HookOutput,
+} from './types.js';
+
+const BLOCKING_EXIT_CODE = 2;
+
+interface CommandResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+}
+
+/**
+ * Run a hook command with the input on stdin.
+ */
+function runCommand(
+  hook: HookConfig,
+  input: HookInput,
+  signal?: AbortSignal
+): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(hook.command, {
+      cwd: input.cwd,
+      shell: true,
+      stdio: 'pipe',
+      env: { ...process.env, MINI_AGENT_PROJECT_DIR: input.cwd },
+      signal,
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, hook.timeout * 1000);
+
+    child.stdout.on('data', (data: Buffer) => {
+      stdout += data.toString('utf8');
+    });
+    child.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString('utf8');
+    });
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', (exitCode) => {
+      clearTimeout(timer);
+      resolve({ exitCode, stdout, stderr, timedOut });
+    });
+
+    // The hook may not read its input; ignore EPIPE
+    child.stdin.on('error', () => {});
+    child.stdin.end(JSON.stringify(input));
+  });
+}
+
+function parseOutput(stdout: string): HookOutput | null {
+  const text = stdout.trim();
+  if (!text.startsWith('{')) {
+    return null;
+  }
+  return JSON.parse(text) as HookOutput;
+}
+
+/**
+ * HookRunner
+ *
+ * Runs the hooks configured for an event one after another; the first hook
+ * that blocks stops the rest.
+ */
+export class HookRunner {
+  private ownSessionId: string | null = null;
+
+  constructor(
+    private config: HooksConfig,
+    public readonly cwd: string,
+    private parent?: HookRunner
+  ) {}
+
+  /** Included in the hook input once a session has been started */
+  get sessionId(): string | null {
+    return this.parent ? this.parent.sessionId : this.ownSessionId;
+  }
+
+  set sessionId(id: string | null) {
+    this.ownSessionId = id;
+  }
+
+  /**
+   * Whether any hook is configured for the event.
+   */
+  has(event: HookEventName): boolean {
+    return this.config[event].length > 0;
+  }
+
+  /**
+   * A runner that only handles the given events (used for sub-agents,
+   * whose prompts and answers are not the user's). It shares the session
+   * id of this runner.
+   */
+  only(events: HookEventName[]): HookRunner {
+    const config: HooksConfig = {
+      PreToolUse: [],
+      PostToolUse: [],
+      UserPromptSubmit: [],
+      Stop: [],
+      SessionStart: [],
+    };
+    for (const event of events) {
+      config[event] = this.config[event];
+    }
+    return new HookRunner(config, this.cwd, this);
+  }
+
+  private matches(hook: HookConfig, event: HookEventInput): boolean {
+    if (!('tool_name' in event)) {
+      return true;
+    }
+    if (!hook.matcher || hook.matcher === '*') {
+      return true;
+    }
+    try {
+      return new RegExp(`^(?:${hook.matcher})$`).test(event.tool_name);
+    } catch {
+      Logger.log('HOOKS', `Invalid matcher: ${hook.matcher}`);
+      return false;
+    }
+  }
+
+  /**
+   * Run every matching hook for an event.
+   */
+  async run(event: HookEventInput, signal?: AbortSignal): Promise<HookOutcome> {
+    const outcome: HookOutcome = {
+      blocked: false,
+      additionalContext: [],
+      errors: [],
+    };
+    const input: HookInput = {
+      ...event,
+      session_id: this.sessionId,
+      cwd: this.cwd,
+    };
+    const textIsContext =
+      event.hook_event_name === 'UserPromptSubmit' ||
+      event.hook_event_name === 'SessionStart';
+
+    for (const hook of this.config[event.hook_event_name]) {
+      if (!this.matches(hook, event)) continue;
+
+      let result: CommandResult;
+      try {
+        result = await runCommand(hook, input, signal);
+      } catch (error) {
+        if (signal?.aborted) break;
+        const message = error instanceof Error ? error.message : String(error);
+        outcome.errors.push(`${hook.command}: ${message}`);
+        continue;
+      }
+      Logger.log('HOOKS', `${event.hook_event_name}: ${hook.command}`, {
+        exitCode: result.exitCode,
+        stdout: result.stdout,
+        stderr: result.stderr,
+      });
+
+      if (result.timedOut) {
+        outcome.errors.push(
+          `${hook.command}: timed out after ${hook.timeout}s`
+        );
+        continue;
+      }
+      if (result.exitCode === BLOCKING_EXIT_CODE) {
+        outcome.blocked = true;
+        outcome.reason =
+          result.stderr.trim() || `Blocked by hook: ${hook.command}`;
+        break;
+      }
+      if (result.exitCode !== 0) {
+        outcome.errors.push(
+          `${hook.command}: exited with code ${result.exitCode}${result.stderr.trim() ? `: ${result.stderr.trim()}` : ''}`
+        );
+        continue;
+      }
+
+      let output: HookOutput | null;
+      try {
+        output = parseOutput(result.stdout);
+      } catch {
+        outcome.errors.push(`${hook.command}: invalid JSON output`);
+        continue;
+      }
+
+      if (!output) {
+        if (textIsContext && result.stdout.trim()) {
+          outcome.additionalContext.push(result.stdout.trim());
+        }
+        continue;
+      }
+      if (output.updated_input) {
+        outcome.updatedInput = {
+          ...outcome.updatedInput,
+          ...output.updated_input,
+        };
+        if (input.hook_event_name === 'PreToolUse') {
+          // Later hooks see the modified arguments
+          input.tool_input = { ...input.tool_input, ...output.updated_input };
+        }
+      }
+      if (output.additional_context) {
+        outcome.additionalContext.push(output.additional_context);
+      }
+      if (output.decision === 'block') {
+        outcome.blocked = true;
+        outcome.reason = output.reason || `Blocked by hook: ${hook.command}`;
+        break;
+      }
+    }
+
+    return outcome;
+  }
+}
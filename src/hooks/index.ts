@@ -0,0 +1,6 @@
+/**
+ * Hooks module
+ */
+
+export * from './types.js';
+export * from './hook-runner.js';
@@ -0,0 +1,66 @@
+/**
+ * Hook types and interfaces
+ */
+
+import type { HooksConfig } from '../config.js';
+import type { ToolInput, ToolResult } from '../tools/base.js';
+
+export type HookEventName = keyof HooksConfig;
+
+export const HOOK_EVENTS: readonly HookEventName[] = [
+  'PreToolUse',
+  'PostToolUse',
+  'UserPromptSubmit',
+  'Stop',
+  'SessionStart',
+];
+
+/**
+ * Event-specific part of the JSON a hook receives on stdin.
+ */
+export type HookEventInput =
+  | { hook_event_name: 'PreToolUse'; tool_name: string; tool_input: ToolInput }
+  | {
+      hook_event_name: 'PostToolUse';
+      tool_name: string;
+      tool_input: ToolInput;
+      tool_result: ToolResult;
+    }
+  | { hook_event_name: 'UserPromptSubmit'; prompt: string }
+  | { hook_event_name: 'Stop'; result: string; stop_hook_active: boolean }
+  | { hook_event_name: 'SessionStart'; source: 'startup' | 'resume' };
+
+/**
+ * Full JSON a hook receives on stdin.
+ */
+export type HookInput = HookEventInput & {
+  session_id: string | null;
+  cwd: string;
+};
+
+/**
+ * JSON a hook may print on stdout. Every field is optional.
+ *
+ * @property decision           - `block` stops the tool call / prompt, or keeps the agent going on `Stop`
+ * @property reason             - Why; shown to the model (or the user for prompts)
+ * @property updated_input      - PreToolUse only: arguments merged over the tool input
+ * @property additional_context - Text added to the tool result, prompt or system prompt
+ */
+export interface HookOutput {
+  decision?: 'block';
+  reason?: string;
+  updated_input?: ToolInput;
+  additional_context?: string;
+}
+
+/**
+ * Combined result of all hooks that ran for one event.
+ */
+export interface HookOutcome {
+  blocked: boolean;
+  reason?: string;
+  updatedInput?: ToolInput;
+  additionalContext: string[];
+  /** Hooks that failed without blocking (non-zero exit, timeout, bad JSON) */
+  errors: string[];
+}
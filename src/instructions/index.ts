@@ -0,0 +1,5 @@
+/**
+ * Instructions module
+ */
+
+export * from './instruction-loader.js';
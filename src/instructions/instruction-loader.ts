@@ -0,0 +1,257 @@
+/**
+ * Instruction Loader - Project and user instruction files for the system prompt
+ *
+ * Files are collected from lowest to highest precedence:
+ * 1. `~/.mini-agent-ts/AGENTS.md` (user-global)
+ * 2. `AGENTS.md` and `.mini-agent/instructions.md` in every directory from
+ *    the filesystem root down to the workspace
+ *
+ * A file can pull in other files with `@path` (relative to the file, or
+ * `~/...`); imported files follow the file that imports them. Imports must
+ * stay inside the workspace or the user's config directory, and project
+ * files (which come with the repository) may only use relative paths, so
+ * they cannot pull in files like `~/.ssh/id_rsa`.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Logger } from '../util/logger.js';
+
+// ============ Types ============
+
+export type InstructionScope = 'user' | 'project' | 'import';
+
+export interface InstructionFile {
+  /** Absolute path of the file */
+  path: string;
+  scope: InstructionScope;
+  content: string;
+  /** The file that imported this one */
+  importedFrom?: string;
+}
+
+export interface LoadedInstructions {
+  /** Loaded files in precedence order, lowest first */
+  files: InstructionFile[];
+  /** Section appended to the system prompt, empty without files */
+  prompt: string;
+}
+
+export interface InstructionLoaderOptions {
+  /** Directory of the user-global file (default: `~/.mini-agent-ts`) */
+  userDir?: string;
+}
+
+// ============ Helpers ============
+
+/** Instruction file names looked up in every directory */
+export const INSTRUCTION_FILE_NAMES = [
+  'AGENTS.md',
+  path.join('.mini-agent', 'instructions.md'),
+];
+
+// Nested imports deeper than this are ignored
+const MAX_IMPORT_DEPTH = 5;
+
+function getHomeDir(): string {
+  return process.env['HOME'] || process.env['USERPROFILE'] || '';
+}
+
+/**
+ * Default directory of the user-global instruction file.
+ */
+export function getUserInstructionsDir(): string {
+  return path.join(getHomeDir(), '.mini-agent-ts');
+}
+
+/**
+ * Directories from the filesystem root down to `dir`.
+ */
+function ancestorsOf(dir: string): string[] {
+  const dirs: string[] = [];
+  let current = path.resolve(dir);
+  while (true) {
+    dirs.unshift(current);
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    current = parent;
+  }
+  return dirs;
+}
+
+function readFileIfExists(filePath: string): string | null {
+  try {
+    return fs.statSync(filePath).isFile()
+      ? fs.readFileSync(filePath, 'utf8')
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find `@path` references outside of code blocks and code spans.
+ */
+export function findImports(content: string): string[] {
+  const withoutCode = content
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/`[^`\n]*`/g, '');
+  const imports: string[] = [];
+  for (const match of withoutCode.matchAll(
+    /(?:^|\s)@((?:~\/|\.{0,2}\/)?[\w./-]+)/g
+  )) {
+    // Trailing punctuation belongs to the sentence, not the path
+    const reference = match[1].replace(/[.,;:]+$/, '');
+    if (reference && !imports.includes(reference)) {
+      imports.push(reference);
+    }
+  }
+  return imports;
+}
+
+/**
+ * Where imports may come from and whether absolute and `~/` paths are fine.
+ */
+interface ImportPolicy {
+  /** Real paths of the directories imports must stay inside */
+  roots: string[];
+  /** Whether the import chain started at the user's own file */
+  trusted: boolean;
+}
+
+function realPathOf(filePath: string): string | null {
+  try {
+    return fs.realpathSync(filePath);
+  } catch {
+    return null;
+  }
+}
+
+function isInside(filePath: string, dir: string): boolean {
+  const relative = path.relative(dir, filePath);
+  return (
+    relative === '' ||
+    (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative))
+  );
+}
+
+/**
+ * Resolve an `@path` reference, following symlinks for the checks.
+ *
+ * @returns The path to load, or null if the import is not allowed
+ */
+function resolveImport(
+  reference: string,
+  fromFile: string,
+  policy: ImportPolicy
+): string | null {
+  const isHomePath = reference.startsWith('~/');
+  if (!policy.trusted && (isHomePath || path.isAbsolute(reference))) {
+    return null;
+  }
+  const resolved = isHomePath
+    ? path.join(getHomeDir(), reference.slice(2))
+    : path.resolve(path.dirname(fromFile), reference);
+  const real = realPathOf(resolved);
+  if (real !== null && !policy.roots.some((root) => isInside(real, root))) {
+    return null;
+  }
+  return resolved;
+}
+
+// ============ Loader ============
+
+/**
+ * Load a file and, after it, the files it imports.
+ */
+function loadWithImports(
+  filePath: string,
+  scope: InstructionScope,
+  seen: Set<string>,
+  policy: ImportPolicy,
+  depth = 0,
+  importedFrom?: string
+): InstructionFile[] {
+  if (seen.has(filePath)) {
+    return [];
+  }
+  const content = readFileIfExists(filePath);
+  if (content === null) {
+    return [];
+  }
+  seen.add(filePath);
+
+  const files: InstructionFile[] = [
+    { path: filePath, scope, content: content.trim(), importedFrom },
+  ];
+  if (depth >= MAX_IMPORT_DEPTH) {
+    Logger.log('INSTRUCTIONS', `Import depth exceeded in ${filePath}`);
+    return files;
+  }
+  for (const reference of findImports(content)) {
+    const resolved = resolveImport(reference, filePath, policy);
+    if (resolved === null) {
+      Logger.log(
+        'INSTRUCTIONS',
+        `Ignored import of ${reference} in ${filePath}: only files in the workspace or the user's config directory can be imported`
+      );
+      continue;
+    }
+    files.push(
+      ...loadWithImports(resolved, 'import', seen, policy, depth + 1, filePath)
+    );
+  }
+  return files;
+}
+
+/**
+ * Render loaded files as a system prompt section.
+ */
+export function formatInstructions(files: InstructionFile[]): string {
+  const sections = files
+    .filter((file) => file.content)
+    .map((file) => `### ${file.path}\n${file.content}`);
+  if (sections.length === 0) {
+    return '';
+  }
+  return `## Project Instructions
+Follow these instructions from the user's instruction files. When they conflict, later files take precedence over earlier ones.
+
+${sections.join('\n\n')}`;
+}
+
+/**
+ * Discover and load the instruction files of a workspace.
+ */
+export function loadInstructions(
+  workspaceDir: string,
+  options: InstructionLoaderOptions = {}
+): LoadedInstructions {
+  const userDir = options.userDir ?? getUserInstructionsDir();
+  const roots = [workspaceDir, userDir]
+    .map(realPathOf)
+    .filter((root): root is string => root !== null);
+  const seen = new Set<string>();
+  const files = loadWithImports(path.join(userDir, 'AGENTS.md'), 'user', seen, {
+    roots,
+    trusted: true,
+  });
+
+  for (const dir of ancestorsOf(workspaceDir)) {
+    for (const name of INSTRUCTION_FILE_NAMES) {
+      files.push(
+        ...loadWithImports(path.join(dir, name), 'project', seen, {
+          roots,
+          trusted: false,
+        })
+      );
+    }
+  }
+
+  Logger.log(
+    'INSTRUCTIONS',
+    'Loaded instruction files',
+    files.map((file) => file.path)
+  );
+  return { files, prompt: formatInstructions(files) };
+}
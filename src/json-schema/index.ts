@@ -0,0 +1,5 @@
+/**
+ * JSON Schema module
+ */
+
+export * from './validator.js';
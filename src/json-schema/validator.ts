@@ -0,0 +1,445 @@
+/**
+ * JSON Schema Validator - Check values against the JSON Schemas of tools
+ *
+ * Covers the subset tool and output schemas use in practice: `type`,
+ * `enum`/`const`, object `properties`/`required`/`additionalProperties`,
+ * array `items` and sizes, string lengths and `pattern`, number ranges,
+ * `anyOf`/`oneOf`/`allOf` and local `$ref`s (`#/$defs/...`). Unknown
+ * keywords (e.g. `format`, `description`) are ignored.
+ *
+ * Models often get the shape right but the scalar types wrong ("5" for 5),
+ * so `coerceToSchema` fixes such values and fills in `default`s before
+ * validating.
+ */
+
+import * as fs from 'node:fs';
+import type { JsonSchema } from '../tools/base.js';
+
+/**
+ * One validation failure; `path` points at the value, e.g. `$.items[0].name`.
+ */
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+/** Root schema, used to resolve `$ref`s */
+interface ValidationContext {
+  root: JsonSchema;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * JSON Schema type name of a value (`integer` for whole numbers).
+ */
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Resolve a local reference such as `#/$defs/item`.
+ */
+function resolveRef(ref: string, context: ValidationContext): JsonSchema {
+  if (ref === '#') {
+    return context.root;
+  }
+  if (!ref.startsWith('#/')) {
+    throw new Error(`Unsupported $ref: ${ref}`);
+  }
+  let target: unknown = context.root;
+  for (const part of ref.slice(2).split('/')) {
+    const key = decodeURIComponent(part)
+      .replace(/~1/g, '/')
+      .replace(/~0/g, '~');
+    target = isObject(target) ? target[key] : undefined;
+  }
+  if (!isObject(target)) {
+    throw new Error(`Unresolvable $ref: ${ref}`);
+  }
+  return target;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => deepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+function validateNode(
+  schema: unknown,
+  value: unknown,
+  path: string,
+  context: ValidationContext
+): SchemaError[] {
+  // `true`/`{}` accept anything, `false` nothing
+  if (schema === false) {
+    return [{ path, message: 'is not allowed' }];
+  }
+  if (!isObject(schema)) {
+    return [];
+  }
+  if (typeof schema['$ref'] === 'string') {
+    return validateNode(
+      resolveRef(schema['$ref'], context),
+      value,
+      path,
+      context
+    );
+  }
+
+  const errors: SchemaError[] = [];
+  const fail = (message: string): void => {
+    errors.push({ path, message });
+  };
+
+  const type = schema['type'];
+  if (typeof type === 'string' || Array.isArray(type)) {
+    const types = (Array.isArray(type) ? type : [type]) as string[];
+    if (!types.some((t) => matchesType(value, t))) {
+      // Without the right type the other keywords would only add noise
+      return [
+        {
+          path,
+          message: `must be ${types.join(' or ')}, got ${typeOf(value)}`,
+        },
+      ];
+    }
+  }
+
+  if (Array.isArray(schema['enum'])) {
+    const options = schema['enum'] as unknown[];
+    if (!options.some((option) => deepEqual(option, value))) {
+      fail(
+        `must be one of: ${options.map((option) => JSON.stringify(option)).join(', ')}`
+      );
+    }
+  }
+  if ('const' in schema && !deepEqual(schema['const'], value)) {
+    fail(`must be ${JSON.stringify(schema['const'])}`);
+  }
+
+  if (typeof value === 'string') {
+    const { minLength, maxLength, pattern } = schema;
+    if (typeof minLength === 'number' && value.length < minLength) {
+      fail(`must be at least ${minLength} characters long`);
+    }
+    if (typeof maxLength === 'number' && value.length > maxLength) {
+      fail(`must be at most ${maxLength} characters long`);
+    }
+    if (typeof pattern === 'string' && !new RegExp(pattern, 'u').test(value)) {
+      fail(`must match the pattern ${pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema;
+    if (typeof minimum === 'number' && value < minimum) {
+      fail(`must be >= ${minimum}`);
+    }
+    if (typeof maximum === 'number' && value > maximum) {
+      fail(`must be <= ${maximum}`);
+    }
+    if (typeof exclusiveMinimum === 'number' && value <= exclusiveMinimum) {
+      fail(`must be > ${exclusiveMinimum}`);
+    }
+    if (typeof exclusiveMaximum === 'number' && value >= exclusiveMaximum) {
+      fail(`must be < ${exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    const { minItems, maxItems, items } = schema;
+    if (typeof minItems === 'number' && value.length < minItems) {
+      fail(`must have at least ${minItems} items`);
+    }
+    if (typeof maxItems === 'number' && value.length > maxItems) {
+      fail(`must have at most ${maxItems} items`);
+    }
+    if (items !== undefined) {
+      value.forEach((item, index) => {
+        errors.push(
+          ...validateNode(items, item, childPath(path, index), context)
+        );
+      });
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = isObject(schema['properties'])
+      ? schema['properties']
+      : {};
+    const required = Array.isArray(schema['required'])
+      ? (schema['required'] as string[])
+      : [];
+    for (const key of required) {
+      if (value[key] === undefined) {
+        errors.push({
+          path: childPath(path, key),
+          message: 'is required',
+        });
+      }
+    }
+    const additional = schema['additionalProperties'];
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined) {
+        continue;
+      }
+      if (Object.hasOwn(properties, key)) {
+        errors.push(
+          ...validateNode(properties[key], item, childPath(path, key), context)
+        );
+      } else if (additional === false) {
+        errors.push({
+          path: childPath(path, key),
+          message: 'is not an allowed property',
+        });
+      } else if (isObject(additional)) {
+        errors.push(
+          ...validateNode(additional, item, childPath(path, key), context)
+        );
+      }
+    }
+  }
+
+  if (Array.isArray(schema['allOf'])) {
+    for (const branch of schema['allOf']) {
+      errors.push(...validateNode(branch, value, path, context));
+    }
+  }
+  for (const keyword of ['anyOf', 'oneOf'] as const) {
+    const branches = schema[keyword];
+    if (!Array.isArray(branches)) {
+      continue;
+    }
+    const results = branches.map((branch) =>
+      validateNode(branch, value, path, context)
+    );
+    const matches = results.filter((result) => result.length === 0).length;
+    if (matches === 0) {
+      // One failing branch explains itself; several are summarized
+      if (results.length === 1) {
+        errors.push(...results[0]);
+      } else {
+        fail(`must match one of the ${results.length} allowed schemas`);
+      }
+    } else if (keyword === 'oneOf' && matches > 1) {
+      fail('must match exactly one of the allowed schemas');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Convert a scalar to one of the given types, if it has an obvious
+ * representation there (`"5"` → 5, `"true"` → true, `3` → `"3"`, a JSON
+ * string → object or array).
+ */
+function coerceScalar(value: unknown, types: string[]): unknown {
+  for (const type of types) {
+    if (typeof value === 'string') {
+      const text = value.trim();
+      if ((type === 'number' || type === 'integer') && text !== '') {
+        const number = Number(text);
+        if (
+          Number.isFinite(number) &&
+          (type === 'number' || Number.isInteger(number))
+        ) {
+          return number;
+        }
+      }
+      if (type === 'boolean' && (text === 'true' || text === 'false')) {
+        return text === 'true';
+      }
+      if (type === 'null' && text === 'null') {
+        return null;
+      }
+      if (type === 'object' || type === 'array') {
+        try {
+          const parsed: unknown = JSON.parse(text);
+          if (matchesType(parsed, type)) {
+            return parsed;
+          }
+        } catch {
+          // Not JSON: leave it to validation
+        }
+      }
+    }
+    if (
+      type === 'string' &&
+      (typeof value === 'number' || typeof value === 'boolean')
+    ) {
+      return String(value);
+    }
+  }
+  return value;
+}
+
+function coerceNode(
+  schema: unknown,
+  value: unknown,
+  context: ValidationContext
+): unknown {
+  if (!isObject(schema)) {
+    return value;
+  }
+  if (typeof schema['$ref'] === 'string') {
+    return coerceNode(resolveRef(schema['$ref'], context), value, context);
+  }
+
+  let result = value;
+  const type = schema['type'];
+  if (typeof type === 'string' || Array.isArray(type)) {
+    const types = (Array.isArray(type) ? type : [type]) as string[];
+    if (!types.some((t) => matchesType(result, t))) {
+      result = coerceScalar(result, types);
+    }
+  }
+
+  if (Array.isArray(result) && schema['items'] !== undefined) {
+    result = result.map((item) => coerceNode(schema['items'], item, context));
+  }
+
+  if (isObject(result)) {
+    const properties = isObject(schema['properties'])
+      ? schema['properties']
+      : {};
+    const additional = schema['additionalProperties'];
+    const object: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(result)) {
+      if (Object.hasOwn(properties, key)) {
+        object[key] = coerceNode(properties[key], item, context);
+      } else {
+        object[key] = isObject(additional)
+          ? coerceNode(additional, item, context)
+          : item;
+      }
+    }
+    for (const [key, property] of Object.entries(properties)) {
+      if (
+        object[key] === undefined &&
+        isObject(property) &&
+        property['default'] !== undefined
+      ) {
+        object[key] = structuredClone(property['default']);
+      }
+    }
+    result = object;
+  }
+
+  if (Array.isArray(schema['allOf'])) {
+    for (const branch of schema['allOf']) {
+      result = coerceNode(branch, result, context);
+    }
+  }
+  for (const keyword of ['anyOf', 'oneOf'] as const) {
+    const branches = schema[keyword];
+    if (!Array.isArray(branches)) {
+      continue;
+    }
+    // Keep a value that already fits; otherwise take the first coercion that does
+    if (
+      branches.some(
+        (branch) => validateNode(branch, result, '$', context).length === 0
+      )
+    ) {
+      continue;
+    }
+    for (const branch of branches) {
+      const coerced = coerceNode(branch, result, context);
+      if (validateNode(branch, coerced, '$', context).length === 0) {
+        result = coerced;
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fix the scalar types of a value where the schema asks for another type
+ * and fill in the `default` of missing properties. The value itself is not
+ * modified; validate the result with `validateJsonSchema`.
+ *
+ * @throws Error if the schema contains a `$ref` that cannot be resolved
+ */
+export function coerceToSchema(schema: JsonSchema, value: unknown): unknown {
+  return coerceNode(schema, value, { root: schema });
+}
+
+/**
+ * Validate a value against a JSON Schema.
+ *
+ * @returns Every failure found; empty when the value is valid
+ * @throws Error if the schema contains a `$ref` that cannot be resolved
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown
+): SchemaError[] {
+  return validateNode(schema, value, '$', { root: schema });
+}
+
+/**
+ * Format validation errors as a bulleted list for the model.
+ */
+export function formatSchemaErrors(errors: SchemaError[]): string {
+  return errors.map((error) => `- ${error.path}: ${error.message}`).join('\n');
+}
+
+/**
+ * Load a JSON Schema from a `.json` file.
+ *
+ * @throws Error if the file cannot be read or does not hold a schema object
+ */
+export function loadJsonSchema(filePath: string): JsonSchema {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cannot load JSON Schema ${filePath}: ${message}`);
+  }
+  if (!isObject(schema)) {
+    throw new Error(`JSON Schema ${filePath} must be a JSON object`);
+  }
+  return schema;
+}
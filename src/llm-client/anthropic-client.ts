@@ -1,5 +1,10 @@
 import Anthropic from '@anthropic-ai/sdk';
-import type { Message, LLMStreamChunk, ToolCall } from '../schema/schema.js';
+import type {
+  Message,
+  LLMStreamChunk,
+  TokenUsage,
+  ToolCall,
+} from '../schema/schema.js';
 import type { Tool } from '../tools/index.js';
 
 import { LLMClientBase } from './llm-client-base.js';
@@ -74,7 +79,7 @@ export class AnthropicClient extends LLMClientBase {
             type: 'thinking',
             thinking: msg.thinking,
             // Anthropic requires a signature field for thinking blocks
-            signature: '',
+            signature: msg.thinking_signature ?? '',
           } as Anthropic.ThinkingBlockParam);
         }
 
@@ -187,12 +192,14 @@ export class AnthropicClient extends LLMClientBase {
   
      @param messages - The conversation history.
      @param tools - Available tools for the LLM.
+     @param signal - Optional signal to abort the request.
      @returns An async generator yielding content, thoughts, or tool calls.
      */
 
   public override async *generateStream(
     messages: Message[],
-    tools?: Tool[] | null
+    tools?: Tool[] | null,
+    signal?: AbortSignal
   ): AsyncGenerator<LLMStreamChunk> {
     // ============================================================
     // STAGE 1: Package parameters and initiate API request
@@ -214,14 +221,21 @@ export class AnthropicClient extends LLMClientBase {
     }
 
     Logger.logLLMRequest(params);
-    const stream = this.client.messages.stream(params);
+    const stream = this.client.messages.stream(params, { signal });
 
     // Track accumulated data for logging and final dispatch
     let fullContent = '';
     let fullThinking = '';
+    let thinkingSignature = '';
     let chunkCount = 0;
     let finishReason: string | undefined;
     const accumulatedToolCalls: ToolCall[] = [];
+    const usage: TokenUsage = {
+      input_tokens: 0,
+      output_tokens: 0,
+      cache_read_tokens: 0,
+      cache_write_tokens: 0,
+    };
 
     // Temporary buffer to assemble tool JSON strings
     let currentToolCall: {
@@ -236,7 +250,14 @@ export class AnthropicClient extends LLMClientBase {
     for await (const event of stream) {
       chunkCount++;
 
-      if (
+      if (event.type === 'message_start') {
+        // Input and cache counts are final here, output keeps growing
+        const startUsage = event.message.usage;
+        usage.input_tokens = startUsage.input_tokens;
+        usage.output_tokens = startUsage.output_tokens;
+        usage.cache_read_tokens = startUsage.cache_read_input_tokens ?? 0;
+        usage.cache_write_tokens = startUsage.cache_creation_input_tokens ?? 0;
+      } else if (
         event.type === 'content_block_delta' &&
         event.delta.type === 'text_delta'
       ) {
@@ -252,6 +273,12 @@ export class AnthropicClient extends LLMClientBase {
           fullThinking += thinking;
           yield { thinking: thinking, done: false };
         }
+      } else if (
+        event.type === 'content_block_delta' &&
+        event.delta.type === 'signature_delta'
+      ) {
+        // Keep the signature so the thinking block can be replayed later
+        thinkingSignature += event.delta.signature;
       }
 
       // ============================================================
@@ -283,23 +310,12 @@ export class AnthropicClient extends LLMClientBase {
       // Finalize instruction, parse JSON, and store in array
       else if (event.type === 'content_block_stop') {
         if (currentToolCall) {
-          let parsedArgs: Record<string, unknown> = {};
-          try {
-            parsedArgs = JSON.parse(currentToolCall.inputJSON || '{}');
-          } catch {
-            Logger.log(
-              'LLM',
-              'Failed to parse tool arguments JSON',
-              currentToolCall.inputJSON
-            );
-          }
-
           const toolCall: ToolCall = {
             id: currentToolCall.id,
             type: 'function',
             function: {
               name: currentToolCall.name,
-              arguments: parsedArgs,
+              ...this.parseToolArguments(currentToolCall.inputJSON),
             },
           };
           accumulatedToolCalls.push(toolCall);
@@ -312,6 +328,8 @@ export class AnthropicClient extends LLMClientBase {
         if (event.delta.stop_reason) {
           finishReason = event.delta.stop_reason;
         }
+        // Counts in message_delta are cumulative
+        usage.output_tokens = event.usage.output_tokens;
       }
 
       // Dispatch all accumulated tool calls in the final chunk
@@ -319,10 +337,12 @@ export class AnthropicClient extends LLMClientBase {
         yield {
           content: undefined,
           thinking: undefined,
+          thinking_signature: thinkingSignature || undefined,
           tool_calls:
             accumulatedToolCalls.length > 0 ? accumulatedToolCalls : undefined,
           done: true,
           finish_reason: finishReason || 'end_turn',
+          usage,
         };
       }
     }
@@ -334,6 +354,7 @@ export class AnthropicClient extends LLMClientBase {
       tool_calls: accumulatedToolCalls.length > 0 ? accumulatedToolCalls : null,
       finishReason: finishReason,
       chunkCount: chunkCount,
+      usage,
     });
   }
 }
@@ -1 +1,8 @@
 export { LLMClient } from './llm-client.js';
+export {
+  type MockResponse,
+  type MockScript,
+  MockClient,
+  loadMockScript,
+  parseMockScript,
+} from './mock-client.js';
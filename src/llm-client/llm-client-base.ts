@@ -1,6 +1,7 @@
-import type { Message, LLMStreamChunk } from '../schema/index.js';
+import type { Message, LLMStreamChunk, ToolCall } from '../schema/index.js';
 import type { Tool } from '../tools/index.js';
 import { Config, type RetryConfig } from '../config.js';
+import { Logger } from '../util/logger.js';
 
 export abstract class LLMClientBase {
   public apiKey: string;
@@ -28,16 +29,45 @@ export abstract class LLMClientBase {
     this.retryConfig = retryConfig ?? Config.createDefaultRetryConfig();
   }
 
+  /**
+   * Parse the streamed argument text of a tool call. Text that is not a
+   * JSON object is logged and kept as `invalid_arguments`, so the agent can
+   * report it instead of running the tool without arguments.
+   */
+  protected parseToolArguments(
+    text: string
+  ): Pick<ToolCall['function'], 'arguments' | 'invalid_arguments'> {
+    if (!text.trim()) {
+      return { arguments: {} };
+    }
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (
+        typeof parsed === 'object' &&
+        parsed !== null &&
+        !Array.isArray(parsed)
+      ) {
+        return { arguments: parsed as Record<string, unknown> };
+      }
+    } catch {
+      // Reported below
+    }
+    Logger.log('LLM', 'Failed to parse tool arguments JSON', text);
+    return { arguments: {}, invalid_arguments: text };
+  }
+
   /**
    * Generate streaming response from LLM.
    *
    * @param messages List of conversation messages
    * @param tools Optional list of tool objects
+   * @param signal Optional signal to abort the request
    * @returns AsyncGenerator yielding LLMStreamChunk
    */
   public abstract generateStream(
     messages: Message[],
-    tools?: Tool[] | null
+    tools?: Tool[] | null,
+    signal?: AbortSignal
   ): AsyncGenerator<LLMStreamChunk>;
 
   /**
@@ -7,6 +7,7 @@ import type { Tool } from '../tools/index.js';
 import { LLMClientBase } from './llm-client-base.js';
 import { OpenAIClient } from './openai-client.js';
 import { AnthropicClient } from './anthropic-client.js';
+import { MockClient } from './mock-client.js';
 
 import type { RetryConfig } from '../config.js';
 
@@ -32,44 +33,78 @@ export class LLMClient {
     this.model = model;
     this.retryConfig = retryConfig;
 
-    let fullApiBase: string = '';
+    this.apiBase = apiBase.replace(/\/+$/, '');
+    this._client = this.createClient();
+  }
 
-    switch (provider) {
+  /**
+   * Build the provider-specific client for the current settings.
+   *
+   * @throws Error if the provider is not supported
+   */
+  private createClient(): LLMClientBase {
+    switch (this.provider) {
       case LLMProvider.ANTHROPIC:
-        fullApiBase = apiBase.replace(/\/+$/, '');
-        this._client = new AnthropicClient(
-          apiKey,
-          fullApiBase,
-          model,
-          retryConfig
+        return new AnthropicClient(
+          this.apiKey,
+          this.apiBase,
+          this.model,
+          this.retryConfig
         );
-        break;
 
       case LLMProvider.OPENAI:
-        fullApiBase = apiBase.replace(/\/+$/, '');
-        this._client = new OpenAIClient(
-          apiKey,
-          fullApiBase,
-          model,
-          retryConfig
+        return new OpenAIClient(
+          this.apiKey,
+          this.apiBase,
+          this.model,
+          this.retryConfig
+        );
+
+      case LLMProvider.MOCK:
+        return new MockClient(
+          this.apiKey,
+          this.apiBase,
+          this.model,
+          this.retryConfig
         );
-        break;
 
       default:
-        throw new Error(`Unsupported provider: ${provider}`);
+        throw new Error(`Unsupported provider: ${this.provider}`);
     }
+  }
 
-    this.apiBase = fullApiBase;
+  /**
+   * Use another model (and optionally provider) for the following requests.
+   * Everyone holding this client switches along, sub-agents included.
+   *
+   * @throws Error if the provider is not supported; the client is unchanged
+   */
+  switchModel(model: string, provider: string = this.provider): void {
+    const previous = { model: this.model, provider: this.provider };
+    this.model = model;
+    this.provider = provider;
+    try {
+      this._client = this.createClient();
+    } catch (error) {
+      this.model = previous.model;
+      this.provider = previous.provider;
+      throw error;
+    }
   }
 
   async *generateStream(
     messages: Message[],
-    tools?: Tool[] | null
+    tools?: Tool[] | null,
+    signal?: AbortSignal
   ): AsyncGenerator<LLMStreamChunk> {
-    yield* this._client.generateStream(messages, tools);
+    yield* this._client.generateStream(messages, tools, signal);
   }
 
   async checkConnection(): Promise<boolean> {
+    if (this.provider === LLMProvider.MOCK) {
+      // A ping would consume the first scripted response
+      return true;
+    }
     try {
       const msgs: Message[] = [{ role: 'user', content: 'ping' }];
       const generator = this._client.generateStream(msgs, null);
@@ -0,0 +1,214 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import yaml from 'yaml';
+import { z } from 'zod';
+import type {
+  Message,
+  LLMStreamChunk,
+  TokenUsage,
+  ToolCall,
+} from '../schema/schema.js';
+import type { Tool } from '../tools/index.js';
+import { LLMClientBase } from './llm-client-base.js';
+import type { RetryConfig } from '../config.js';
+import { Logger } from '../util/logger.js';
+
+const MockToolCallSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1),
+  /** An object, or argument text as a provider streams it (may be invalid) */
+  arguments: z
+    .union([z.record(z.string(), z.unknown()), z.string()])
+    .default({}),
+});
+
+const MockResponseSchema = z.object({
+  content: z.string().optional(),
+  thinking: z.string().optional(),
+  tool_calls: z.array(MockToolCallSchema).optional(),
+  usage: z
+    .object({
+      input_tokens: z.number().int().min(0).default(0),
+      output_tokens: z.number().int().min(0).default(0),
+      cache_read_tokens: z.number().int().min(0).default(0),
+      cache_write_tokens: z.number().int().min(0).default(0),
+    })
+    .optional(),
+  /** Thrown after the content and thinking were streamed */
+  error: z.string().optional(),
+  /** Milliseconds to wait before the response starts */
+  delay: z.number().min(0).optional(),
+});
+
+const MockScriptSchema = z.object({
+  /** Characters per streamed chunk */
+  chunkSize: z.number().int().min(1).default(16),
+  responses: z.array(MockResponseSchema).min(1),
+});
+
+export type MockResponse = z.input<typeof MockResponseSchema>;
+export type MockScript = z.input<typeof MockScriptSchema>;
+
+/**
+ * Parse and validate a mock script.
+ *
+ * @throws Error describing the first invalid field
+ */
+export function parseMockScript(
+  value: unknown
+): z.infer<typeof MockScriptSchema> {
+  const parsed = MockScriptSchema.safeParse(value);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(
+      `Invalid mock script at ${issue.path.join('.') || '(root)'}: ${issue.message}`
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Load a mock script from a YAML or JSON file.
+ *
+ * @throws Error if the file is missing or invalid
+ */
+export function loadMockScript(filePath: string): MockScript {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Mock script not found: ${resolved}`);
+  }
+  return parseMockScript(yaml.parse(fs.readFileSync(resolved, 'utf8')));
+}
+
+function splitIntoChunks(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    chunks.push(text.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Wait, resolving early when the signal fires.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * LLM client replaying a scripted sequence of responses.
+ *
+ * Every request consumes the next response of the script, which is streamed
+ * in small chunks like a real provider would. Used for offline tests and
+ * demos; `apiBase` is the path of the script file.
+ */
+export class MockClient extends LLMClientBase {
+  private script: z.infer<typeof MockScriptSchema>;
+  private next = 0;
+
+  /** Messages of every request, in order */
+  public requests: Message[][] = [];
+
+  constructor(
+    apiKey: string,
+    apiBase: string,
+    model: string,
+    retryConfig: RetryConfig,
+    script?: MockScript
+  ) {
+    super(apiKey, apiBase, model, retryConfig);
+    this.script = parseMockScript(script ?? loadMockScript(apiBase));
+  }
+
+  protected override convertMessages(
+    messages: Message[]
+  ): [string | null, Message[]] {
+    const system = messages.find((msg) => msg.role === 'system');
+    return [
+      system?.content ?? null,
+      messages.filter((msg) => msg.role !== 'system'),
+    ];
+  }
+
+  public override prepareRequest(
+    messages: Message[],
+    tools?: Tool[] | null
+  ): Record<string, unknown> {
+    const [system, apiMessages] = this.convertMessages(messages);
+    return {
+      system,
+      messages: apiMessages,
+      tools: tools?.map((tool) => tool.name) ?? [],
+    };
+  }
+
+  public override async *generateStream(
+    messages: Message[],
+    _tools?: Tool[] | null,
+    signal?: AbortSignal
+  ): AsyncGenerator<LLMStreamChunk> {
+    const index = this.next;
+    const response = this.script.responses[index];
+    if (!response) {
+      throw new Error(
+        `Mock script exhausted: all ${this.script.responses.length} responses were used`
+      );
+    }
+    this.next++;
+    this.requests.push([...messages]);
+    Logger.debug('MOCK', `Replaying response ${index + 1}`);
+
+    if (response.delay) {
+      await sleep(response.delay, signal);
+    }
+
+    const { chunkSize } = this.script;
+    for (const [field, text] of [
+      ['thinking', response.thinking],
+      ['content', response.content],
+    ] as const) {
+      for (const piece of splitIntoChunks(text ?? '', chunkSize)) {
+        if (signal?.aborted) {
+          throw new Error('Request was aborted');
+        }
+        yield { [field]: piece, done: false };
+      }
+    }
+    if (signal?.aborted) {
+      throw new Error('Request was aborted');
+    }
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    const toolCalls: ToolCall[] | undefined = response.tool_calls?.map(
+      (call, i) => ({
+        id: call.id ?? `call_${index + 1}_${i + 1}`,
+        type: 'function',
+        function: {
+          name: call.name,
+          ...(typeof call.arguments === 'string'
+            ? this.parseToolArguments(call.arguments)
+            : { arguments: call.arguments }),
+        },
+      })
+    );
+    const usage: TokenUsage | undefined = response.usage;
+    yield {
+      tool_calls: toolCalls?.length ? toolCalls : undefined,
+      usage,
+      finish_reason: toolCalls?.length ? 'tool_calls' : 'stop',
+      done: true,
+    };
+  }
+}
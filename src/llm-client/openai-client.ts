@@ -1,10 +1,33 @@
 import OpenAI from 'openai';
-import type { Message, LLMStreamChunk, ToolCall } from '../schema/index.js';
+import type {
+  ContentBlock,
+  Message,
+  LLMStreamChunk,
+  TokenUsage,
+  ToolCall,
+} from '../schema/index.js';
 import type { Tool } from '../tools/index.js';
 import { LLMClientBase } from './llm-client-base.js';
 import type { RetryConfig } from '../config.js';
 import { Logger, sdkLoggerAdapter } from '../util/logger.js';
 
+/**
+ * Convert a user content block (Anthropic format) to an OpenAI content part;
+ * base64 images become data URLs.
+ */
+function toOpenAIContentPart(block: ContentBlock): Record<string, unknown> {
+  const source = block['source'] as
+    | { type?: string; media_type?: string; data?: string }
+    | undefined;
+  if (block.type === 'image' && source?.type === 'base64') {
+    return {
+      type: 'image_url',
+      image_url: { url: `data:${source.media_type};base64,${source.data}` },
+    };
+  }
+  return block;
+}
+
 /**
  * LLM client using OpenAI's protocol.
  *
@@ -46,7 +69,13 @@ export class OpenAIClient extends LLMClientBase {
         apiMessages.push({ role: 'system', content: msg.content });
         continue;
       } else if (msg.role === 'user') {
-        apiMessages.push({ role: 'user', content: msg.content });
+        apiMessages.push({
+          role: 'user',
+          content:
+            typeof msg.content === 'string'
+              ? msg.content
+              : msg.content.map(toOpenAIContentPart),
+        });
       } else if (msg.role === 'assistant') {
         const assistantMsg: Record<string, unknown> = {
           role: 'assistant',
@@ -131,11 +160,13 @@ export class OpenAIClient extends LLMClientBase {
    *
    * @param messages - Array of message objects representing the conversation history
    * @param tools - Optional list of available tools for the LLM to call
+   * @param signal - Optional signal to abort the request
    * @returns An async generator yielding LLMStreamChunk objects with streaming response data
    */
   public override async *generateStream(
     messages: Message[],
-    tools?: Tool[] | null
+    tools?: Tool[] | null,
+    signal?: AbortSignal
   ): AsyncGenerator<LLMStreamChunk> {
     const requestParams = this.prepareRequest(messages, tools);
     const apiMessages = requestParams[
@@ -154,6 +185,8 @@ export class OpenAIClient extends LLMClientBase {
             model: this.model,
             messages: apiMessages,
             stream: true,
+            // Adds a final chunk with the token usage of the request
+            stream_options: { include_usage: true },
           };
         if (toolSchemas && toolSchemas.length > 0) {
           (params as any).tools = toolSchemas;
@@ -165,7 +198,9 @@ export class OpenAIClient extends LLMClientBase {
     // Create stream request (retry is handled by OpenAI SDK)
     const params = buildParams();
     Logger.logLLMRequest(params);
-    const stream = await this.client.chat.completions.create(params);
+    const stream = await this.client.chat.completions.create(params, {
+      signal,
+    });
 
     // Accumulate tool_calls from streaming chunks (like Python does)
     const toolCallAcc = new Map<
@@ -182,6 +217,7 @@ export class OpenAIClient extends LLMClientBase {
     let fullThinking = '';
     let finalFinishReason: string | undefined;
     let finalToolCalls: ToolCall[] | undefined;
+    let usage: TokenUsage | undefined;
     let chunkCount = 0;
 
     for await (const chunk of stream) {
@@ -190,6 +226,17 @@ export class OpenAIClient extends LLMClientBase {
 
       chunkCount++;
 
+      // The usage chunk arrives last, without choices
+      if (chunk.usage) {
+        const cached = chunk.usage.prompt_tokens_details?.cached_tokens ?? 0;
+        usage = {
+          input_tokens: chunk.usage.prompt_tokens - cached,
+          output_tokens: chunk.usage.completion_tokens,
+          cache_read_tokens: cached,
+          cache_write_tokens: 0,
+        };
+      }
+
       // Accumulate content
       if (delta?.content) {
         fullContent += delta.content;
@@ -232,24 +279,14 @@ export class OpenAIClient extends LLMClientBase {
 
       // Build final tool_calls when stream is done
       if (finishReason && toolCallAcc.size > 0) {
-        finalToolCalls = Array.from(toolCallAcc.values()).map((call) => {
-          let parsedArgs: Record<string, unknown> = {};
-          if (call.argumentsText) {
-            try {
-              parsedArgs = JSON.parse(call.argumentsText);
-            } catch {
-              parsedArgs = {};
-            }
-          }
-          return {
-            id: call.id || '',
-            type: call.type || 'function',
-            function: {
-              name: call.name || '',
-              arguments: parsedArgs,
-            },
-          };
-        });
+        finalToolCalls = Array.from(toolCallAcc.values()).map((call) => ({
+          id: call.id || '',
+          type: call.type || 'function',
+          function: {
+            name: call.name || '',
+            ...this.parseToolArguments(call.argumentsText),
+          },
+        }));
       }
 
       yield {
@@ -258,6 +295,7 @@ export class OpenAIClient extends LLMClientBase {
         tool_calls: finalToolCalls,
         done: finishReason !== null && finishReason !== undefined,
         finish_reason: finishReason || undefined,
+        usage: chunk.usage ? usage : undefined,
       };
     }
 
@@ -268,6 +306,7 @@ export class OpenAIClient extends LLMClientBase {
       tool_calls: finalToolCalls || null,
       finishReason: finalFinishReason,
       chunkCount: chunkCount,
+      usage,
     };
     Logger.logLLMResponse(fullResponse);
   }
@@ -0,0 +1,5 @@
+/**
+ * Loop detection module
+ */
+
+export * from './loop-detector.js';
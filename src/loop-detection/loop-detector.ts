@@ -0,0 +1,100 @@
+/**
+ * Loop Detector - Notice when the model keeps repeating the same tool call
+ *
+ * A call is fingerprinted by tool name, arguments and result, so rerunning a
+ * command after the workspace changed is not a repeat; reading the same file
+ * again and again, or rerunning the same failing command, is.
+ */
+
+import { createHash } from 'node:crypto';
+import type { LoopDetectionConfig } from '../config.js';
+import type { ToolCall } from '../schema/index.js';
+import type { ToolResult } from '../tools/base.js';
+
+export type LoopCheck =
+  | { status: 'ok' }
+  | { status: 'warn' | 'stop'; toolName: string; count: number };
+
+/**
+ * Serialize a value with sorted object keys, so argument order is ignored.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Fingerprint of a tool call and its result.
+ */
+export function fingerprintToolCall(
+  toolCall: ToolCall,
+  result: ToolResult
+): string {
+  return createHash('sha256')
+    .update(toolCall.function.name)
+    .update('\0')
+    .update(stableStringify(toolCall.function.arguments ?? {}))
+    .update('\0')
+    .update(stableStringify([result.success, result.content, result.error]))
+    .digest('hex');
+}
+
+/**
+ * Corrective note added to the result of a repeated call.
+ */
+export function loopWarning(toolName: string, count: number): string {
+  return `[System note] You have called \`${toolName}\` ${count} times with the same arguments and got the same result each time. Repeating it will not change the outcome. Use the result you already have, try a different approach, or tell the user what is blocking you.`;
+}
+
+/**
+ * LoopDetector
+ *
+ * Counts identical calls among the most recent tool calls of a run. The
+ * model is warned once a call repeats `warnThreshold` times and the run is
+ * stopped at `stopThreshold` repeats.
+ */
+export class LoopDetector {
+  private recent: string[] = [];
+
+  constructor(public config: LoopDetectionConfig) {}
+
+  /**
+   * Forget the calls of the previous run.
+   */
+  reset(): void {
+    this.recent = [];
+  }
+
+  /**
+   * Record one executed tool call.
+   */
+  record(toolCall: ToolCall, result: ToolResult): LoopCheck {
+    if (!this.config.enabled) {
+      return { status: 'ok' };
+    }
+
+    const fingerprint = fingerprintToolCall(toolCall, result);
+    this.recent.push(fingerprint);
+    if (this.recent.length > this.config.window) {
+      this.recent.shift();
+    }
+
+    const count = this.recent.filter((item) => item === fingerprint).length;
+    const toolName = toolCall.function.name;
+    if (count >= this.config.stopThreshold) {
+      return { status: 'stop', toolName, count };
+    }
+    if (count >= this.config.warnThreshold) {
+      return { status: 'warn', toolName, count };
+    }
+    return { status: 'ok' };
+  }
+}
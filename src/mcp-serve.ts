@@ -0,0 +1,190 @@
+/**
+ * MCP server mode - Offer the built-in tools, skills and the agent itself
+ * to other MCP hosts
+ *
+ * Used by `mini-agent-ts mcp-serve`, over stdio (the host starts it as a
+ * subprocess) or streamable HTTP at `/mcp`. The exposed tools are the
+ * built-in ones (file tools, bash, skills) plus `agent_run`; tools of the
+ * configured MCP servers are only used by the agents `agent_run` starts.
+ *
+ * Calls from the host run through `Agent.executeTool` of a local agent, so
+ * they are validated and checked against the permission rules; nobody can
+ * approve a call here, so calls that would ask are denied unless a rule or
+ * `--permission-mode` allows them.
+ */
+
+import * as http from 'node:http';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import {
+  createAgentRuntime,
+  loadConfig,
+  loadConfiguredMcpTools,
+} from './bootstrap.js';
+import { AgentRunTool, createMcpServer } from './mcp-server/index.js';
+import type { PermissionMode } from './permissions/index.js';
+import {
+  allowedHostsFor,
+  checkRequestOrigin,
+  generateToken,
+  hasValidToken,
+} from './server/index.js';
+import { cleanupMcpConnections } from './tools/index.js';
+
+export type McpTransport = 'stdio' | 'http';
+
+export const MCP_TRANSPORTS: readonly McpTransport[] = ['stdio', 'http'];
+
+export const DEFAULT_MCP_PORT = 4318;
+
+/** Tools that only make sense inside the agent's own loop */
+const AGENT_ONLY_TOOLS = new Set(['task', 'todo_write', 'exit_plan_mode']);
+
+export interface McpServeOptions {
+  transport: McpTransport;
+  workspaceDir: string;
+  version: string;
+  /** Port and address of the HTTP transport */
+  port: number;
+  host: string;
+  /** Bearer token clients of the HTTP transport must send (generated when omitted) */
+  token?: string;
+  /** Permission mode of the tool calls and of the agents `agent_run` starts */
+  permissionMode?: PermissionMode;
+}
+
+/**
+ * Wait for SIGINT or SIGTERM.
+ */
+function waitForSignal(): Promise<void> {
+  return new Promise((resolve) => {
+    process.once('SIGINT', () => resolve());
+    process.once('SIGTERM', () => resolve());
+  });
+}
+
+/**
+ * Serve until the host disconnects (stdio) or a signal arrives (HTTP).
+ *
+ * @throws Error if the server cannot start
+ */
+export async function runMcpServe(options: McpServeOptions): Promise<void> {
+  if (options.transport === 'stdio') {
+    // Keep stdout clean for the protocol: all progress output goes to stderr
+    console.log = console.error;
+    console.info = console.error;
+  }
+
+  const { config } = loadConfig();
+  const { workspaceDir, permissionMode } = options;
+  // The exposed tools run as the host calls them, without MCP proxies
+  const runtime = await createAgentRuntime(config, {
+    workspaceDir,
+    permissionMode,
+    mcpTools: [],
+  });
+  const mcpTools = await loadConfiguredMcpTools(config);
+  const agentRun = new AgentRunTool(
+    async () =>
+      (
+        await createAgentRuntime(config, {
+          workspaceDir,
+          permissionMode,
+          mcpTools,
+        })
+      ).agent
+  );
+  runtime.agent.registerTool(agentRun);
+  const tools = runtime.agent
+    .listTools()
+    .filter((tool) => !AGENT_ONLY_TOOLS.has(tool.name));
+  const createServer = () =>
+    createMcpServer({
+      tools,
+      execute: (name, params, executeOptions) =>
+        runtime.agent.executeTool(name, params, executeOptions),
+      skills: runtime.skills,
+      version: options.version,
+    });
+
+  try {
+    if (options.transport === 'stdio') {
+      const server = createServer();
+      await server.connect(new StdioServerTransport());
+      console.log(`✅ Serving ${tools.length} tools over MCP (stdio)`);
+      await Promise.race([
+        new Promise<void>((resolve) => process.stdin.once('end', resolve)),
+        waitForSignal(),
+      ]);
+      await server.close();
+      return;
+    }
+
+    const token = options.token ?? generateToken();
+    const allowedHosts = allowedHostsFor(options.host, options.port);
+    const refuse = (
+      res: http.ServerResponse,
+      status: number,
+      error: string
+    ): void => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error }));
+    };
+
+    // Stateless streamable HTTP: one server and transport per request
+    const httpServer = http.createServer((req, res) => {
+      const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+      if (pathname !== '/mcp') {
+        res.writeHead(404).end();
+        return;
+      }
+      const refused = checkRequestOrigin(req, allowedHosts);
+      if (refused) {
+        refuse(res, 403, refused);
+        return;
+      }
+      if (!hasValidToken(req, token)) {
+        refuse(res, 401, 'Missing or invalid bearer token');
+        return;
+      }
+
+      const server = createServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+      });
+      res.on('close', () => {
+        void transport.close();
+        void server.close();
+      });
+      server
+        .connect(transport)
+        .then(() => transport.handleRequest(req, res))
+        .catch((error: unknown) => {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          console.error(`❌ MCP request failed: ${message}`);
+          if (!res.headersSent) {
+            res.writeHead(500).end();
+          }
+        });
+    });
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(options.port, options.host, resolve);
+    });
+    console.log(
+      `✅ Serving ${tools.length} tools over MCP at http://${options.host}:${options.port}/mcp`
+    );
+    if (!options.token) {
+      console.log(`🔑 Token (set --token to choose one): ${token}`);
+    }
+    await waitForSignal();
+    console.log('\nShutting down...');
+    await new Promise<void>((resolve) => {
+      httpServer.close(() => resolve());
+      httpServer.closeAllConnections();
+    });
+  } finally {
+    await cleanupMcpConnections();
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * AgentRunTool - Run a complete agent task for an MCP host
+ */
+
+import type { Agent } from '../agent.js';
+import type { AgentRunStatus } from '../schema/index.js';
+import type {
+  Tool,
+  ToolExecuteOptions,
+  ToolInput,
+  ToolResult,
+} from '../tools/base.js';
+
+type AgentRunInput = {
+  task: string;
+};
+
+/**
+ * AgentRunTool
+ *
+ * Every call runs a fresh `Agent` (with its own message history) on the
+ * task and returns its final answer, so an MCP host can delegate whole
+ * tasks instead of driving the tools itself.
+ */
+export class AgentRunTool implements Tool<AgentRunInput> {
+  public name = 'agent_run';
+  public description =
+    'Run a complete task with the mini-agent-ts agent, which reads, edits and runs commands in its workspace on its own. The agent cannot see this conversation, so the task must contain everything it needs. Returns its final answer.';
+  public concurrencySafe = true;
+  /** The agent it starts checks the permissions of its own tool calls */
+  public managesPermissions = true;
+  public parameters = {
+    type: 'object',
+    properties: {
+      task: {
+        type: 'string',
+        description:
+          'Complete instructions for the agent, including what to report back',
+      },
+    },
+    required: ['task'],
+  };
+
+  /**
+   * @param createAgent - Builds the agent of one call
+   */
+  constructor(private createAgent: () => Promise<Agent>) {}
+
+  async execute(
+    params: AgentRunInput | ToolInput,
+    options: ToolExecuteOptions = {}
+  ): Promise<ToolResult> {
+    const { task } = params as AgentRunInput;
+    if (typeof task !== 'string' || !task.trim()) {
+      return {
+        success: false,
+        content: '',
+        error: 'Missing required parameter: task',
+      };
+    }
+
+    const agent = await this.createAgent();
+    let status = 'completed' as AgentRunStatus;
+    agent.subscribe((event) => {
+      if (event.type === 'run_end') {
+        status = event.status;
+      }
+      options.onEvent?.(event);
+    });
+
+    agent.addUserMessage(task);
+    const answer = await agent.run({ signal: options.signal });
+
+    // On a limit the answer holds the agent's progress summary
+    if (status !== 'completed') {
+      return { success: false, content: '', error: answer };
+    }
+    return { success: true, content: answer || '(no output)' };
+  }
+}
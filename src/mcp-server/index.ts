@@ -0,0 +1,6 @@
+/**
+ * MCP server module
+ */
+
+export * from './agent-run-tool.js';
+export * from './mcp-server.js';
@@ -0,0 +1,161 @@
+/**
+ * MCP Server - Expose tools and skills to other MCP hosts
+ *
+ * Tools are listed with their JSON schemas and run through `execute`, which
+ * `mcp-serve` points at `Agent.executeTool` so calls from the host get the
+ * same argument validation, hooks and permission checks as the agent's own
+ * calls. Skills are offered both as prompts
+ * (`name`, with an optional `task` argument) and as `skill://<name>`
+ * resources.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { formatSkillAsPrompt, type Skill } from '../skills/index.js';
+import type { Tool, ToolExecuteOptions, ToolResult } from '../tools/index.js';
+
+const SKILL_URI_PREFIX = 'skill://';
+
+/**
+ * Runs a call of one of the offered tools.
+ */
+export type McpToolExecutor = (
+  name: string,
+  params: Record<string, unknown>,
+  options: ToolExecuteOptions
+) => Promise<ToolResult>;
+
+export interface McpServerOptions {
+  /** Tools offered to the host */
+  tools: Tool[];
+  /** Runs the calls of the offered tools */
+  execute: McpToolExecutor;
+  /** Skills offered as prompts and resources */
+  skills?: Skill[];
+  version: string;
+}
+
+/**
+ * Build an MCP server; connect it to a transport to serve it.
+ */
+export function createMcpServer(options: McpServerOptions): Server {
+  const tools = new Map(options.tools.map((tool) => [tool.name, tool]));
+  const skills = new Map(
+    (options.skills ?? []).map((skill) => [skill.name, skill])
+  );
+
+  const server = new Server(
+    { name: 'mini-agent-ts', version: options.version },
+    { capabilities: { tools: {}, prompts: {}, resources: {} } }
+  );
+
+  const findSkill = (name: string): Skill => {
+    const skill = skills.get(name);
+    if (!skill) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown skill: ${name}`);
+    }
+    return skill;
+  };
+
+  // ============ Tools ============
+
+  server.setRequestHandler(ListToolsRequestSchema, () => ({
+    tools: [...tools.values()].map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: { type: 'object' as const, ...tool.parameters },
+      annotations: { readOnlyHint: tool.readOnly ?? false },
+    })),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name } = request.params;
+    if (!tools.has(name)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+
+    try {
+      const result = await options.execute(
+        name,
+        request.params.arguments ?? {},
+        { signal: extra.signal }
+      );
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: result.success
+              ? result.content
+              : `Error: ${result.error ?? 'Unknown error'}`,
+          },
+        ],
+        isError: !result.success,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: 'text' as const, text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  });
+
+  // ============ Skills ============
+
+  server.setRequestHandler(ListPromptsRequestSchema, () => ({
+    prompts: [...skills.values()].map((skill) => ({
+      name: skill.name,
+      description: skill.description,
+      arguments: [
+        {
+          name: 'task',
+          description: 'Task to apply the skill to',
+          required: false,
+        },
+      ],
+    })),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, (request) => {
+    const skill = findSkill(request.params.name);
+    const task = request.params.arguments?.['task'];
+    const text = task
+      ? `${formatSkillAsPrompt(skill)}\n\n---\n\nTask: ${task}`
+      : formatSkillAsPrompt(skill);
+    return {
+      description: skill.description,
+      messages: [{ role: 'user' as const, content: { type: 'text', text } }],
+    };
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, () => ({
+    resources: [...skills.values()].map((skill) => ({
+      uri: `${SKILL_URI_PREFIX}${skill.name}`,
+      name: skill.name,
+      description: skill.description,
+      mimeType: 'text/markdown',
+    })),
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, (request) => {
+    const { uri } = request.params;
+    if (!uri.startsWith(SKILL_URI_PREFIX)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+    const skill = findSkill(uri.slice(SKILL_URI_PREFIX.length));
+    return {
+      contents: [{ uri, mimeType: 'text/markdown', text: skill.content }],
+    };
+  });
+
+  return server;
+}
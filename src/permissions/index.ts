@@ -0,0 +1,8 @@
+/**
+ * Permissions module
+ */
+
+export * from './types.js';
+export * from './rules.js';
+export * from './project-settings.js';
+export * from './permission-manager.js';
@@ -0,0 +1,195 @@
+/**
+ * Permission Manager - Decide whether a tool call may run
+ */
+
+import type { PermissionsConfig } from '../config.js';
+import type { Tool, ToolInput } from '../tools/base.js';
+import { Logger } from '../util/logger.js';
+import type { ProjectSettings } from './project-settings.js';
+import { matchesRule, parseRule, suggestRule } from './rules.js';
+import {
+  PERMISSION_MODES,
+  type PermissionDecision,
+  type PermissionMode,
+  type PermissionPrompt,
+  type PermissionRule,
+} from './types.js';
+
+/**
+ * Tools auto-approved in `acceptEdits` mode.
+ */
+const EDIT_TOOLS = new Set(['write_file', 'edit_file']);
+
+export interface PermissionManagerOptions {
+  workspaceDir: string;
+  mode?: PermissionMode;
+  allow?: string[];
+  deny?: string[];
+  /** Asks the user; without it, calls that need approval are denied */
+  prompt?: PermissionPrompt;
+}
+
+/**
+ * PermissionManager
+ *
+ * Checks each tool call in this order:
+ * 1. `deny` rules - always win, even in `bypass` mode
+ * 2. `bypass` mode, read-only tools, `allow` and session rules - allowed
+ * 3. File edits in `acceptEdits` mode - allowed
+ * 4. Everything else - the user is asked
+ */
+export class PermissionManager {
+  public mode: PermissionMode;
+  public readonly workspaceDir: string;
+  public prompt: PermissionPrompt | undefined;
+
+  private allowRules: PermissionRule[];
+  private denyRules: PermissionRule[];
+  private sessionRules: PermissionRule[] = [];
+  // Prompts are shown one at a time, even for calls running in parallel
+  private promptQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: PermissionManagerOptions) {
+    this.workspaceDir = options.workspaceDir;
+    this.mode = options.mode ?? 'default';
+    this.prompt = options.prompt;
+    this.allowRules = (options.allow ?? []).map(parseRule);
+    this.denyRules = (options.deny ?? []).map(parseRule);
+  }
+
+  /**
+   * Build a manager from the config.yaml section and the project settings.
+   * The project file comes with the workspace, which may not be trusted:
+   * its deny rules are added to the config rules, but its allow rules are
+   * ignored and its mode only applies when it is more restrictive than the
+   * configured one.
+   */
+  static fromConfig(
+    config: PermissionsConfig,
+    workspaceDir: string,
+    project?: ProjectSettings['permissions'] | null
+  ): PermissionManager {
+    return new PermissionManager({
+      workspaceDir,
+      mode: PermissionManager.mostRestrictive(config.mode, project?.mode),
+      allow: config.allow,
+      deny: [...config.deny, ...(project?.deny ?? [])],
+    });
+  }
+
+  private static mostRestrictive(
+    mode: PermissionMode,
+    other: PermissionMode | undefined
+  ): PermissionMode {
+    return other &&
+      PERMISSION_MODES.indexOf(other) < PERMISSION_MODES.indexOf(mode)
+      ? other
+      : mode;
+  }
+
+  /**
+   * Rules added with "allow always" during this session.
+   */
+  getSessionRules(): string[] {
+    return this.sessionRules.map((rule) => rule.source);
+  }
+
+  addSessionRule(source: string): void {
+    this.sessionRules.push(parseRule(source));
+  }
+
+  private findRule(
+    rules: PermissionRule[],
+    toolName: string,
+    params: ToolInput,
+    deny = false
+  ): PermissionRule | undefined {
+    return rules.find((rule) =>
+      matchesRule(rule, toolName, params, this.workspaceDir, deny)
+    );
+  }
+
+  /**
+   * Decide whether a tool call may run, asking the user if needed.
+   */
+  async check(
+    tool: Tool,
+    params: ToolInput,
+    toolCallId?: string
+  ): Promise<PermissionDecision> {
+    const denyRule = this.findRule(this.denyRules, tool.name, params, true);
+    if (denyRule) {
+      return {
+        behavior: 'deny',
+        reason: `Blocked by permission rule ${denyRule.source}`,
+      };
+    }
+
+    if (
+      this.mode === 'bypass' ||
+      tool.readOnly ||
+      this.findRule(this.allowRules, tool.name, params) ||
+      this.findRule(this.sessionRules, tool.name, params)
+    ) {
+      return { behavior: 'allow' };
+    }
+
+    if (this.mode === 'acceptEdits' && EDIT_TOOLS.has(tool.name)) {
+      return { behavior: 'allow' };
+    }
+
+    const ask = (): Promise<PermissionDecision> =>
+      this.askUser(tool.name, params, toolCallId);
+    const decision = this.promptQueue.then(ask, ask);
+    this.promptQueue = decision;
+    return decision;
+  }
+
+  private async askUser(
+    toolName: string,
+    params: ToolInput,
+    toolCallId?: string
+  ): Promise<PermissionDecision> {
+    // An earlier answer in the queue may already cover this call
+    if (this.findRule(this.sessionRules, toolName, params)) {
+      return { behavior: 'allow' };
+    }
+
+    if (!this.prompt) {
+      return {
+        behavior: 'deny',
+        reason: `${toolName} requires approval, but no one is available to approve it`,
+      };
+    }
+
+    const suggestedRule = suggestRule(toolName, params, this.workspaceDir);
+    let answer;
+    try {
+      answer = await this.prompt({
+        toolName,
+        params,
+        suggestedRule,
+        toolCallId,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { behavior: 'deny', reason: `Approval was not given: ${message}` };
+    }
+
+    Logger.log('PERMISSION', `${toolName}: ${answer.choice}`, params);
+    switch (answer.choice) {
+      case 'allow_always':
+        this.addSessionRule(suggestedRule);
+        return { behavior: 'allow' };
+      case 'allow_once':
+        return { behavior: 'allow' };
+      case 'deny':
+        return {
+          behavior: 'deny',
+          reason: answer.reason
+            ? `The user denied this action: ${answer.reason}`
+            : 'The user denied this action',
+        };
+    }
+  }
+}
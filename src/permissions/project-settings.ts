@@ -0,0 +1,46 @@
+/**
+ * Project settings - Per-workspace overrides in `.mini-agent/settings.json`
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { z } from 'zod';
+
+export const PROJECT_SETTINGS_PATH = path.join('.mini-agent', 'settings.json');
+
+const ProjectSettingsSchema = z.object({
+  permissions: z
+    .object({
+      mode: z.enum(['default', 'acceptEdits', 'bypass']).optional(),
+      allow: z.array(z.string()).default([]),
+      deny: z.array(z.string()).default([]),
+    })
+    .default({ allow: [], deny: [] }),
+});
+
+export type ProjectSettings = z.infer<typeof ProjectSettingsSchema>;
+
+/**
+ * Load `<workspace>/.mini-agent/settings.json`.
+ *
+ * @returns The parsed settings, or null if the file does not exist
+ * @throws Error if the file is not valid JSON or has an invalid schema
+ */
+export function loadProjectSettings(
+  workspaceDir: string
+): ProjectSettings | null {
+  const settingsPath = path.join(workspaceDir, PROJECT_SETTINGS_PATH);
+  if (!fs.existsSync(settingsPath)) {
+    return null;
+  }
+
+  const content = fs.readFileSync(settingsPath, 'utf8');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid JSON in ${settingsPath}: ${message}`);
+  }
+  return ProjectSettingsSchema.parse(raw);
+}
@@ -0,0 +1,187 @@
+/**
+ * Permission rule parsing and matching
+ */
+
+import * as path from 'node:path';
+import type { ToolInput } from '../tools/base.js';
+import type { PermissionRule } from './types.js';
+
+const RULE_RE = /^([A-Za-z0-9_.-]+)(?:\((.*)\))?$/s;
+
+// Separators of the commands in a command list or pipeline
+const COMMAND_SEPARATOR_RE = /&&|\|\||[;|&\n]/;
+
+// Command and process substitution, subshells and redirections, which can
+// run or write anything whatever the command they appear in
+const SUBSTITUTION_RE = /\$\(|`|[()<>]/;
+
+/**
+ * Parse a rule string like `bash(git status:*)`.
+ *
+ * @throws Error if the rule is malformed
+ */
+export function parseRule(source: string): PermissionRule {
+  const match = RULE_RE.exec(source.trim());
+  if (!match) {
+    throw new Error(`Invalid permission rule: ${source}`);
+  }
+  const pattern = match[2]?.trim();
+  return {
+    source,
+    toolName: match[1] ?? '',
+    pattern: pattern ? pattern : null,
+  };
+}
+
+/**
+ * Convert a glob (`*`, `**`, `?`) into an anchored regular expression.
+ * `*` does not cross `/`, `**` does; `\` matches the next character
+ * literally.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i] ?? '';
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` also matches zero directories
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += (glob[i + 1] ?? '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      i += 1;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * Pick the value a rule pattern is matched against:
+ * the command for shell tools, the path for file tools.
+ */
+function getMatchTarget(
+  params: ToolInput,
+  workspaceDir: string
+): { kind: 'command' | 'path'; value: string } | null {
+  const command = params['command'];
+  if (typeof command === 'string') {
+    return { kind: 'command', value: command.trim() };
+  }
+
+  const targetPath = params['path'];
+  if (typeof targetPath === 'string') {
+    const absolute = path.resolve(workspaceDir, targetPath);
+    const relative = path.relative(workspaceDir, absolute);
+    const insideWorkspace =
+      relative !== '' &&
+      !relative.startsWith('..') &&
+      !path.isAbsolute(relative);
+    return {
+      kind: 'path',
+      value: (insideWorkspace ? relative : absolute).split(path.sep).join('/'),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Escape the glob characters of a literal value.
+ */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?\\]/g, '\\$&');
+}
+
+/**
+ * Check one command of a list or pipeline against a command pattern.
+ */
+function matchesCommand(pattern: string, command: string): boolean {
+  if (pattern.endsWith(':*')) {
+    const prefix = pattern.slice(0, -2).trim();
+    return command === prefix || command.startsWith(`${prefix} `);
+  }
+  return globToRegExp(pattern).test(command);
+}
+
+/**
+ * Check whether a rule covers a tool call.
+ *
+ * Command patterns ending in `:*` match by prefix (`git status:*` covers
+ * `git status -s`); other command patterns are globs. A pattern covers a
+ * command list or pipeline only if it covers every command in it, and
+ * never covers substitutions or redirections; a pattern without wildcards
+ * also covers exactly that command (as suggested by "allow always"). With
+ * `deny`, the rule applies when it matches any of the commands, including
+ * the ones inside substitutions. Path patterns are globs relative to the
+ * workspace.
+ *
+ * @param deny - Whether the rule is a deny rule
+ */
+export function matchesRule(
+  rule: PermissionRule,
+  toolName: string,
+  params: ToolInput,
+  workspaceDir: string,
+  deny = false
+): boolean {
+  if (rule.toolName !== toolName && rule.toolName !== '*') {
+    return false;
+  }
+  if (rule.pattern === null || rule.pattern === '*') {
+    return true;
+  }
+
+  const target = getMatchTarget(params, workspaceDir);
+  if (!target) {
+    return false;
+  }
+
+  if (target.kind === 'path') {
+    return globToRegExp(rule.pattern).test(target.value);
+  }
+
+  const pattern = rule.pattern;
+  if (deny) {
+    return [target.value, ...target.value.split(SUBSTITUTION_RE)]
+      .flatMap((part) => part.split(COMMAND_SEPARATOR_RE))
+      .some((command) => matchesCommand(pattern, command.trim()));
+  }
+  if (
+    !/(^|[^\\])[*?]/.test(pattern) &&
+    globToRegExp(pattern).test(target.value)
+  ) {
+    return true;
+  }
+  if (SUBSTITUTION_RE.test(target.value)) {
+    return false;
+  }
+  const commands = target.value
+    .split(COMMAND_SEPARATOR_RE)
+    .map((command) => command.trim())
+    .filter(Boolean);
+  return commands.every((command) => matchesCommand(pattern, command));
+}
+
+/**
+ * Suggest the rule "allow always" should add for a tool call.
+ */
+export function suggestRule(
+  toolName: string,
+  params: ToolInput,
+  workspaceDir: string
+): string {
+  const target = getMatchTarget(params, workspaceDir);
+  return target ? `${toolName}(${escapeGlob(target.value)})` : toolName;
+}
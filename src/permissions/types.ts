@@ -0,0 +1,56 @@
+/**
+ * Permission types and interfaces
+ */
+
+import type { ToolInput } from '../tools/base.js';
+
+/**
+ * How tool calls that are not covered by a rule are handled.
+ *
+ * - `default`: ask before every mutating tool call
+ * - `acceptEdits`: file edits run without asking, other mutating tools ask
+ * - `bypass`: everything runs without asking (deny rules still apply)
+ */
+export type PermissionMode = 'default' | 'acceptEdits' | 'bypass';
+
+/** From the most to the least restrictive */
+export const PERMISSION_MODES: readonly PermissionMode[] = [
+  'default',
+  'acceptEdits',
+  'bypass',
+];
+
+/**
+ * A parsed rule such as `bash(git status:*)` or `edit_file(src/**)`.
+ * A rule without parentheses (`read_file`) matches every call of the tool.
+ */
+export interface PermissionRule {
+  source: string;
+  toolName: string;
+  pattern: string | null;
+}
+
+export interface PermissionRequest {
+  toolName: string;
+  params: ToolInput;
+  /** Rule that "allow always" would add, e.g. `bash(npm test)` */
+  suggestedRule: string;
+  /** Id of the model's tool call, if the call comes from one */
+  toolCallId?: string;
+}
+
+export type PermissionChoice =
+  | { choice: 'allow_once' }
+  | { choice: 'allow_always' }
+  | { choice: 'deny'; reason?: string };
+
+/**
+ * Asks the user whether a tool call may run.
+ */
+export type PermissionPrompt = (
+  request: PermissionRequest
+) => Promise<PermissionChoice>;
+
+export type PermissionDecision =
+  | { behavior: 'allow' }
+  | { behavior: 'deny'; reason: string };
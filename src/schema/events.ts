@@ -0,0 +1,73 @@
+import type { Message, TokenUsage, ToolCall } from './schema.js';
+import type { ToolResult } from '../tools/base.js';
+import type { TodoItem } from '../tools/todo-tool.js';
+
+// ============ Agent Events ============
+
+/**
+ * Why a run ended.
+ */
+export type AgentRunStatus =
+  | 'completed'
+  | RunLimit
+  | 'interrupted'
+  | 'blocked'
+  | 'loop_detected'
+  | 'invalid_output';
+
+/**
+ * A per-run limit: steps, wall-clock time or tokens.
+ */
+export type RunLimit = 'max_steps' | 'time_limit' | 'token_budget';
+
+/**
+ * Events emitted by `Agent.run()` and related agent operations.
+ *
+ * Consumers (terminal renderer, session recorder, embedders) subscribe with
+ * `Agent.subscribe()` instead of reading console output.
+ */
+export type AgentEvent =
+  | {
+      type: 'step_start';
+      step: number;
+      /** Current step limit, null once the user lifted it */
+      maxSteps: number | null;
+    }
+  | { type: 'thinking_delta'; delta: string }
+  | { type: 'content_delta'; delta: string }
+  | { type: 'message'; message: Message }
+  | { type: 'tool_call_start'; toolCall: ToolCall }
+  | { type: 'tool_result'; toolCall: ToolCall; result: ToolResult }
+  | { type: 'step_end'; step: number }
+  | {
+      type: 'usage';
+      /** Usage of the request that just finished */
+      usage: TokenUsage;
+      /** Accumulated usage of the agent, sub-agents included */
+      total: TokenUsage;
+      /** Accumulated cost in USD, null without pricing */
+      cost: number | null;
+    }
+  | {
+      type: 'compaction';
+      summarizedCount: number;
+      tokensBefore: number;
+      tokensAfter: number;
+    }
+  | { type: 'compaction_failed'; error: string }
+  | { type: 'subagent'; toolCall: ToolCall; event: AgentEvent }
+  | { type: 'plan_mode'; enabled: boolean }
+  | { type: 'hook_error'; hookEvent: string; error: string }
+  | { type: 'limit_reached'; limit: RunLimit; steps: number }
+  | { type: 'loop_warning'; toolName: string; count: number }
+  | { type: 'todos'; todos: TodoItem[] }
+  | {
+      type: 'run_end';
+      status: AgentRunStatus;
+      content: string;
+      steps: number;
+    };
+
+export type AgentEventType = AgentEvent['type'];
+
+export type AgentEventListener = (event: AgentEvent) => void;
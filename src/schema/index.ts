@@ -3,6 +3,15 @@
 export {
   LLMProvider,
   type ToolCall,
+  type ContentBlock,
   type Message,
   type LLMStreamChunk,
+  type TokenUsage,
 } from './schema.js';
+export {
+  type AgentRunStatus,
+  type RunLimit,
+  type AgentEvent,
+  type AgentEventType,
+  type AgentEventListener,
+} from './events.js';
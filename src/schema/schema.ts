@@ -3,6 +3,8 @@
 export enum LLMProvider {
   ANTHROPIC = 'anthropic',
   OPENAI = 'openai',
+  /** Replays a scripted sequence of responses, for tests */
+  MOCK = 'mock',
 }
 
 // ============ Function Calling ============
@@ -10,6 +12,8 @@ export enum LLMProvider {
 interface FunctionCall {
   name: string;
   arguments: Record<string, unknown>;
+  /** Argument text that is not a JSON object; `arguments` is then empty */
+  invalid_arguments?: string;
 }
 
 export interface ToolCall {
@@ -33,6 +37,8 @@ export type Message =
       role: 'assistant';
       content?: string;
       thinking?: string;
+      // Provider signature of the thinking block (Anthropic), required to replay it
+      thinking_signature?: string;
       tool_calls?: ToolCall[];
     }
   | {
@@ -42,16 +48,37 @@ export type Message =
       tool_name?: string;
     };
 
-interface ContentBlock {
+/**
+ * Block of a user message in Anthropic's format, e.g.
+ * `{ type: 'text', text }` or
+ * `{ type: 'image', source: { type: 'base64', media_type, data } }`.
+ * Other providers convert the blocks they support.
+ */
+export interface ContentBlock {
   type: string;
   text?: string;
   [key: string]: unknown;
 }
 
+// ============ Usage ============
+
+/**
+ * Token counts reported by the provider for one request.
+ * `input_tokens` excludes tokens read from or written to the prompt cache.
+ */
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+}
+
 export interface LLMStreamChunk {
   content?: string;
   thinking?: string;
+  thinking_signature?: string;
   tool_calls?: ToolCall[];
   finish_reason?: string;
+  usage?: TokenUsage;
   done: boolean;
 }
@@ -0,0 +1,76 @@
+/**
+ * Server mode - Expose the agent over HTTP and Server-Sent Events
+ *
+ * Used by `mini-agent-ts serve`. Every session gets its own agent, built
+ * from the configuration like the REPL's; MCP servers are connected once
+ * and shared by all sessions.
+ */
+
+import {
+  createAgentRuntime,
+  loadConfig,
+  loadConfiguredMcpTools,
+} from './bootstrap.js';
+import type { PermissionMode } from './permissions/index.js';
+import { AgentServer, generateToken } from './server/index.js';
+import { cleanupMcpConnections } from './tools/index.js';
+
+export const DEFAULT_SERVER_PORT = 4317;
+export const DEFAULT_SERVER_HOST = '127.0.0.1';
+
+export interface ServeOptions {
+  port: number;
+  host: string;
+  /** Bearer token clients must send (generated when not given) */
+  token?: string;
+  /** Session workspaces are this directory or directories inside it */
+  rootDir: string;
+  permissionMode?: PermissionMode;
+}
+
+/**
+ * Start the server and serve until SIGINT or SIGTERM.
+ *
+ * @throws Error if the server cannot start
+ */
+export async function runServer(options: ServeOptions): Promise<void> {
+  const { config } = loadConfig();
+  const mcpTools = await loadConfiguredMcpTools(config);
+
+  const token = options.token ?? generateToken();
+  const server = new AgentServer({
+    rootDir: options.rootDir,
+    token,
+    createAgent: async (workspaceDir, sessionId) => {
+      const { agent } = await createAgentRuntime(config, {
+        workspaceDir,
+        permissionMode: options.permissionMode,
+        mcpTools,
+      });
+      if (agent.hooks) {
+        agent.hooks.sessionId = sessionId;
+      }
+      await agent.startSession('startup');
+      return agent;
+    },
+  });
+
+  try {
+    const address = await server.listen(options.port, options.host);
+    console.log(
+      `🌐 Serving ${options.rootDir} on http://${options.host}:${address.port}`
+    );
+    if (!options.token) {
+      console.log(`🔑 Token (set --token to choose one): ${token}`);
+    }
+
+    await new Promise<void>((resolve) => {
+      process.once('SIGINT', resolve);
+      process.once('SIGTERM', resolve);
+    });
+    console.log('\nShutting down...');
+  } finally {
+    await server.close();
+    await cleanupMcpConnections();
+  }
+}
@@ -0,0 +1,365 @@
+/**
+ * Agent Server - Drive agent sessions over HTTP
+ *
+ * Routes (JSON bodies sent as `application/json`; every route but `/health`
+ * needs the bearer token):
+ *
+ * - `GET    /health`                      liveness check
+ * - `GET    /sessions`                    list the sessions
+ * - `POST   /sessions`                    create one: `{ "workspace"?: "sub/dir" }`
+ * - `GET    /sessions/:id`                session info and message history
+ * - `DELETE /sessions/:id`                interrupt and drop a session
+ * - `POST   /sessions/:id/messages`       run a prompt: `{ "content": "..." }`
+ * - `POST   /sessions/:id/interrupt`      interrupt the current run
+ * - `GET    /sessions/:id/events`         Server-Sent Events of every run
+ *
+ * `POST /sessions/:id/messages` answers with the run result once it ends,
+ * or streams the run's events as SSE when the client accepts
+ * `text/event-stream`. A session runs one prompt at a time: while it is
+ * busy, further messages are rejected with `409 Conflict`.
+ *
+ * On a loopback address only loopback `Host` names are answered, and
+ * requests from another browser origin are refused (see `request-guard.ts`).
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import { Logger } from '../util/logger.js';
+import type { AgentEvent } from '../schema/index.js';
+import {
+  allowedHostsFor,
+  checkRequestOrigin,
+  hasValidToken,
+} from './request-guard.js';
+import { ServerSession } from './server-session.js';
+import type { AgentServerOptions, ServerSessionInfo } from './types.js';
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+/**
+ * An error answered with its own status code.
+ */
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Switch a response to Server-Sent Events.
+ */
+function startEventStream(res: http.ServerResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+}
+
+function writeEvent(res: http.ServerResponse, type: string, data: unknown) {
+  res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Read a JSON object body; an empty body is an empty object.
+ *
+ * @throws HttpError 415 for other content types (a cross-site form can
+ *   only send those), 413 when too large, 400 when not a JSON object
+ */
+async function readJsonBody(
+  req: http.IncomingMessage,
+  maxBytes: number
+): Promise<Record<string, unknown>> {
+  const contentType = (req.headers['content-type'] ?? '')
+    .split(';')[0]
+    .trim()
+    .toLowerCase();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk));
+    size += buffer.length;
+    if (size > maxBytes) {
+      throw new HttpError(413, `Request body is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8').trim();
+  if (!text) {
+    return {};
+  }
+  if (contentType !== 'application/json') {
+    throw new HttpError(415, 'Request body must be sent as application/json');
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  return value as Record<string, unknown>;
+}
+
+export class AgentServer {
+  private readonly server: http.Server;
+  private readonly sessions = new Map<string, ServerSession>();
+  private readonly rootDir: string;
+  private readonly maxBodyBytes: number;
+  private allowedHosts: string[] | null = null;
+
+  constructor(private readonly options: AgentServerOptions) {
+    this.rootDir = path.resolve(options.rootDir);
+    this.maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error: unknown) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        const message = error instanceof Error ? error.message : String(error);
+        if (status === 500) {
+          Logger.log('SERVER', `${req.method} ${req.url} failed`, message);
+        }
+        if (res.headersSent) {
+          res.end();
+        } else {
+          sendJson(res, status, { error: message });
+        }
+      });
+    });
+  }
+
+  /**
+   * Start listening.
+   *
+   * @returns The bound address (useful with port 0)
+   */
+  listen(port: number, host: string): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        const address = this.server.address() as AddressInfo;
+        this.allowedHosts = allowedHostsFor(host, address.port);
+        resolve(address);
+      });
+    });
+  }
+
+  /**
+   * Interrupt every run and stop the server, open event streams included.
+   */
+  async close(): Promise<void> {
+    for (const session of this.sessions.values()) {
+      session.interrupt();
+    }
+    this.sessions.clear();
+    await new Promise<void>((resolve) => {
+      this.server.close(() => resolve());
+      this.server.closeAllConnections();
+    });
+  }
+
+  listSessions(): ServerSessionInfo[] {
+    return [...this.sessions.values()].map((session) => session.info());
+  }
+
+  // ============ Routing ============
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const parts = url.pathname.split('/').filter(Boolean);
+    const method = req.method ?? 'GET';
+
+    const refused = checkRequestOrigin(req, this.allowedHosts);
+    if (refused) {
+      throw new HttpError(403, refused);
+    }
+
+    if (method === 'GET' && url.pathname === '/health') {
+      sendJson(res, 200, { status: 'ok' });
+      return;
+    }
+
+    this.authorize(req);
+
+    if (parts[0] !== 'sessions' || parts.length > 3) {
+      throw new HttpError(404, `Not found: ${url.pathname}`);
+    }
+
+    if (parts.length === 1) {
+      if (method === 'GET') {
+        sendJson(res, 200, { sessions: this.listSessions() });
+        return;
+      }
+      if (method === 'POST') {
+        const body = await readJsonBody(req, this.maxBodyBytes);
+        const session = await this.createSession(body['workspace']);
+        sendJson(res, 201, session.info());
+        return;
+      }
+      throw new HttpError(405, `Method not allowed: ${method}`);
+    }
+
+    const session = this.sessions.get(parts[1]);
+    if (!session) {
+      throw new HttpError(404, `Session not found: ${parts[1]}`);
+    }
+
+    const route = `${method} ${parts[2] ?? ''}`;
+    switch (route) {
+      case 'GET ':
+        sendJson(res, 200, {
+          ...session.info(),
+          messages: session.agent.messages.filter(
+            (msg) => msg.role !== 'system'
+          ),
+          todos: session.agent.todos,
+        });
+        return;
+
+      case 'DELETE ':
+        session.interrupt();
+        this.sessions.delete(session.id);
+        res.writeHead(204);
+        res.end();
+        return;
+
+      case 'POST messages':
+        await this.postMessage(session, req, res);
+        return;
+
+      case 'POST interrupt':
+        sendJson(res, 200, { interrupted: session.interrupt() });
+        return;
+
+      case 'GET events':
+        this.streamEvents(session, req, res);
+        return;
+
+      default:
+        throw new HttpError(404, `Not found: ${method} ${url.pathname}`);
+    }
+  }
+
+  /**
+   * @throws HttpError 401 if the token is missing or wrong
+   */
+  private authorize(req: http.IncomingMessage): void {
+    if (!hasValidToken(req, this.options.token)) {
+      throw new HttpError(401, 'Missing or invalid bearer token');
+    }
+  }
+
+  // ============ Handlers ============
+
+  private async createSession(workspace: unknown): Promise<ServerSession> {
+    if (workspace !== undefined && typeof workspace !== 'string') {
+      throw new HttpError(400, 'workspace must be a string');
+    }
+    const workspaceDir = path.resolve(this.rootDir, workspace ?? '.');
+    const relative = path.relative(this.rootDir, workspaceDir);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new HttpError(
+        400,
+        `Workspace must be inside the server root: ${this.rootDir}`
+      );
+    }
+    fs.mkdirSync(workspaceDir, { recursive: true });
+
+    const id = randomUUID();
+    const agent = await this.options.createAgent(workspaceDir, id);
+    const session = new ServerSession(id, workspaceDir, agent);
+    this.sessions.set(id, session);
+    Logger.log('SERVER', `Created session ${id} in ${workspaceDir}`);
+    return session;
+  }
+
+  private async postMessage(
+    session: ServerSession,
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const body = await readJsonBody(req, this.maxBodyBytes);
+    const content = body['content'];
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new HttpError(400, 'content must be a non-empty string');
+    }
+    if (session.busy) {
+      throw new HttpError(409, `Session ${session.id} is already running`);
+    }
+
+    // A client that goes away no longer wants the run
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        session.interrupt();
+      }
+    });
+
+    const streaming = (req.headers.accept ?? '').includes('text/event-stream');
+    if (!streaming) {
+      try {
+        sendJson(res, 200, await session.run(content));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new HttpError(502, message);
+      }
+      return;
+    }
+
+    startEventStream(res);
+    const unsubscribe = session.subscribe((event: AgentEvent) =>
+      writeEvent(res, event.type, event)
+    );
+    try {
+      writeEvent(res, 'result', await session.run(content));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      writeEvent(res, 'error', { error: message });
+    } finally {
+      unsubscribe();
+      res.end();
+    }
+  }
+
+  private streamEvents(
+    session: ServerSession,
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): void {
+    startEventStream(res);
+    writeEvent(res, 'session', session.info());
+    const unsubscribe = session.subscribe((event: AgentEvent) =>
+      writeEvent(res, event.type, event)
+    );
+    const heartbeat = setInterval(
+      () => res.write(': ping\n\n'),
+      HEARTBEAT_INTERVAL_MS
+    );
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  }
+}
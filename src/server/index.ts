@@ -0,0 +1,8 @@
+/**
+ * Server module
+ */
+
+export * from './types.js';
+export * from './request-guard.js';
+export * from './server-session.js';
+export * from './agent-server.js';
@@ -0,0 +1,76 @@
+/**
+ * Request Guard - Checks shared by the HTTP servers
+ *
+ * Every request needs the bearer token. On a loopback address the servers
+ * also only answer to loopback host names, and a request a browser sends
+ * from another origin is refused, so a web page cannot reach them through
+ * DNS rebinding or a cross-site form post.
+ */
+
+import type * as http from 'node:http';
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Whether an address only accepts local connections.
+ */
+export function isLoopback(host: string): boolean {
+  return ['127.0.0.1', '::1', 'localhost'].includes(host);
+}
+
+/**
+ * A random token for a server started without one.
+ */
+export function generateToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Check the bearer token of a request. `EventSource` cannot send headers,
+ * so the token is also accepted as the `token` query parameter.
+ */
+export function hasValidToken(
+  req: http.IncomingMessage,
+  token: string
+): boolean {
+  const header = req.headers.authorization ?? '';
+  const given = header.startsWith('Bearer ')
+    ? header.slice('Bearer '.length)
+    : new URL(req.url ?? '/', 'http://localhost').searchParams.get('token');
+  return given !== null && timingSafeEqual(digest(given), digest(token));
+}
+
+/**
+ * `Host` header values a server bound to `host:port` answers to; null when
+ * any host is fine (not a loopback address).
+ */
+export function allowedHostsFor(host: string, port: number): string[] | null {
+  if (!isLoopback(host)) {
+    return null;
+  }
+  return ['localhost', '127.0.0.1', '[::1]'].map((name) => `${name}:${port}`);
+}
+
+/**
+ * Check the `Host` and `Origin` headers of a request.
+ *
+ * @returns Why the request is refused, or null if it may proceed
+ */
+export function checkRequestOrigin(
+  req: http.IncomingMessage,
+  allowedHosts: string[] | null
+): string | null {
+  const host = req.headers.host?.toLowerCase() ?? '';
+  if (allowedHosts && !allowedHosts.includes(host)) {
+    return `Host not allowed: ${host || '(none)'}`;
+  }
+  // Browsers send Origin on cross-site requests; other clients usually don't
+  const origin = req.headers.origin;
+  if (origin !== undefined && origin.toLowerCase() !== `http://${host}`) {
+    return `Origin not allowed: ${origin}`;
+  }
+  return null;
+}
@@ -0,0 +1,118 @@
+/**
+ * Server Session - One agent conversation driven over HTTP
+ *
+ * A session owns its agent, and so its history; runs are serialized so two
+ * requests never work on the same history at once.
+ */
+
+import type { Agent } from '../agent.js';
+import type {
+  AgentEvent,
+  AgentEventListener,
+  AgentRunStatus,
+} from '../schema/index.js';
+import type { ServerRunResult, ServerSessionInfo } from './types.js';
+
+export class ServerSession {
+  public readonly createdAt = new Date().toISOString();
+  public updatedAt = this.createdAt;
+
+  private controller: AbortController | null = null;
+  private listeners = new Set<AgentEventListener>();
+
+  constructor(
+    public readonly id: string,
+    public readonly workspaceDir: string,
+    public readonly agent: Agent
+  ) {
+    agent.subscribe((event) => {
+      this.updatedAt = new Date().toISOString();
+      for (const listener of this.listeners) {
+        listener(event);
+      }
+    });
+  }
+
+  /** Whether a run is in progress */
+  get busy(): boolean {
+    return this.controller !== null;
+  }
+
+  /**
+   * Subscribe to the events of every run of the session.
+   *
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: AgentEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Add a user message and run the agent on it. When the run fails, the
+   * history is put back as it was, so the message can be posted again.
+   *
+   * @throws Error if a run is already in progress, or the run failed
+   */
+  async run(content: string): Promise<ServerRunResult> {
+    if (this.controller) {
+      throw new Error(`Session ${this.id} is busy`);
+    }
+    const controller = new AbortController();
+    this.controller = controller;
+
+    let status: AgentRunStatus = 'completed';
+    let steps = 0;
+    const unsubscribe = this.agent.subscribe((event: AgentEvent) => {
+      if (event.type === 'run_end') {
+        status = event.status;
+        steps = event.steps;
+      }
+    });
+    const historyLength = this.agent.messages.length;
+    try {
+      this.agent.addUserMessage(content);
+      const result = await this.agent.run({ signal: controller.signal });
+      return {
+        status,
+        result,
+        steps,
+        usage: this.agent.usage,
+        cost: this.agent.getCost(),
+      };
+    } catch (error) {
+      this.agent.messages.splice(historyLength);
+      throw error;
+    } finally {
+      unsubscribe();
+      this.controller = null;
+    }
+  }
+
+  /**
+   * Interrupt the current run, if any.
+   *
+   * @returns Whether a run was interrupted
+   */
+  interrupt(): boolean {
+    if (!this.controller) {
+      return false;
+    }
+    this.controller.abort();
+    return true;
+  }
+
+  info(): ServerSessionInfo {
+    return {
+      id: this.id,
+      workspaceDir: this.workspaceDir,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+      busy: this.busy,
+      messageCount: this.agent.messages.filter((msg) => msg.role !== 'system')
+        .length,
+    };
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Server Types
+ */
+
+import type { Agent } from '../agent.js';
+import type { AgentRunStatus, TokenUsage } from '../schema/index.js';
+
+/**
+ * Builds the agent of a new session.
+ *
+ * @param workspaceDir - Workspace of the session (already created)
+ * @param sessionId - Id of the session, e.g. for hooks
+ */
+export type AgentFactory = (
+  workspaceDir: string,
+  sessionId: string
+) => Promise<Agent>;
+
+export interface AgentServerOptions {
+  createAgent: AgentFactory;
+  /** Session workspaces are this directory or directories inside it */
+  rootDir: string;
+  /** Clients must send `Authorization: Bearer <token>` */
+  token: string;
+  /** Largest accepted request body in bytes (default: 1 MB) */
+  maxBodyBytes?: number;
+}
+
+/**
+ * A session as listed by `GET /sessions`.
+ */
+export interface ServerSessionInfo {
+  id: string;
+  workspaceDir: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Whether a run is in progress */
+  busy: boolean;
+  /** Messages in the history, the system prompt excluded */
+  messageCount: number;
+}
+
+/**
+ * Outcome of one posted message.
+ */
+export interface ServerRunResult {
+  status: AgentRunStatus;
+  result: string;
+  steps: number;
+  usage: TokenUsage;
+  cost: number | null;
+}
@@ -0,0 +1,5 @@
+/**
+ * Session module
+ */
+
+export * from './session-store.js';
@@ -0,0 +1,314 @@
+/**
+ * Session Store - Persist conversations as JSONL transcripts
+ *
+ * Layout: `~/.mini-agent-ts/sessions/<workspace-hash>/<session-id>.jsonl`
+ *
+ * The first line of a transcript holds the session metadata, every following
+ * line is either one message, a snapshot that replaces the whole history
+ * (written when the history was rewritten, e.g. after compaction) or the
+ * agent's latest todo list.
+ * The system prompt is never persisted; it is rebuilt on startup.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createHash, randomBytes } from 'node:crypto';
+import type { Message } from '../schema/index.js';
+import type { TodoItem } from '../tools/todo-tool.js';
+
+// ============ Types ============
+
+export interface SessionMetadata {
+  id: string;
+  workspaceDir: string;
+  model: string;
+  provider: string;
+  createdAt: string;
+}
+
+export type SessionEntry =
+  | ({ type: 'meta' } & SessionMetadata)
+  | { type: 'message'; timestamp: string; message: Message }
+  | { type: 'snapshot'; timestamp: string; messages: Message[] }
+  | { type: 'todos'; timestamp: string; todos: TodoItem[] };
+
+export interface SessionSummary extends SessionMetadata {
+  updatedAt: string;
+  messageCount: number;
+  preview: string;
+}
+
+export interface LoadedSession {
+  session: Session;
+  messages: Message[];
+  /** The agent's latest todo list */
+  todos: TodoItem[];
+}
+
+// ============ Helpers ============
+
+function getDefaultSessionsRoot(): string {
+  const homeDir = process.env['HOME'] || process.env['USERPROFILE'] || '';
+  return path.join(homeDir, '.mini-agent-ts', 'sessions');
+}
+
+/**
+ * Stable short hash of the absolute workspace path.
+ */
+export function hashWorkspace(workspaceDir: string): string {
+  return createHash('sha256')
+    .update(path.resolve(workspaceDir))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Generate a sortable session id, e.g. `20250101-120000-a1b2c3`.
+ */
+function generateSessionId(date: Date = new Date()): string {
+  const stamp = date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace('T', '-')
+    .slice(0, 15);
+  return `${stamp}-${randomBytes(3).toString('hex')}`;
+}
+
+function withoutSystem(messages: Message[]): Message[] {
+  return messages.filter((msg) => msg.role !== 'system');
+}
+
+/**
+ * Parse a transcript into its metadata and the replayed message history.
+ */
+function readTranscript(filePath: string): {
+  meta: SessionMetadata | null;
+  messages: Message[];
+  todos: TodoItem[];
+} {
+  const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+  let meta: SessionMetadata | null = null;
+  let messages: Message[] = [];
+  let todos: TodoItem[] = [];
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+
+    let entry: SessionEntry;
+    try {
+      entry = JSON.parse(line) as SessionEntry;
+    } catch {
+      // A partially written last line (e.g. after a crash) is skipped
+      continue;
+    }
+
+    if (entry.type === 'meta') {
+      meta = {
+        id: entry.id,
+        workspaceDir: entry.workspaceDir,
+        model: entry.model,
+        provider: entry.provider,
+        createdAt: entry.createdAt,
+      };
+    } else if (entry.type === 'message') {
+      messages.push(entry.message);
+    } else if (entry.type === 'snapshot') {
+      messages = [...entry.messages];
+    } else if (entry.type === 'todos') {
+      todos = entry.todos;
+    }
+  }
+
+  return { meta, messages, todos };
+}
+
+function previewOf(messages: Message[]): string {
+  const firstUser = messages.find((msg) => msg.role === 'user');
+  if (!firstUser) return '';
+  const text =
+    typeof firstUser.content === 'string'
+      ? firstUser.content
+      : firstUser.content.map((block) => block.text ?? '').join(' ');
+  return text.replace(/\s+/g, ' ').trim().slice(0, 80);
+}
+
+// ============ Session ============
+
+/**
+ * A single persisted conversation.
+ *
+ * Call `sync()` with the agent's current messages whenever they change; only
+ * the new tail is appended unless earlier history was rewritten.
+ */
+export class Session {
+  private written: Message[] = [];
+
+  constructor(
+    public readonly meta: SessionMetadata,
+    public readonly filePath: string
+  ) {}
+
+  get id(): string {
+    return this.meta.id;
+  }
+
+  /**
+   * Mark messages as already persisted (used when resuming).
+   */
+  markSynced(messages: Message[]): void {
+    this.written = withoutSystem(messages);
+  }
+
+  /**
+   * Persist the current conversation.
+   *
+   * @param messages - The agent's full message list (system prompt included)
+   */
+  sync(messages: Message[]): void {
+    const history = withoutSystem(messages);
+    const timestamp = new Date().toISOString();
+
+    const isAppendOnly =
+      history.length >= this.written.length &&
+      this.written.every((msg, index) => history[index] === msg);
+
+    let entries: SessionEntry[];
+    if (isAppendOnly) {
+      entries = history
+        .slice(this.written.length)
+        .map((message) => ({ type: 'message', timestamp, message }));
+    } else {
+      entries = [{ type: 'snapshot', timestamp, messages: history }];
+    }
+
+    this.append(entries);
+    this.written = history;
+  }
+
+  /**
+   * Persist the agent's todo list.
+   */
+  saveTodos(todos: TodoItem[]): void {
+    this.append([
+      { type: 'todos', timestamp: new Date().toISOString(), todos },
+    ]);
+  }
+
+  private append(entries: SessionEntry[]): void {
+    if (entries.length === 0) {
+      return;
+    }
+    // The transcript is created lazily so empty sessions leave no file
+    if (!fs.existsSync(this.filePath)) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      entries.unshift({ type: 'meta', ...this.meta });
+    }
+    fs.appendFileSync(
+      this.filePath,
+      entries.map((entry) => `${JSON.stringify(entry)}\n`).join('')
+    );
+  }
+
+  /**
+   * Whether anything has been persisted for this session yet.
+   */
+  hasTranscript(): boolean {
+    return fs.existsSync(this.filePath);
+  }
+}
+
+// ============ Session Store ============
+
+/**
+ * SessionStore
+ *
+ * Creates, lists and reopens the sessions of one workspace.
+ */
+export class SessionStore {
+  public readonly sessionsDir: string;
+
+  constructor(
+    public readonly workspaceDir: string,
+    rootDir: string = getDefaultSessionsRoot()
+  ) {
+    this.sessionsDir = path.join(rootDir, hashWorkspace(workspaceDir));
+  }
+
+  /**
+   * Start a new session. Its transcript is written on the first sync.
+   */
+  create(info: { model: string; provider: string }): Session {
+    const meta: SessionMetadata = {
+      id: generateSessionId(),
+      workspaceDir: path.resolve(this.workspaceDir),
+      model: info.model,
+      provider: info.provider,
+      createdAt: new Date().toISOString(),
+    };
+    const filePath = path.join(this.sessionsDir, `${meta.id}.jsonl`);
+    return new Session(meta, filePath);
+  }
+
+  /**
+   * List sessions of this workspace, most recently updated first.
+   */
+  list(): SessionSummary[] {
+    if (!fs.existsSync(this.sessionsDir)) {
+      return [];
+    }
+
+    const summaries: SessionSummary[] = [];
+    for (const file of fs.readdirSync(this.sessionsDir)) {
+      if (!file.endsWith('.jsonl')) continue;
+
+      const filePath = path.join(this.sessionsDir, file);
+      try {
+        const { meta, messages } = readTranscript(filePath);
+        if (!meta) continue;
+        summaries.push({
+          ...meta,
+          updatedAt: fs.statSync(filePath).mtime.toISOString(),
+          messageCount: messages.length,
+          preview: previewOf(messages),
+        });
+      } catch {
+        continue;
+      }
+    }
+
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Reopen a session by id (a unique id prefix is accepted).
+   *
+   * @throws Error if no session or more than one session matches
+   */
+  open(id: string): LoadedSession {
+    const matches = this.list().filter((s) => s.id.startsWith(id));
+    if (matches.length === 0) {
+      throw new Error(`Session not found: ${id}`);
+    }
+    if (matches.length > 1 && !matches.some((s) => s.id === id)) {
+      throw new Error(
+        `Session id '${id}' is ambiguous: ${matches.map((s) => s.id).join(', ')}`
+      );
+    }
+
+    const match = matches.find((s) => s.id === id) ?? matches[0];
+    const filePath = path.join(this.sessionsDir, `${match.id}.jsonl`);
+    const { meta, messages, todos } = readTranscript(filePath);
+
+    const session = new Session(meta ?? match, filePath);
+    session.markSynced(messages);
+    return { session, messages, todos };
+  }
+
+  /**
+   * Reopen the most recently updated session, if any.
+   */
+  openLatest(): LoadedSession | null {
+    const [latest] = this.list();
+    return latest ? this.open(latest.id) : null;
+  }
+}
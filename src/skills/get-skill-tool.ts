@@ -5,6 +5,32 @@
 import type { Tool, ToolInput, ToolResult } from '../tools/base.js';
 import type { SkillLoader } from './skill-loader.js';
 
+/**
+ * Format a Skill object into a standardized prompt string.
+ *
+ * Format:
+ * # Skill: {name}
+ * {description}
+ * ---
+ * {content}
+ *
+ * @param skill - Skill object with name, description, content
+ * @returns Formatted markdown string for agent consumption
+ */
+export function formatSkillAsPrompt(skill: {
+  name: string;
+  description: string;
+  content: string;
+}): string {
+  return `# Skill: ${skill.name}
+
+${skill.description}
+
+---
+
+${skill.content}`;
+}
+
 /**
  * GetSkillTool
  *
@@ -14,6 +40,7 @@ export class GetSkillTool implements Tool {
   name = 'get_skill';
   description =
     'Get complete content and guidance for a specified skill, used for executing specific types of tasks';
+  readOnly = true;
   parameters = {
     type: 'object',
     properties: {
@@ -61,37 +88,11 @@ export class GetSkillTool implements Tool {
       };
     }
 
-    const content = this.formatSkillAsPrompt(skill);
+    const content = formatSkillAsPrompt(skill);
 
     return {
       success: true,
       content,
     };
   }
-
-  /**
-   * Format a Skill object into a standardized prompt string.
-   *
-   * Format:
-   * # Skill: {name}
-   * {description}
-   * ---
-   * {content}
-   *
-   * @param skill - Skill object with name, description, content
-   * @returns Formatted markdown string for agent consumption
-   */
-  private formatSkillAsPrompt(skill: {
-    name: string;
-    description: string;
-    content: string;
-  }): string {
-    return `# Skill: ${skill.name}
-
-${skill.description}
-
----
-
-${skill.content}`;
-  }
 }
@@ -17,7 +17,13 @@ export class SkillLoader {
   private skillsDir: string;
   private loadedSkills: Map<string, Skill>;
 
-  constructor(skillsDir: string = './skills') {
+  /**
+   * @param log - Receives progress messages
+   */
+  constructor(
+    skillsDir: string = './skills',
+    private log: (message: string) => void = (message) => console.log(message)
+  ) {
     this.skillsDir = skillsDir;
     this.loadedSkills = new Map();
   }
@@ -214,7 +220,7 @@ export class SkillLoader {
       }
     }
 
-    console.log(`✅ Discovered ${skills.length} Claude Skills`);
+    this.log(`✅ Discovered ${skills.length} Claude Skills`);
     return skills;
   }
 
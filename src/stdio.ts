@@ -0,0 +1,63 @@
+/**
+ * Stdio mode - Speak the Agent Client Protocol (JSON-RPC) on stdin/stdout
+ *
+ * Used by `mini-agent-ts --stdio`, which editors start as a subprocess.
+ * stdout only carries protocol messages; every other message goes to
+ * stderr. MCP servers are connected once and shared by all sessions.
+ */
+
+import { AcpAgent } from './acp/index.js';
+import {
+  createAgentRuntime,
+  loadConfig,
+  loadConfiguredMcpTools,
+} from './bootstrap.js';
+import type { PermissionMode } from './permissions/index.js';
+import { cleanupMcpConnections } from './tools/index.js';
+
+export interface StdioOptions {
+  permissionMode?: PermissionMode;
+}
+
+/**
+ * Serve the protocol until the client closes stdin.
+ *
+ * @throws Error if the configuration cannot be loaded
+ */
+export async function runStdio(options: StdioOptions = {}): Promise<void> {
+  // Keep stdout clean for the protocol: all progress output goes to stderr
+  console.log = console.error;
+  console.info = console.error;
+
+  const { config } = loadConfig();
+  const mcpTools = await loadConfiguredMcpTools(config);
+
+  const acp = new AcpAgent(
+    process.stdin,
+    process.stdout,
+    async ({ sessionId, workspaceDir, files, requestPermission }) => {
+      const { agent, permissions } = await createAgentRuntime(config, {
+        workspaceDir,
+        permissionMode: options.permissionMode,
+        mcpTools,
+        files,
+      });
+      permissions.prompt = requestPermission;
+      if (agent.hooks) {
+        agent.hooks.sessionId = sessionId;
+      }
+      await agent.startSession('startup');
+      return agent;
+    }
+  );
+
+  const onSigint = (): void => acp.cancelAll();
+  process.on('SIGINT', onSigint);
+  try {
+    await acp.closed;
+  } finally {
+    process.removeListener('SIGINT', onSigint);
+    acp.cancelAll();
+    await cleanupMcpConnections();
+  }
+}
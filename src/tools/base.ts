@@ -1,3 +1,6 @@
+import type { SlashCommand } from '../commands/types.js';
+import type { AgentEvent } from '../schema/events.js';
+
 /**
  * JSON Schema type.
  * Used to describe a Tool's parameter structure following the JSON Schema spec.
@@ -25,6 +28,19 @@ export interface ToolResult {
   error?: string | null;
 }
 
+/**
+ * Per-call options passed to `Tool.execute()` by the agent.
+ *
+ * @property signal     - Aborted when the user interrupts the current turn
+ * @property onEvent    - Receives the events of a nested agent run by the tool
+ * @property toolCallId - Id of the model's tool call, if the call comes from one
+ */
+export interface ToolExecuteOptions {
+  signal?: AbortSignal;
+  onEvent?: (event: AgentEvent) => void;
+  toolCallId?: string;
+}
+
 /**
  * Tool result with extra metadata (extended).
  * Useful for tools that need to return additional fields (e.g. BashTool returning stdout/stderr/exitCode).
@@ -53,7 +69,11 @@ export type ToolResultWithMeta<
  * @property name        - Tool name (used by the LLM when calling the tool)
  * @property description - Tool description (tells the LLM what it does and how to use it)
  * @property parameters  - JSON Schema parameter definition (used by the LLM to construct valid args)
- * @method execute       - Async execution method that takes params and returns a result
+ * @property readOnly    - (optional) Whether the tool never modifies files, processes or other state
+ * @property concurrencySafe - (optional) Whether calls may run in parallel with other safe calls (defaults to `readOnly`)
+ * @property managesPermissions - (optional) Whether the tool asks for permission itself (e.g. per nested tool call), so the agent does not
+ * @property commands    - (optional) Slash commands the tool adds to the REPL
+ * @method execute       - Async execution method that takes params (and optional per-call options) and returns a result
  *
  */
 export interface Tool<
@@ -63,5 +83,16 @@ export interface Tool<
   name: string;
   description: string;
   parameters: JsonSchema;
-  execute(params: Input): Promise<Output>;
+  readOnly?: boolean;
+  concurrencySafe?: boolean;
+  managesPermissions?: boolean;
+  commands?: SlashCommand[];
+  execute(params: Input, options?: ToolExecuteOptions): Promise<Output>;
+}
+
+/**
+ * Whether a tool call may run concurrently with other safe calls.
+ */
+export function isConcurrencySafe(tool: Tool): boolean {
+  return tool.concurrencySafe ?? tool.readOnly ?? false;
 }
@@ -1,6 +1,6 @@
 import { exec, spawn } from 'node:child_process';
 import type { ChildProcessWithoutNullStreams } from 'node:child_process';
-import type { Tool, ToolResultWithMeta } from './base.js';
+import type { Tool, ToolExecuteOptions, ToolResultWithMeta } from './base.js';
 
 type BashInput = {
   command: string;
@@ -290,8 +290,12 @@ export class BashTool implements Tool<BashInput, BashOutputResult> {
 
   /**
    * Execute a shell command in foreground or background.
+   * Foreground commands are killed when `options.signal` is aborted.
    */
-  async execute(params: BashInput): Promise<BashOutputResult> {
+  async execute(
+    params: BashInput,
+    options?: ToolExecuteOptions
+  ): Promise<BashOutputResult> {
     const timeout = Math.min(Math.max(params.timeout ?? 120, 1), 600);
     const runInBackground = params.run_in_background ?? false;
     const { shell, args } = buildShellCommand(params.command);
@@ -340,6 +344,7 @@ export class BashTool implements Tool<BashInput, BashOutputResult> {
           timeout: timeout * 1000,
           maxBuffer: 10 * 1024 * 1024,
           shell,
+          signal: options?.signal,
         },
         (error, stdout, stderr) => {
           if (error) {
@@ -347,10 +352,12 @@ export class BashTool implements Tool<BashInput, BashOutputResult> {
               typeof (error as { code?: number }).code === 'number'
                 ? ((error as { code?: number }).code ?? -1)
                 : -1;
-            const errorMsg =
-              error.killed && error.signal === 'SIGTERM'
-                ? `Command timed out after ${timeout} seconds`
-                : `Command failed with exit code ${exitCode}`;
+            let errorMsg = `Command failed with exit code ${exitCode}`;
+            if (options?.signal?.aborted) {
+              errorMsg = 'Command interrupted by user';
+            } else if (error.killed && error.signal === 'SIGTERM') {
+              errorMsg = `Command timed out after ${timeout} seconds`;
+            }
             resolve(
               buildResult({
                 success: false,
@@ -389,6 +396,7 @@ export class BashOutputTool implements Tool<BashOutputInput, BashOutputResult> {
     '- Use this tool when you need to monitor or check the output of a long-running shell\n' +
     '- Shell IDs can be found using the bash tool with run_in_background=true\n\n' +
     'Example: bash_output(bash_id="abc12345")';
+  public readOnly = true;
 
   public parameters = {
     type: 'object',
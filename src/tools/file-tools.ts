@@ -1,5 +1,6 @@
 import * as path from 'node:path';
 import * as fs from 'node:fs/promises';
+import type { CheckpointStore } from '../checkpoints/index.js';
 import type { Tool, ToolResult } from './base.js';
 
 type ReadFileInput = {
@@ -19,6 +20,30 @@ type EditFileInput = {
   new_str: string;
 };
 
+/**
+ * Reads and writes files for the file tools. The default works on the disk;
+ * an editor can serve its buffers instead, so unsaved changes are seen.
+ *
+ * `readTextFile` rejects with an `ENOENT` error code for missing files.
+ */
+export interface FileAccess {
+  readTextFile(filePath: string): Promise<string>;
+  /** Creates the parent directories if needed */
+  writeTextFile(filePath: string, content: string): Promise<void>;
+}
+
+export const diskFileAccess: FileAccess = {
+  readTextFile: (filePath) => fs.readFile(filePath, 'utf8'),
+  async writeTextFile(filePath, content) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content, 'utf8');
+  },
+};
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
 /**
  * Resolve file paths relative to the workspace directory.
  */
@@ -68,6 +93,7 @@ export class ReadTool implements Tool<ReadFileInput> {
     "in format 'LINE_NUMBER|LINE_CONTENT' (1-indexed). Supports reading partial content " +
     'by specifying line offset and limit for large files. ' +
     'You can call this tool multiple times in parallel to read different files simultaneously.';
+  public readOnly = true;
   public parameters = {
     type: 'object',
     properties: {
@@ -89,7 +115,10 @@ export class ReadTool implements Tool<ReadFileInput> {
     required: ['path'],
   };
 
-  constructor(private workspaceDir: string = '.') {}
+  constructor(
+    private workspaceDir: string = '.',
+    private files: FileAccess = diskFileAccess
+  ) {}
 
   /**
    * Read file content with optional line slicing and numbering.
@@ -97,17 +126,7 @@ export class ReadTool implements Tool<ReadFileInput> {
   async execute(params: ReadFileInput): Promise<ToolResult> {
     const targetPath = resolvePath(this.workspaceDir, params.path);
     try {
-      await fs.access(targetPath);
-    } catch {
-      return {
-        success: false,
-        content: '',
-        error: `File not found: ${params.path}`,
-      };
-    }
-
-    try {
-      const raw = await fs.readFile(targetPath, 'utf8');
+      const raw = await this.files.readTextFile(targetPath);
       const lines = raw.split('\n');
 
       const offset =
@@ -136,7 +155,9 @@ export class ReadTool implements Tool<ReadFileInput> {
       return {
         success: false,
         content: '',
-        error: (error as Error).message || String(error),
+        error: isNotFound(error)
+          ? `File not found: ${params.path}`
+          : (error as Error).message || String(error),
       };
     }
   }
@@ -164,7 +185,14 @@ export class WriteTool implements Tool<WriteFileInput> {
     required: ['path', 'content'],
   };
 
-  constructor(private workspaceDir: string = '.') {}
+  /**
+   * @param checkpoints - Records files before they are changed, for `/undo`
+   */
+  constructor(
+    private workspaceDir: string = '.',
+    private checkpoints?: CheckpointStore,
+    private files: FileAccess = diskFileAccess
+  ) {}
 
   /**
    * Write full content to a file, creating parent directories if needed.
@@ -172,8 +200,8 @@ export class WriteTool implements Tool<WriteFileInput> {
   async execute(params: WriteFileInput): Promise<ToolResult> {
     const targetPath = resolvePath(this.workspaceDir, params.path);
     try {
-      await fs.mkdir(path.dirname(targetPath), { recursive: true });
-      await fs.writeFile(targetPath, params.content ?? '', 'utf8');
+      this.checkpoints?.snapshot(targetPath);
+      await this.files.writeTextFile(targetPath, params.content ?? '');
       return {
         success: true,
         content: `Successfully wrote to ${targetPath}`,
@@ -214,7 +242,14 @@ export class EditTool implements Tool<EditFileInput> {
     required: ['path', 'old_str', 'new_str'],
   };
 
-  constructor(private workspaceDir: string = '.') {}
+  /**
+   * @param checkpoints - Records files before they are changed, for `/undo`
+   */
+  constructor(
+    private workspaceDir: string = '.',
+    private checkpoints?: CheckpointStore,
+    private files: FileAccess = diskFileAccess
+  ) {}
 
   /**
    * Replace occurrences of old_str with new_str in the target file.
@@ -222,17 +257,7 @@ export class EditTool implements Tool<EditFileInput> {
   async execute(params: EditFileInput): Promise<ToolResult> {
     const targetPath = resolvePath(this.workspaceDir, params.path);
     try {
-      await fs.access(targetPath);
-    } catch {
-      return {
-        success: false,
-        content: '',
-        error: `File not found: ${params.path}`,
-      };
-    }
-
-    try {
-      const content = await fs.readFile(targetPath, 'utf8');
+      const content = await this.files.readTextFile(targetPath);
 
       if (!content.includes(params.old_str)) {
         return {
@@ -243,7 +268,8 @@ export class EditTool implements Tool<EditFileInput> {
       }
 
       const newContent = content.split(params.old_str).join(params.new_str);
-      await fs.writeFile(targetPath, newContent, 'utf8');
+      this.checkpoints?.snapshot(targetPath);
+      await this.files.writeTextFile(targetPath, newContent);
 
       return {
         success: true,
@@ -253,7 +279,9 @@ export class EditTool implements Tool<EditFileInput> {
       return {
         success: false,
         content: '',
-        error: (error as Error).message || String(error),
+        error: isNotFound(error)
+          ? `File not found: ${params.path}`
+          : (error as Error).message || String(error),
       };
     }
   }
@@ -0,0 +1,77 @@
+/**
+ * FinalAnswerTool - Submit a final answer that matches an output schema
+ */
+
+import {
+  formatSchemaErrors,
+  validateJsonSchema,
+} from '../json-schema/index.js';
+import type { JsonSchema, Tool, ToolInput, ToolResult } from './base.js';
+
+/** Argument that holds answers whose schema is not an object */
+const WRAPPED_KEY = 'result';
+
+/** Added to the system prompt of agents with an output schema */
+export const OUTPUT_SCHEMA_PROMPT =
+  '## Final Answer\nWhen the task is done, submit the result by calling the `final_answer` tool with arguments that match its schema. Do not reply with the result as plain text.';
+
+/**
+ * Tool parameters must be an object, so other schemas become the `result`
+ * property of one. `$defs` stay at the root, where `$ref`s point.
+ */
+function toParameters(schema: JsonSchema): JsonSchema {
+  if (schema['type'] === 'object') {
+    return schema;
+  }
+  const { $defs, definitions, ...rest } = schema;
+  return {
+    type: 'object',
+    properties: { [WRAPPED_KEY]: rest },
+    required: [WRAPPED_KEY],
+    ...($defs === undefined ? {} : { $defs }),
+    ...(definitions === undefined ? {} : { definitions }),
+  };
+}
+
+/**
+ * FinalAnswerTool
+ *
+ * Its parameters are the output schema. A call whose arguments match the
+ * schema hands the answer to `onAnswer`; otherwise the model gets the
+ * validation errors and can call it again.
+ */
+export class FinalAnswerTool implements Tool {
+  public name = 'final_answer';
+  public description =
+    'Submit the final answer of the task. Call this once, when the task is done; the arguments are the answer and must match the schema. If they do not, you get the validation errors: fix them and call it again.';
+  public readOnly = true;
+  public parameters: JsonSchema;
+
+  private wrapped: boolean;
+
+  /**
+   * @param schema - JSON Schema the answer must match
+   * @param onAnswer - Receives the validated answer
+   */
+  constructor(
+    private schema: JsonSchema,
+    private onAnswer: (answer: unknown) => void
+  ) {
+    this.parameters = toParameters(schema);
+    this.wrapped = this.parameters !== schema;
+  }
+
+  async execute(params: ToolInput): Promise<ToolResult> {
+    const answer = this.wrapped ? params[WRAPPED_KEY] : params;
+    const errors = validateJsonSchema(this.schema, answer);
+    if (errors.length > 0) {
+      return {
+        success: false,
+        content: '',
+        error: `The answer does not match the output schema:\n${formatSchemaErrors(errors)}`,
+      };
+    }
+    this.onAnswer(answer);
+    return { success: true, content: 'Final answer recorded.' };
+  }
+}
@@ -2,16 +2,45 @@ export {
   type JsonSchema,
   type ToolInput,
   type ToolResult,
+  type ToolExecuteOptions,
   type ToolResultWithMeta,
   type Tool,
+  isConcurrencySafe,
 } from './base.js';
 
-export { ReadTool, WriteTool, EditTool } from './file-tools.js';
+export {
+  type FileAccess,
+  ReadTool,
+  WriteTool,
+  EditTool,
+  diskFileAccess,
+} from './file-tools.js';
 export { BashTool, BashOutputTool, BashKillTool } from './bash-tool.js';
+export {
+  type PlanDecision,
+  ExitPlanModeTool,
+  PLAN_MODE_PROMPT,
+  isReadOnlyCommand,
+} from './plan-mode.js';
+export {
+  type TodoItem,
+  type TodoStatus,
+  TODO_STATUSES,
+  TodoWriteTool,
+  formatTodoList,
+} from './todo-tool.js';
+export { FinalAnswerTool, OUTPUT_SCHEMA_PROMPT } from './final-answer-tool.js';
+export {
+  type TaskToolOptions,
+  DEFAULT_SUBAGENT_PROMPT,
+  TaskTool,
+} from './task-tool.js';
 export {
   type MCPTimeoutConfig,
+  type McpServerStatus,
   MCPTool,
   cleanupMcpConnections,
+  getMcpServerStatus,
   getMcpTimeoutConfig,
   loadMcpToolsAsync,
   setMcpTimeoutConfig,
@@ -1,6 +1,7 @@
 import { Logger } from '../../util/logger.js';
 import {
   type Tool,
+  type ToolExecuteOptions,
   type ToolInput,
   type ToolResult,
   type JsonSchema,
@@ -23,6 +24,9 @@ export class MCPTool implements Tool {
   public name: string;
   public description: string;
   public parameters: JsonSchema;
+  public readOnly: boolean;
+  /** Name of the MCP server providing the tool */
+  public serverName: string;
 
   private session: McpClient;
   private executeTimeoutSec: number;
@@ -33,15 +37,22 @@ export class MCPTool implements Tool {
     parameters: JsonSchema;
     session: McpClient;
     executeTimeoutSec: number;
+    readOnly?: boolean;
+    serverName: string;
   }) {
     this.name = options.name;
     this.description = options.description;
     this.parameters = options.parameters;
+    this.readOnly = options.readOnly ?? false;
+    this.serverName = options.serverName;
     this.session = options.session;
     this.executeTimeoutSec = options.executeTimeoutSec;
   }
 
-  async execute(params: ToolInput): Promise<ToolResult> {
+  async execute(
+    params: ToolInput,
+    options?: ToolExecuteOptions
+  ): Promise<ToolResult> {
     const timeoutMs = this.executeTimeoutSec * 1000;
 
     // [Debug] Log Request
@@ -49,10 +60,14 @@ export class MCPTool implements Tool {
 
     try {
       const result = await withTimeout(
-        this.session.callTool({
-          name: this.name,
-          arguments: params,
-        }),
+        this.session.callTool(
+          {
+            name: this.name,
+            arguments: params,
+          },
+          undefined,
+          { signal: options?.signal }
+        ),
         timeoutMs,
         `MCP tool execution timed out after ${toSecondsLabel(
           this.executeTimeoutSec
@@ -72,6 +87,13 @@ export class MCPTool implements Tool {
       };
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : String(error);
+      if (options?.signal?.aborted) {
+        return {
+          success: false,
+          content: '',
+          error: 'MCP tool execution interrupted by user',
+        };
+      }
       const timedOut = message.includes('timed out');
       return {
         success: false,
@@ -173,7 +195,15 @@ export class MCPServerConnection {
     });
   }
 
-  async connect(): Promise<boolean> {
+  /**
+   * Connect to the server and load its tools.
+   *
+   * @param log - Receives the progress messages (default: `console.log`)
+   * @returns Whether the connection succeeded
+   */
+  async connect(
+    log: (message: string) => void = console.log
+  ): Promise<boolean> {
     const connectTimeoutMs = this.getConnectTimeoutSec() * 1000;
     try {
       const transport = await this.createTransport();
@@ -212,19 +242,22 @@ export class MCPServerConnection {
             parameters: normalizedParameters,
             session: client,
             executeTimeoutSec: executeTimeout,
+            // Servers declare side-effect free tools via annotations
+            readOnly: tool.annotations?.readOnlyHint === true,
+            serverName: this.name,
           })
         );
       }
 
       const connectedMsg = `✅ Connected to MCP server '${this.name}' (${this.connectionType}) - loaded ${this.tools.length} tools`;
-      console.log(connectedMsg);
+      log(connectedMsg);
       Logger.log('startup', connectedMsg);
 
       return true;
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : String(error);
       const msg = `✗ Failed to connect to MCP server '${this.name}': ${message}`;
-      console.log(msg);
+      log(msg);
       Logger.log('startup', msg);
       await this.disconnect();
       return false;
@@ -6,6 +6,7 @@ import {
   type McpConfigFile,
   type McpServerConfig,
   type ConnectionType,
+  type McpServerStatus,
 } from './types.js';
 import { isRecord } from './utils.js';
 import { MCPServerConnection } from './connection.js';
@@ -16,6 +17,7 @@ export * from './utils.js';
 export * from './connection.js';
 
 const mcpConnections: MCPServerConnection[] = [];
+const mcpServerStatus: McpServerStatus[] = [];
 
 /**
  * Asynchronously loads MCPs from config file.
@@ -26,14 +28,16 @@ const mcpConnections: MCPServerConnection[] = [];
  * will be aggregated and returned.
  *
  * @param configPath - path to MCP config JSON file. Defaults to "mcp.json".
+ * @param log - Receives the progress messages (default: `console.log`)
  * @returns A promise that resolves to an array of loaded `Tool` instances.
  */
 export async function loadMcpToolsAsync(
-  configPath: string = 'mcp.json'
+  configPath: string = 'mcp.json',
+  log: (message: string) => void = console.log
 ): Promise<Tool[]> {
   const resolvedPath = path.resolve(configPath);
   if (!fs.existsSync(resolvedPath)) {
-    console.log(`MCP config not found: ${resolvedPath}`);
+    log(`MCP config not found: ${resolvedPath}`);
     return [];
   }
 
@@ -43,7 +47,7 @@ export async function loadMcpToolsAsync(
     const servers = config.mcpServers ?? {};
 
     if (!isRecord(servers) || Object.keys(servers).length === 0) {
-      console.log('No MCP servers configured');
+      log('No MCP servers configured');
       return [];
     }
 
@@ -51,15 +55,11 @@ export async function loadMcpToolsAsync(
 
     for (const [serverName, serverConfigValue] of Object.entries(servers)) {
       if (!isRecord(serverConfigValue)) {
-        console.log(`Skipping invalid server config: ${serverName}`);
+        log(`Skipping invalid server config: ${serverName}`);
         continue;
       }
 
       const serverConfig = serverConfigValue as McpServerConfig;
-      if (serverConfig.disabled) {
-        console.log(`Skipping disabled server: ${serverName}`);
-        continue;
-      }
 
       // Determine connection type
       let connectionType: ConnectionType = 'stdio';
@@ -79,6 +79,17 @@ export async function loadMcpToolsAsync(
           break;
       }
 
+      if (serverConfig.disabled) {
+        log(`Skipping disabled server: ${serverName}`);
+        mcpServerStatus.push({
+          name: serverName,
+          connectionType,
+          state: 'disabled',
+          toolCount: 0,
+        });
+        continue;
+      }
+
       const connection = new MCPServerConnection({
         name: serverName,
         connectionType,
@@ -93,11 +104,17 @@ export async function loadMcpToolsAsync(
         sseReadTimeoutSec: serverConfig.sse_read_timeout,
       });
 
-      const success = await connection.connect();
+      const success = await connection.connect(log);
       if (success) {
         mcpConnections.push(connection);
         allTools.push(...connection.tools);
       }
+      mcpServerStatus.push({
+        name: serverName,
+        connectionType,
+        state: success ? 'connected' : 'failed',
+        toolCount: connection.tools.length,
+      });
     }
 
     const totalMsg = `
@@ -107,15 +124,23 @@ Total MCP tools loaded: ${allTools.length}`;
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : String(error);
     const msg = `Error loading MCP config: ${message}`;
-    console.log(msg);
+    log(msg);
     Logger.debug('MCP', msg);
     return [];
   }
 }
 
+/**
+ * Status of the MCP servers configured in the last loaded config.
+ */
+export function getMcpServerStatus(): McpServerStatus[] {
+  return [...mcpServerStatus];
+}
+
 export async function cleanupMcpConnections(): Promise<void> {
   for (const connection of mcpConnections) {
     await connection.disconnect();
   }
   mcpConnections.length = 0;
+  mcpServerStatus.length = 0;
 }
@@ -8,11 +8,20 @@ export interface MCPTimeoutConfig {
   sseReadTimeout: number;
 }
 
+export interface McpToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
 interface McpToolDefinition {
   name: string;
   description?: string;
   inputSchema?: JsonSchema;
   input_schema?: JsonSchema;
+  annotations?: McpToolAnnotations;
 }
 
 interface McpListToolsResult {
@@ -28,10 +37,14 @@ export interface McpCallToolResult {
 export type McpClient = {
   connect: (transport: unknown) => Promise<void>;
   listTools: () => Promise<McpListToolsResult>;
-  callTool: (params: {
-    name: string;
-    arguments?: Record<string, unknown>;
-  }) => Promise<McpCallToolResult>;
+  callTool: (
+    params: {
+      name: string;
+      arguments?: Record<string, unknown>;
+    },
+    resultSchema?: unknown,
+    options?: { signal?: AbortSignal }
+  ) => Promise<McpCallToolResult>;
   close?: () => Promise<void>;
 };
 
@@ -66,3 +79,12 @@ export interface McpServerConfig {
 export interface McpConfigFile {
   mcpServers?: Record<string, McpServerConfig>;
 }
+
+export type McpServerState = 'connected' | 'failed' | 'disabled';
+
+export interface McpServerStatus {
+  name: string;
+  connectionType: ConnectionType;
+  state: McpServerState;
+  toolCount: number;
+}
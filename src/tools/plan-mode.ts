@@ -0,0 +1,205 @@
+/**
+ * Plan mode - Read-only exploration followed by an explicit plan approval
+ */
+
+import type { Tool, ToolInput, ToolResult } from './base.js';
+
+type ExitPlanModeInput = {
+  plan: string;
+};
+
+/**
+ * The user's answer to a proposed plan.
+ */
+export type PlanDecision =
+  | { approved: true }
+  | { approved: false; feedback?: string };
+
+/**
+ * Instructions appended to the system prompt while plan mode is on.
+ */
+export const PLAN_MODE_PROMPT = `## Plan Mode
+Plan mode is active. The user wants you to investigate before changing anything.
+- Only read-only tools are available. Do not try to modify files, install packages or change any other state.
+- \`bash\` only accepts read-only commands (e.g. \`ls\`, \`cat\`, \`grep\`, \`git status\`, \`git diff\`).
+- When you understand the task, call \`exit_plan_mode\` with a concrete, step-by-step plan (files to change and how). The user will approve it or ask for changes.`;
+
+// Commands that only read state (checked per pipeline segment)
+const READ_ONLY_COMMANDS = new Set([
+  'basename',
+  'cat',
+  'cut',
+  'diff',
+  'dirname',
+  'du',
+  'echo',
+  'file',
+  'find',
+  'grep',
+  'head',
+  'ls',
+  'pwd',
+  'realpath',
+  'rg',
+  'sort',
+  'stat',
+  'tail',
+  'tree',
+  'uniq',
+  'wc',
+  'which',
+]);
+
+const READ_ONLY_GIT_COMMANDS = new Set([
+  'blame',
+  'describe',
+  'diff',
+  'grep',
+  'log',
+  'ls-files',
+  'rev-parse',
+  'shortlog',
+  'show',
+  'status',
+]);
+
+// Flags that write files or run other commands, per program. Long flags
+// also match as `--flag=value` and abbreviated (`--out=file`); one-letter
+// flags also match bundled or with an attached value (`-rofile`).
+const UNSAFE_FLAGS: Record<string, string[]> = {
+  file: ['-C', '--compile'],
+  find: [
+    '-delete',
+    '-exec',
+    '-execdir',
+    '-ok',
+    '-okdir',
+    '-fls',
+    '-fprint',
+    '-fprint0',
+    '-fprintf',
+  ],
+  git: ['-O', '--open-files-in-pager', '--output', '--ext-diff'],
+  rg: ['--pre', '--pre-glob'],
+  sort: ['-o', '--output', '--compress-program'],
+  tree: ['-o'],
+};
+
+function matchesFlag(arg: string, flag: string): boolean {
+  if (flag.startsWith('--')) {
+    const name = arg.split('=')[0];
+    return name.length > 2 && name.startsWith('--') && flag.startsWith(name);
+  }
+  if (flag.length === 2) {
+    return /^-[^-]/.test(arg) && arg.includes(flag[1]);
+  }
+  return arg === flag;
+}
+
+/**
+ * Best-effort check that a shell command only reads state.
+ *
+ * Every segment of a pipeline or command list must start with an allowed
+ * command; redirections to files, command substitution, background jobs
+ * and flags that write files or run other commands are rejected.
+ */
+export function isReadOnlyCommand(command: string): boolean {
+  // Only whole words: `>/dev/null.txt` writes a file
+  const stripped = command
+    .replace(/\d?>\s*\/dev\/null(?=[\s;&|]|$)/g, '')
+    .replace(/2>&1(?=[\s;&|]|$)/g, '');
+  if (/[>`]|\$\(|<\(|(^|[^&])&($|[^&])/.test(stripped)) {
+    return false;
+  }
+
+  const segments = stripped
+    .split(/&&|\|\||[;|\n]/)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+  if (segments.length === 0) {
+    return false;
+  }
+
+  return segments.every((segment) => {
+    const [program, ...args] = segment.split(/\s+/);
+    const unsafeFlags = UNSAFE_FLAGS[program] ?? [];
+    if (
+      args.some((arg) => unsafeFlags.some((flag) => matchesFlag(arg, flag)))
+    ) {
+      return false;
+    }
+    if (program === 'git') {
+      const index = args.findIndex((arg) => !arg.startsWith('-'));
+      // `-c` and `--config-env` before the subcommand can set a pager or hook
+      if (
+        args
+          .slice(0, Math.max(index, 0))
+          .some((arg) => arg === '-c' || arg.startsWith('--config-env'))
+      ) {
+        return false;
+      }
+      return index !== -1 && READ_ONLY_GIT_COMMANDS.has(args[index]);
+    }
+    return READ_ONLY_COMMANDS.has(program);
+  });
+}
+
+/**
+ * ExitPlanModeTool
+ *
+ * Presents the proposed plan for approval. Only offered while plan mode is
+ * on; the agent leaves plan mode when the plan is approved.
+ */
+export class ExitPlanModeTool implements Tool<ExitPlanModeInput> {
+  public name = 'exit_plan_mode';
+  public description =
+    'Present your implementation plan to the user for approval and leave plan mode. Call this only after investigating, with a concrete step-by-step plan. If the user approves, all tools become available and you should carry out the plan.';
+  public parameters = {
+    type: 'object',
+    properties: {
+      plan: {
+        type: 'string',
+        description: 'The proposed plan, in Markdown',
+      },
+    },
+    required: ['plan'],
+  };
+
+  /**
+   * @param review - Asks for approval of the plan; null when nobody can approve
+   */
+  constructor(private review: (plan: string) => Promise<PlanDecision | null>) {}
+
+  async execute(params: ExitPlanModeInput | ToolInput): Promise<ToolResult> {
+    const { plan } = params as ExitPlanModeInput;
+    if (!plan) {
+      return {
+        success: false,
+        content: '',
+        error: 'Missing required parameter: plan',
+      };
+    }
+
+    const decision = await this.review(plan);
+    if (!decision) {
+      return {
+        success: true,
+        content:
+          'Nobody is available to approve the plan. Stay in plan mode and reply with the plan as your final answer.',
+      };
+    }
+    if (decision.approved) {
+      return {
+        success: true,
+        content:
+          'The user approved the plan. Plan mode is off and all tools are available. Carry out the plan now.',
+      };
+    }
+    return {
+      success: true,
+      content: decision.feedback
+        ? `The user did not approve the plan and said: ${decision.feedback}\nStay in plan mode, revise the plan and present it again.`
+        : 'The user did not approve the plan. Stay in plan mode, ask what should change or revise the plan.',
+    };
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * TaskTool - Delegate a self-contained task to a sub-agent
+ */
+
+import { Agent, type AgentOptions } from '../agent.js';
+import type { LLMClient } from '../llm-client/llm-client.js';
+import type { AgentRunStatus } from '../schema/index.js';
+import type {
+  Tool,
+  ToolExecuteOptions,
+  ToolInput,
+  ToolResult,
+} from './base.js';
+
+type TaskInput = {
+  description: string;
+  prompt: string;
+  tools?: string[];
+  system_prompt?: string;
+  max_steps?: number;
+};
+
+export const DEFAULT_SUBAGENT_PROMPT = `You are a sub-agent working on a single task delegated by another agent.
+
+Work autonomously with the tools you have. You cannot ask the user questions.
+When you are done, reply with a concise but complete report of your findings or of what you changed (include file paths). Your final message is the only thing the delegating agent will see.`;
+
+export interface TaskToolOptions {
+  llmClient: LLMClient;
+  workspaceDir: string;
+  /** Tools a sub-agent may use (the task tool itself is never passed on) */
+  tools: Tool[];
+  /** Default step limit of a sub-agent */
+  maxSteps: number;
+  /** Default system prompt of a sub-agent */
+  systemPrompt?: string;
+  /** Settings shared with the sub-agents (compaction, permissions, ...) */
+  agentOptions?: AgentOptions;
+}
+
+/**
+ * TaskTool
+ *
+ * Runs a child `Agent` with a fresh message history, so exploration output
+ * stays out of the caller's context. Only the child's final answer is
+ * returned. Several tasks from one turn run in parallel.
+ */
+export class TaskTool implements Tool<TaskInput> {
+  public name = 'task';
+  public description =
+    'Delegate a self-contained task to a sub-agent with its own context. Use it for broad exploration or multi-step work whose intermediate output you do not need (e.g. searching a codebase, summarizing many files). The sub-agent cannot see this conversation, so the prompt must contain everything it needs. Only its final report is returned. Launch several tasks in the same turn to run them in parallel.';
+  public concurrencySafe = true;
+  // The sub-agent's own tool calls go through the permission checks
+  public managesPermissions = true;
+  public parameters = {
+    type: 'object',
+    properties: {
+      description: {
+        type: 'string',
+        description: 'Short (3-5 words) label for the task',
+      },
+      prompt: {
+        type: 'string',
+        description:
+          'Complete instructions for the sub-agent, including what to report back',
+      },
+      tools: {
+        type: 'array',
+        items: { type: 'string' },
+        description:
+          'Names of the tools the sub-agent may use (default: all tools)',
+      },
+      system_prompt: {
+        type: 'string',
+        description: 'Optional system prompt replacing the default one',
+      },
+      max_steps: {
+        type: 'integer',
+        description: 'Maximum steps of the sub-agent',
+      },
+    },
+    required: ['description', 'prompt'],
+  };
+
+  private tools: Tool[];
+
+  constructor(private options: TaskToolOptions) {
+    this.tools = options.tools.filter((tool) => tool.name !== this.name);
+  }
+
+  /**
+   * Resolve the tool subset requested by the caller.
+   *
+   * @throws Error if a requested tool does not exist
+   */
+  private selectTools(names?: string[]): Tool[] {
+    if (!names || names.length === 0) {
+      return this.tools;
+    }
+
+    const unknown = names.filter(
+      (name) => !this.tools.some((tool) => tool.name === name)
+    );
+    if (unknown.length > 0) {
+      const available = this.tools.map((tool) => tool.name).join(', ');
+      throw new Error(
+        `Unknown tool(s) for sub-agent: ${unknown.join(', ')}. Available tools: ${available}`
+      );
+    }
+    return this.tools.filter((tool) => names.includes(tool.name));
+  }
+
+  async execute(
+    params: TaskInput | ToolInput,
+    options: ToolExecuteOptions = {}
+  ): Promise<ToolResult> {
+    const { prompt, tools, system_prompt, max_steps } = params as TaskInput;
+    if (!prompt) {
+      return {
+        success: false,
+        content: '',
+        error: 'Missing required parameter: prompt',
+      };
+    }
+
+    let childTools: Tool[];
+    try {
+      childTools = this.selectTools(tools);
+    } catch (error) {
+      return { success: false, content: '', error: (error as Error).message };
+    }
+
+    const child = new Agent(
+      this.options.llmClient,
+      system_prompt || this.options.systemPrompt || DEFAULT_SUBAGENT_PROMPT,
+      childTools,
+      max_steps && max_steps > 0 ? max_steps : this.options.maxSteps,
+      this.options.workspaceDir,
+      this.options.agentOptions
+    );
+
+    let status = 'completed' as AgentRunStatus;
+    child.subscribe((event) => {
+      if (event.type === 'run_end') {
+        status = event.status;
+      }
+      options.onEvent?.(event);
+    });
+
+    child.addUserMessage(prompt);
+    const answer = await child.run({ signal: options.signal });
+
+    // On a limit the answer holds the sub-agent's progress summary
+    if (status !== 'completed') {
+      return { success: false, content: '', error: answer };
+    }
+    return { success: true, content: answer || '(no output)' };
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * TodoWriteTool - Structured task list the model keeps while it works
+ */
+
+import type { Tool, ToolInput, ToolResult } from './base.js';
+
+export type TodoStatus = 'pending' | 'in_progress' | 'completed';
+
+export const TODO_STATUSES: readonly TodoStatus[] = [
+  'pending',
+  'in_progress',
+  'completed',
+];
+
+export interface TodoItem {
+  content: string;
+  status: TodoStatus;
+}
+
+type TodoWriteInput = {
+  todos: TodoItem[];
+};
+
+const STATUS_MARKERS: Record<TodoStatus, string> = {
+  pending: '[ ]',
+  in_progress: '[~]',
+  completed: '[x]',
+};
+
+/**
+ * Render a todo list as plain text for the model.
+ */
+export function formatTodoList(todos: TodoItem[]): string {
+  const done = todos.filter((todo) => todo.status === 'completed').length;
+  const lines = todos.map(
+    (todo) => `- ${STATUS_MARKERS[todo.status]} ${todo.content}`
+  );
+  return [`[Todo list: ${done}/${todos.length} completed]`, ...lines].join(
+    '\n'
+  );
+}
+
+/**
+ * Check the todo list sent by the model.
+ *
+ * @throws Error describing the first invalid item
+ */
+function validateTodos(value: unknown): TodoItem[] {
+  if (!Array.isArray(value)) {
+    throw new Error('todos must be an array');
+  }
+  return value.map((item: unknown, index) => {
+    const todo = item as Partial<TodoItem> | null;
+    if (!todo || typeof todo.content !== 'string' || !todo.content.trim()) {
+      throw new Error(`todos[${index}].content must be a non-empty string`);
+    }
+    if (!TODO_STATUSES.includes(todo.status as TodoStatus)) {
+      throw new Error(
+        `todos[${index}].status must be one of: ${TODO_STATUSES.join(', ')}`
+      );
+    }
+    return { content: todo.content.trim(), status: todo.status as TodoStatus };
+  });
+}
+
+/**
+ * TodoWriteTool
+ *
+ * Replaces the whole list on every call. The list itself lives on the
+ * `Agent`, which shows it to the user and restores it after compaction.
+ */
+export class TodoWriteTool implements Tool<TodoWriteInput> {
+  public name = 'todo_write';
+  public description =
+    'Create or update your todo list for the current task. Use it for tasks with 3 or more steps: write the list when you start, mark an item in_progress before working on it and completed as soon as it is done, and add items you discover along the way. Always send the complete list. Keep exactly one item in_progress while working.';
+  // Only changes the agent's own list, never the workspace
+  public readOnly = true;
+  public concurrencySafe = false;
+  public parameters = {
+    type: 'object',
+    properties: {
+      todos: {
+        type: 'array',
+        description: 'The complete, updated todo list',
+        items: {
+          type: 'object',
+          properties: {
+            content: {
+              type: 'string',
+              description: 'What needs to be done',
+            },
+            status: {
+              type: 'string',
+              enum: [...TODO_STATUSES],
+            },
+          },
+          required: ['content', 'status'],
+        },
+      },
+    },
+    required: ['todos'],
+  };
+
+  /**
+   * @param update - Stores the new list
+   */
+  constructor(private update: (todos: TodoItem[]) => void) {}
+
+  async execute(params: TodoWriteInput | ToolInput): Promise<ToolResult> {
+    let todos: TodoItem[];
+    try {
+      todos = validateTodos((params as TodoWriteInput).todos);
+    } catch (error) {
+      return { success: false, content: '', error: (error as Error).message };
+    }
+
+    this.update(todos);
+    return { success: true, content: formatTodoList(todos) };
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * Usage module
+ */
+
+export * from './usage.js';
@@ -0,0 +1,128 @@
+/**
+ * Usage - Token accounting and cost calculation
+ */
+
+import type { ModelPricing } from '../config.js';
+import type { TokenUsage } from '../schema/index.js';
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+export function emptyUsage(): TokenUsage {
+  return {
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_read_tokens: 0,
+    cache_write_tokens: 0,
+  };
+}
+
+/**
+ * Sum two usage records.
+ */
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    input_tokens: a.input_tokens + b.input_tokens,
+    output_tokens: a.output_tokens + b.output_tokens,
+    cache_read_tokens: a.cache_read_tokens + b.cache_read_tokens,
+    cache_write_tokens: a.cache_write_tokens + b.cache_write_tokens,
+  };
+}
+
+/**
+ * All tokens of a usage record, cached ones included.
+ */
+export function totalTokens(usage: TokenUsage): number {
+  return (
+    usage.input_tokens +
+    usage.output_tokens +
+    usage.cache_read_tokens +
+    usage.cache_write_tokens
+  );
+}
+
+/**
+ * Cost of the given usage in USD.
+ *
+ * @returns The cost, or null if no price is known for the model
+ */
+export function calculateCost(
+  usage: TokenUsage,
+  pricing?: ModelPricing
+): number | null {
+  if (!pricing) {
+    return null;
+  }
+  const cacheRead = pricing.cacheRead ?? pricing.input;
+  const cacheWrite = pricing.cacheWrite ?? pricing.input;
+  return (
+    (usage.input_tokens * pricing.input +
+      usage.output_tokens * pricing.output +
+      usage.cache_read_tokens * cacheRead +
+      usage.cache_write_tokens * cacheWrite) /
+    TOKENS_PER_PRICE_UNIT
+  );
+}
+
+/**
+ * Format a token count compactly, e.g. `950`, `12.3k`, `1.2M`.
+ */
+export function formatTokens(count: number): string {
+  if (count < 1000) return String(count);
+  if (count < 1_000_000) return `${(count / 1000).toFixed(1)}k`;
+  return `${(count / 1_000_000).toFixed(1)}M`;
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+/**
+ * One-line usage summary, e.g. `↑12.3k ↓1.2k cache 8.0k/0 $0.0123`.
+ */
+export function formatUsageLine(
+  usage: TokenUsage,
+  cost: number | null
+): string {
+  const parts = [
+    `↑${formatTokens(usage.input_tokens)}`,
+    `↓${formatTokens(usage.output_tokens)}`,
+  ];
+  if (usage.cache_read_tokens || usage.cache_write_tokens) {
+    parts.push(
+      `cache ${formatTokens(usage.cache_read_tokens)}/${formatTokens(usage.cache_write_tokens)}`
+    );
+  }
+  if (cost !== null) {
+    parts.push(formatCost(cost));
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Multi-line usage report for `/cost` and the exit summary.
+ */
+export function formatUsageReport(
+  usage: TokenUsage,
+  cost: number | null,
+  model: string
+): string {
+  const total =
+    usage.input_tokens +
+    usage.output_tokens +
+    usage.cache_read_tokens +
+    usage.cache_write_tokens;
+  const rows: Array<[string, string]> = [
+    ['Input tokens', usage.input_tokens.toLocaleString('en-US')],
+    ['Output tokens', usage.output_tokens.toLocaleString('en-US')],
+    ['Cache read tokens', usage.cache_read_tokens.toLocaleString('en-US')],
+    ['Cache write tokens', usage.cache_write_tokens.toLocaleString('en-US')],
+    ['Total tokens', total.toLocaleString('en-US')],
+    [
+      'Cost',
+      cost === null ? `unknown (no pricing for ${model})` : formatCost(cost),
+    ],
+  ];
+  return rows
+    .map(([label, value]) => `  ${label.padEnd(20)}${value}`)
+    .join('\n');
+}
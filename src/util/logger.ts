@@ -5,7 +5,12 @@ import { fileURLToPath } from 'node:url';
 export class Logger {
   private static logFile: string | null = null;
 
-  static initialize(logDir?: string) {
+  /**
+   * Start logging to a new file.
+   *
+   * @returns The path of the log file
+   */
+  static initialize(logDir?: string): string {
     const logsDir =
       logDir ??
       path.join(
@@ -17,7 +22,7 @@ export class Logger {
     }
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     this.logFile = path.join(logsDir, `agent-${timestamp}.log`);
-    console.log(`Logging to file: ${this.logFile}`);
+    return this.logFile;
   }
 
   static log(category: string, message: string, data?: any) {
@@ -1,3 +1,8 @@
+import type { AgentEvent, ToolCall } from '../schema/index.js';
+import type { ToolResult } from '../tools/base.js';
+import type { TodoItem } from '../tools/todo-tool.js';
+import { formatUsageLine } from '../usage/index.js';
+
 // ANSI color codes
 export const Colors = {
   RESET: '\x1b[0m',
@@ -89,12 +94,25 @@ function isWideChar(char: string): boolean {
 
 /**
  * Draw step header.
+ *
+ * @param maxSteps - Step limit, null when there is none
+ * @param usage - Optional usage summary shown right-aligned in the header
  */
-export function drawStepHeader(step: number, maxSteps: number): string {
-  const BOX_WIDTH = 60;
-  const stepText = `${Colors.BOLD}${Colors.BRIGHT_CYAN}💭 Step ${step}/${maxSteps}${Colors.RESET}`;
-  const stepDisplayWidth = calculateDisplayWidth(stepText);
-  const padding = Math.max(0, BOX_WIDTH - 1 - stepDisplayWidth); // -1 for leading space
+export function drawStepHeader(
+  step: number,
+  maxSteps: number | null,
+  usage?: string
+): string {
+  const stepCount = maxSteps === null ? `${step}` : `${step}/${maxSteps}`;
+  const stepText = `${Colors.BOLD}${Colors.BRIGHT_CYAN}💭 Step ${stepCount}${Colors.RESET}`;
+  const usageText = usage ? `${Colors.DIM}${usage}${Colors.RESET}` : '';
+  const contentWidth =
+    calculateDisplayWidth(stepText) +
+    (usage ? calculateDisplayWidth(usageText) + 1 : 0); // +1 for trailing space
+  // Widen the box if the usage summary does not fit
+  const BOX_WIDTH = Math.max(60, contentWidth + 2);
+  const padding = Math.max(0, BOX_WIDTH - 1 - contentWidth); // -1 for leading space
+  const rightText = usage ? `${usageText} ` : '';
 
   const HORIZONTAL = '─';
   const TOP_LEFT = '╭';
@@ -108,7 +126,7 @@ export function drawStepHeader(step: number, maxSteps: number): string {
     `${Colors.DIM}${TOP_LEFT}${HORIZONTAL.repeat(BOX_WIDTH)}${TOP_RIGHT}${Colors.RESET}`
   );
   lines.push(
-    `${Colors.DIM}${VERTICAL}${Colors.RESET} ${stepText}${' '.repeat(padding)}${Colors.DIM}${VERTICAL}${Colors.RESET}`
+    `${Colors.DIM}${VERTICAL}${Colors.RESET} ${stepText}${' '.repeat(padding)}${rightText}${Colors.DIM}${VERTICAL}${Colors.RESET}`
   );
   lines.push(
     `${Colors.DIM}${BOTTOM_LEFT}${HORIZONTAL.repeat(BOX_WIDTH)}${BOTTOM_RIGHT}${Colors.RESET}`
@@ -117,6 +135,30 @@ export function drawStepHeader(step: number, maxSteps: number): string {
   return `\n${lines.join('\n')}`;
 }
 
+/**
+ * Draw the todo list as a checklist.
+ */
+export function drawTodoList(todos: TodoItem[]): string {
+  const done = todos.filter((todo) => todo.status === 'completed').length;
+  const lines = [
+    `${Colors.BOLD}📋 Todos (${done}/${todos.length})${Colors.RESET}`,
+  ];
+  for (const todo of todos) {
+    if (todo.status === 'completed') {
+      lines.push(
+        `  ${Colors.GREEN}✔${Colors.RESET} ${Colors.DIM}${todo.content}${Colors.RESET}`
+      );
+    } else if (todo.status === 'in_progress') {
+      lines.push(
+        `  ${Colors.BRIGHT_YELLOW}▶ ${Colors.BOLD}${todo.content}${Colors.RESET}`
+      );
+    } else {
+      lines.push(`  ${Colors.DIM}☐${Colors.RESET} ${todo.content}`);
+    }
+  }
+  return lines.join('\n');
+}
+
 export function printBanner(): void {
   const BOX_WIDTH = 58;
   const bannerText = '🤖 Mini Agent TS - Multi-turn Interactive Session';
@@ -136,3 +178,276 @@ export function printBanner(): void {
   console.log(`╚${horizontalLine}╝`);
   console.log();
 }
+
+/**
+ * Terminal renderer for agent events.
+ *
+ * Reproduces the interactive CLI output (step headers, streamed thinking and
+ * response, tool calls and results) from the events emitted by `Agent`.
+ */
+export class TerminalRenderer {
+  private isThinkingPrinted = false;
+  private isContentPrinted = false;
+  private runningTools = 0;
+  private usageLine: string | undefined;
+
+  /**
+   * Render a single agent event.
+   */
+  render(event: AgentEvent): void {
+    switch (event.type) {
+      case 'step_start':
+        this.isThinkingPrinted = false;
+        this.isContentPrinted = false;
+        console.log();
+        console.log(drawStepHeader(event.step, event.maxSteps, this.usageLine));
+        break;
+
+      case 'thinking_delta':
+        if (!this.isThinkingPrinted) {
+          console.log();
+          console.log(`${Colors.DIM}─${'─'.repeat(60)}${Colors.RESET}`);
+          console.log();
+          console.log(
+            `${Colors.BOLD}${Colors.BRIGHT_MAGENTA}🧠 Thinking:${Colors.RESET}`
+          );
+          this.isThinkingPrinted = true;
+        }
+        process.stdout.write(event.delta);
+        break;
+
+      case 'content_delta':
+        if (!this.isContentPrinted) {
+          if (this.isThinkingPrinted) {
+            console.log();
+            console.log();
+            console.log(`${Colors.DIM}─${'─'.repeat(60)}${Colors.RESET}`);
+          }
+          // Response only: a single blank line before the title
+          console.log();
+          console.log(
+            `${Colors.BOLD}${Colors.BRIGHT_BLUE}📝 Response:${Colors.RESET}`
+          );
+          this.isContentPrinted = true;
+        }
+        process.stdout.write(event.delta);
+        break;
+
+      case 'message':
+        if (
+          event.message.role === 'assistant' &&
+          !event.message.tool_calls?.length
+        ) {
+          console.log();
+        }
+        break;
+
+      case 'tool_call_start':
+        this.runningTools++;
+        this.renderToolCall(
+          event.toolCall.function.name,
+          event.toolCall.function.arguments || {}
+        );
+        break;
+
+      case 'tool_result': {
+        // Label results when parallel calls may finish out of order
+        const label =
+          this.runningTools > 1 ? event.toolCall.function.name : undefined;
+        this.runningTools = Math.max(0, this.runningTools - 1);
+        this.renderToolResult(event.result, label);
+        break;
+      }
+
+      case 'compaction':
+        console.log(
+          `\n${Colors.DIM}🗜️  Context compacted: ${event.summarizedCount} messages summarized (~${event.tokensBefore} → ~${event.tokensAfter} tokens)${Colors.RESET}`
+        );
+        break;
+
+      case 'run_end':
+        if (event.status === 'interrupted') {
+          console.log(
+            `\n${Colors.YELLOW}⏹  Interrupted by user (press Ctrl+C again at the prompt to exit)${Colors.RESET}`
+          );
+        } else if (
+          event.status === 'loop_detected' ||
+          event.status === 'invalid_output'
+        ) {
+          console.log(`\n${Colors.RED}🔁 ${event.content}${Colors.RESET}`);
+        } else if (event.status === 'blocked') {
+          console.log(
+            `\n${Colors.YELLOW}🚫 Prompt blocked by hook: ${event.content}${Colors.RESET}`
+          );
+        }
+        break;
+
+      case 'limit_reached': {
+        const reason = {
+          max_steps: `the step limit (${event.steps} steps)`,
+          time_limit: 'the time limit',
+          token_budget: 'the token budget',
+        }[event.limit];
+        console.log(
+          `\n${Colors.YELLOW}⏸  Reached ${reason} of this run${Colors.RESET}`
+        );
+        break;
+      }
+
+      case 'todos':
+        if (event.todos.length > 0) {
+          console.log(`\n${drawTodoList(event.todos)}`);
+        }
+        break;
+
+      case 'loop_warning':
+        console.log(
+          `\n${Colors.YELLOW}🔁 ${event.toolName} was repeated ${event.count} times with the same result; asking the model to change course${Colors.RESET}`
+        );
+        break;
+
+      case 'hook_error':
+        console.log(
+          `\n${Colors.YELLOW}⚠️  ${event.hookEvent} hook failed: ${event.error}${Colors.RESET}`
+        );
+        break;
+
+      case 'compaction_failed':
+        console.log(
+          `\n${Colors.YELLOW}⚠️  Context compaction failed: ${event.error}${Colors.RESET}`
+        );
+        break;
+
+      case 'plan_mode':
+        console.log(
+          event.enabled
+            ? `\n${Colors.BRIGHT_MAGENTA}📋 Plan mode on: read-only tools until a plan is approved${Colors.RESET}`
+            : `\n${Colors.BRIGHT_GREEN}📋 Plan mode off: all tools are available${Colors.RESET}`
+        );
+        break;
+
+      case 'usage':
+        this.usageLine = formatUsageLine(event.total, event.cost);
+        break;
+
+      case 'subagent':
+        this.renderSubagentEvent(event.toolCall, event.event, 1);
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  private renderToolCall(name: string, args: Record<string, unknown>): void {
+    console.log(
+      `\n${Colors.BOLD}${Colors.BRIGHT_YELLOW}🔧 Tool: ${name}${Colors.RESET}`
+    );
+
+    console.log(`${Colors.DIM}   Arguments:${Colors.RESET}`);
+    const truncatedArgs: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(args)) {
+      const valueStr = String(value);
+      if (valueStr.length > 200) {
+        truncatedArgs[key] = `${valueStr.slice(0, 200)}...`;
+      } else {
+        truncatedArgs[key] = value;
+      }
+    }
+    const argsJson = JSON.stringify(truncatedArgs, null, 2);
+    for (const line of argsJson.split('\n')) {
+      console.log(`   ${Colors.DIM}${line}${Colors.RESET}`);
+    }
+  }
+
+  private renderToolResult(result: ToolResult, label?: string): void {
+    const suffix = label ? ` (${label})` : '';
+    if (result.success) {
+      let resultText = result.content;
+      const MAX_LENGTH = 300;
+      if (resultText.length > MAX_LENGTH) {
+        resultText = `${resultText.slice(
+          0,
+          MAX_LENGTH
+        )}${Colors.DIM}...${Colors.RESET}`;
+      }
+      console.log(
+        `${Colors.BRIGHT_GREEN}✓${Colors.RESET} ${Colors.BOLD}${Colors.BRIGHT_GREEN}Success${suffix}:${Colors.RESET} ${resultText}\n`
+      );
+    } else {
+      console.log(
+        `${Colors.BRIGHT_RED}✗${Colors.RESET} ${Colors.BOLD}${Colors.BRIGHT_RED}Error${suffix}:${Colors.RESET} ${Colors.RED}${result.error ?? 'Unknown error'}${Colors.RESET}\n`
+      );
+    }
+  }
+
+  /**
+   * Render a sub-agent event as one indented, labelled line.
+   * Deltas are skipped so parallel sub-agents never interleave mid-line.
+   */
+  private renderSubagentEvent(
+    toolCall: ToolCall,
+    event: AgentEvent,
+    depth: number
+  ): void {
+    const description = toolCall.function.arguments?.['description'];
+    const label = typeof description === 'string' ? description : 'task';
+    const indent = `${Colors.DIM}${'  │ '.repeat(depth)}${Colors.RESET}`;
+    const line = (text: string): void => {
+      console.log(`${indent}${Colors.CYAN}[${label}]${Colors.RESET} ${text}`);
+    };
+    const truncate = (text: string, max: number): string => {
+      const flat = text.replace(/\s+/g, ' ').trim();
+      return flat.length > max ? `${flat.slice(0, max)}...` : flat;
+    };
+
+    switch (event.type) {
+      case 'step_start':
+        line(
+          `${Colors.DIM}Step ${event.step}${event.maxSteps === null ? '' : `/${event.maxSteps}`}${Colors.RESET}`
+        );
+        break;
+
+      case 'message':
+        if (event.message.role === 'assistant' && event.message.content) {
+          line(`📝 ${truncate(event.message.content, 300)}`);
+        }
+        break;
+
+      case 'tool_call_start':
+        line(
+          `${Colors.BRIGHT_YELLOW}🔧 ${event.toolCall.function.name}${Colors.RESET} ${Colors.DIM}${truncate(JSON.stringify(event.toolCall.function.arguments ?? {}), 120)}${Colors.RESET}`
+        );
+        break;
+
+      case 'tool_result':
+        if (event.result.success) {
+          line(
+            `${Colors.BRIGHT_GREEN}✓${Colors.RESET} ${Colors.DIM}${truncate(event.result.content, 120)}${Colors.RESET}`
+          );
+        } else {
+          line(
+            `${Colors.BRIGHT_RED}✗ ${truncate(event.result.error ?? 'Unknown error', 120)}${Colors.RESET}`
+          );
+        }
+        break;
+
+      case 'compaction':
+        line(`${Colors.DIM}🗜️  Context compacted${Colors.RESET}`);
+        break;
+
+      case 'subagent':
+        this.renderSubagentEvent(event.toolCall, event.event, depth + 1);
+        break;
+
+      case 'run_end':
+        if (event.status !== 'completed') {
+          line(`${Colors.YELLOW}⏹  ${event.content}${Colors.RESET}`);
+        }
+        break;
+
+      default:
+        break;
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { PassThrough } from "node:stream";
+import { fileURLToPath } from "node:url";
+import { Agent } from "../src/agent.js";
+import {
+  AcpAgent,
+  JsonRpcConnection,
+  toMessageContent,
+  type SessionUpdate,
+} from "../src/acp/index.js";
+import { LLMClient } from "../src/llm-client/llm-client.js";
+import { PermissionManager } from "../src/permissions/index.js";
+import { ReadTool, WriteTool } from "../src/tools/index.js";
+
+const FIXTURES = fileURLToPath(new URL("./fixtures/mock/", import.meta.url));
+
+describe("ACP stdio mode", () => {
+  let workspaceDir: string;
+  let fixture: string;
+  let buffers: Map<string, string>;
+  let requests: { method: string; params: Record<string, unknown> }[];
+  let updates: SessionUpdate[];
+  let client: JsonRpcConnection;
+  let clientToAgent: PassThrough;
+  let agent: Agent;
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "mini-agent-acp-"));
+    fixture = "tool-flow.yaml";
+    buffers = new Map();
+    requests = [];
+    updates = [];
+
+    clientToAgent = new PassThrough();
+    const agentToClient = new PassThrough();
+    new AcpAgent(clientToAgent, agentToClient, async (context) => {
+      const client = new LLMClient(
+        "mock",
+        path.join(FIXTURES, fixture),
+        "mock",
+        "mock-model",
+        { enabled: false, maxRetries: 0 }
+      );
+      agent = new Agent(
+        client,
+        "system",
+        [
+          new ReadTool(context.workspaceDir, context.files),
+          new WriteTool(context.workspaceDir, undefined, context.files),
+        ],
+        5,
+        context.workspaceDir,
+        {
+          permissions: new PermissionManager({
+            workspaceDir: context.workspaceDir,
+            prompt: context.requestPermission,
+          }),
+        }
+      );
+      return agent;
+    });
+
+    // The editor side: serves its buffers and approves every tool call
+    client = new JsonRpcConnection(agentToClient, clientToAgent, {
+      async onRequest(method, params) {
+        const request = params as Record<string, unknown>;
+        requests.push({ method, params: request });
+        switch (method) {
+          case "fs/read_text_file":
+            return { content: buffers.get(request["path"] as string) ?? "" };
+          case "fs/write_text_file":
+            buffers.set(
+              request["path"] as string,
+              request["content"] as string
+            );
+            return null;
+          case "session/request_permission":
+            return { outcome: { outcome: "selected", optionId: "allow_once" } };
+        }
+        throw new Error(`Unexpected request: ${method}`);
+      },
+      onNotification(method, params) {
+        if (method === "session/update") {
+          updates.push((params as { update: SessionUpdate }).update);
+        }
+      },
+    });
+  });
+
+  afterEach(async () => {
+    clientToAgent.end();
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  async function newSession(): Promise<string> {
+    await client.request("initialize", {
+      protocolVersion: 1,
+      clientCapabilities: { fs: { readTextFile: true, writeTextFile: true } },
+    });
+    const { sessionId } = (await client.request("session/new", {
+      cwd: workspaceDir,
+      mcpServers: [],
+    })) as { sessionId: string };
+    return sessionId;
+  }
+
+  it("should stream a prompt through the editor buffers and approvals", async () => {
+    const sessionId = await newSession();
+
+    const result = await client.request("session/prompt", {
+      sessionId,
+      prompt: [{ type: "text", text: "Take a note" }],
+    });
+    expect(result).toEqual({ stopReason: "end_turn" });
+
+    const notesPath = path.join(workspaceDir, "notes.txt");
+    expect(buffers.get(notesPath)).toBe("remember the milk");
+    await expect(fs.access(notesPath)).rejects.toThrow();
+
+    expect(requests.map((request) => request.method)).toEqual([
+      "session/request_permission",
+      "fs/write_text_file",
+      "fs/read_text_file",
+    ]);
+    expect(requests[0].params).toMatchObject({
+      sessionId,
+      toolCall: {
+        toolCallId: "call_1_1",
+        title: "write_file: notes.txt",
+        kind: "edit",
+      },
+    });
+
+    const kinds = [...new Set(updates.map((update) => update.sessionUpdate))];
+    expect(kinds).toEqual([
+      "agent_thought_chunk",
+      "agent_message_chunk",
+      "tool_call",
+      "tool_call_update",
+    ]);
+    expect(
+      updates.filter((u) => u.sessionUpdate === "tool_call_update")
+    ).toEqual([
+      expect.objectContaining({ toolCallId: "call_1_1", status: "completed" }),
+      expect.objectContaining({ toolCallId: "call_2_1", status: "completed" }),
+    ]);
+  });
+
+  it("should reject bad requests and cancel a running prompt", async () => {
+    await expect(client.request("session/load", {})).rejects.toMatchObject({
+      code: -32601,
+    });
+    await expect(
+      client.request("session/new", { cwd: "relative/dir" })
+    ).rejects.toMatchObject({
+      code: -32602,
+      message: "Invalid params at cwd: cwd must be an absolute path",
+    });
+
+    fixture = "slow.yaml";
+    const sessionId = await newSession();
+    const prompt = client.request("session/prompt", {
+      sessionId,
+      prompt: [{ type: "text", text: "Slow" }],
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    client.notify("session/cancel", { sessionId });
+    expect(await prompt).toEqual({ stopReason: "cancelled" });
+
+    expect(
+      toMessageContent([
+        { type: "text", text: "Explain" },
+        {
+          type: "resource",
+          resource: { uri: "file:///repo/a.ts", text: "const a = 1;" },
+        },
+      ])
+    ).toBe('Explain\n\n<file path="/repo/a.ts">\nconst a = 1;\n</file>');
+  });
+
+  it("should drop the prompt from the history when the run fails", async () => {
+    fixture = "errors.yaml";
+    const sessionId = await newSession();
+    await client.request("session/prompt", {
+      sessionId,
+      prompt: [{ type: "text", text: "First" }],
+    });
+
+    await expect(
+      client.request("session/prompt", {
+        sessionId,
+        prompt: [{ type: "text", text: "Second" }],
+      })
+    ).rejects.toMatchObject({ message: expect.stringContaining("503") });
+    expect(agent.messages.slice(1)).toEqual([
+      { role: "user", content: "First" },
+      { role: "assistant", content: "First answer." },
+    ]);
+  });
+});
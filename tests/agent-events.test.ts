@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import * as os from "node:os";
+import { Agent } from "../src/agent.js";
+import type { AgentEvent } from "../src/schema/index.js";
+import type { Tool, ToolResult } from "../src/tools/base.js";
+import { replayResponses } from "./helpers/scripted-client.js";
+
+class EchoTool implements Tool<{ text: string }> {
+  name = "echo";
+  description = "Echo text back";
+  parameters = {
+    type: "object",
+    properties: { text: { type: "string" } },
+    required: ["text"],
+  };
+
+  async execute(params: { text: string }): Promise<ToolResult> {
+    return { success: true, content: params.text };
+  }
+}
+
+describe("Agent events", () => {
+  it("should emit typed events for a tool-using run", async () => {
+    const client = replayResponses([
+      [
+        { thinking: "need echo", done: false },
+        {
+          tool_calls: [
+            {
+              id: "call_1",
+              type: "function",
+              function: { name: "echo", arguments: { text: "hi" } },
+            },
+          ],
+          done: true,
+        },
+      ],
+      [
+        { content: "Echoed: ", done: false },
+        { content: "hi", done: false },
+        { done: true },
+      ],
+    ]);
+
+    const agent = new Agent(client, "system", [new EchoTool()], 5, os.tmpdir());
+    const events: AgentEvent[] = [];
+    agent.subscribe((event) => events.push(event));
+
+    agent.addUserMessage("say hi");
+    const result = await agent.run();
+
+    expect(result).toBe("Echoed: hi");
+    expect(events.map((event) => event.type)).toEqual([
+      "message",
+      "step_start",
+      "thinking_delta",
+      "message",
+      "tool_call_start",
+      "tool_result",
+      "message",
+      "step_end",
+      "step_start",
+      "content_delta",
+      "content_delta",
+      "message",
+      "step_end",
+      "run_end",
+    ]);
+    expect(events.at(-1)).toEqual({
+      type: "run_end",
+      status: "completed",
+      content: "Echoed: hi",
+      steps: 2,
+    });
+  });
+
+  it("should keep running when a listener throws", async () => {
+    const client = replayResponses([[{ content: "ok", done: true }]]);
+    const agent = new Agent(client, "system", [], 5, os.tmpdir());
+    const events: AgentEvent[] = [];
+    agent.subscribe(() => {
+      throw new Error("renderer crashed");
+    });
+    agent.subscribe((event) => events.push(event));
+
+    agent.addUserMessage("hello");
+    expect(await agent.run()).toBe("ok");
+    expect(events.at(-1)).toMatchObject({
+      type: "run_end",
+      status: "completed",
+    });
+  });
+
+  it("should stop emitting after unsubscribe", async () => {
+    const client = replayResponses([[{ content: "ok", done: true }]]);
+    const agent = new Agent(client, "system", [], 5, os.tmpdir());
+    const events: AgentEvent[] = [];
+    const unsubscribe = agent.subscribe((event) => events.push(event));
+
+    unsubscribe();
+    agent.addUserMessage("hello");
+    await agent.run();
+
+    expect(events).toEqual([]);
+  });
+});
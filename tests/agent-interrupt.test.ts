@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import * as os from "node:os";
+import { Agent, INTERRUPTED_MESSAGE } from "../src/agent.js";
+import type { AgentEvent } from "../src/schema/index.js";
+import type {
+  Tool,
+  ToolExecuteOptions,
+  ToolResult,
+} from "../src/tools/base.js";
+import { ScriptedClient, replayResponses } from "./helpers/scripted-client.js";
+
+class WaitTool implements Tool {
+  name = "wait";
+  description = "Wait until aborted";
+  parameters = { type: "object", properties: {} };
+
+  constructor(private onStart: () => void) {}
+
+  async execute(
+    _params: Record<string, unknown>,
+    options?: ToolExecuteOptions
+  ): Promise<ToolResult> {
+    this.onStart();
+    await new Promise<void>((resolve) => {
+      if (options?.signal?.aborted) return resolve();
+      options?.signal?.addEventListener("abort", () => resolve());
+    });
+    return { success: false, content: "", error: "aborted" };
+  }
+}
+
+describe("Agent interruption", () => {
+  it("should keep partial content when the stream is aborted", async () => {
+    const controller = new AbortController();
+    const client = new ScriptedClient(async function* ({ signal }) {
+      yield { content: "partial answer", done: false };
+      controller.abort();
+      if (signal?.aborted) {
+        throw new Error("Request was aborted.");
+      }
+    });
+
+    const agent = new Agent(client, "system", [], 5, os.tmpdir());
+    const events: AgentEvent[] = [];
+    agent.subscribe((event) => events.push(event));
+    agent.addUserMessage("hello");
+
+    const result = await agent.run({ signal: controller.signal });
+
+    expect(result).toBe(INTERRUPTED_MESSAGE);
+    expect(agent.messages.at(-1)).toEqual({
+      role: "assistant",
+      content: `partial answer\n\n[${INTERRUPTED_MESSAGE}]`,
+    });
+    expect(events.at(-1)).toMatchObject({
+      type: "run_end",
+      status: "interrupted",
+    });
+  });
+
+  it("should answer every tool call when aborted during tools", async () => {
+    const controller = new AbortController();
+    const client = replayResponses([
+      [
+        {
+          tool_calls: [
+            {
+              id: "call_1",
+              type: "function",
+              function: { name: "wait", arguments: {} },
+            },
+            {
+              id: "call_2",
+              type: "function",
+              function: { name: "wait", arguments: {} },
+            },
+          ],
+          done: true,
+        },
+      ],
+    ]);
+
+    const tool = new WaitTool(() => controller.abort());
+    const agent = new Agent(client, "system", [tool], 5, os.tmpdir());
+    agent.addUserMessage("wait");
+
+    await agent.run({ signal: controller.signal });
+
+    const toolMessages = agent.messages.filter((msg) => msg.role === "tool");
+    expect(toolMessages).toHaveLength(2);
+    expect(toolMessages[1]).toMatchObject({
+      tool_call_id: "call_2",
+      content: `Error: ${INTERRUPTED_MESSAGE}`,
+    });
+  });
+});
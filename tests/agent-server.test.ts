@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as http from "node:http";
+import * as os from "node:os";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { Agent } from "../src/agent.js";
+import { LLMClient } from "../src/llm-client/llm-client.js";
+import { AgentServer } from "../src/server/index.js";
+
+const FIXTURES = fileURLToPath(new URL("./fixtures/mock/", import.meta.url));
+const TOKEN = "secret-token";
+
+describe("Agent server", () => {
+  let rootDir: string;
+  let fixture: string;
+  let server: AgentServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "mini-agent-server-"));
+    fixture = "unknown-tool.yaml";
+    server = new AgentServer({
+      rootDir,
+      token: TOKEN,
+      createAgent: async (workspaceDir) =>
+        new Agent(
+          new LLMClient(
+            "mock",
+            path.join(FIXTURES, fixture),
+            "mock",
+            "mock-model",
+            { enabled: false, maxRetries: 0 }
+          ),
+          "system",
+          [],
+          5,
+          workspaceDir
+        ),
+    });
+    const address = await server.listen(0, "127.0.0.1");
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await server.close();
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  function request(
+    route: string,
+    init: RequestInit & { json?: unknown } = {}
+  ): Promise<Response> {
+    const { json, ...rest } = init;
+    return fetch(`${baseUrl}${route}`, {
+      ...rest,
+      headers: {
+        Authorization: `Bearer ${TOKEN}`,
+        "Content-Type": "application/json",
+        ...rest.headers,
+      },
+      body: json === undefined ? rest.body : JSON.stringify(json),
+    });
+  }
+
+  it("should guard, create, list and delete sessions", async () => {
+    expect((await fetch(`${baseUrl}/health`)).status).toBe(200);
+    expect((await fetch(`${baseUrl}/sessions`)).status).toBe(401);
+    expect(
+      (
+        await fetch(`${baseUrl}/sessions`, {
+          headers: { Authorization: "Bearer wrong" },
+        })
+      ).status
+    ).toBe(401);
+
+    const escape = await request("/sessions", {
+      method: "POST",
+      json: { workspace: "../outside" },
+    });
+    expect(escape.status).toBe(400);
+
+    const created = await request("/sessions", {
+      method: "POST",
+      json: { workspace: "project-a" },
+    });
+    expect(created.status).toBe(201);
+    const session = (await created.json()) as { id: string };
+    expect(session).toMatchObject({
+      workspaceDir: path.join(rootDir, "project-a"),
+      busy: false,
+      messageCount: 0,
+    });
+    await expect(
+      fs.stat(path.join(rootDir, "project-a"))
+    ).resolves.toBeTruthy();
+
+    const listed = (await (await request("/sessions")).json()) as {
+      sessions: { id: string }[];
+    };
+    expect(listed.sessions.map((s) => s.id)).toEqual([session.id]);
+
+    const removed = await request(`/sessions/${session.id}`, {
+      method: "DELETE",
+    });
+    expect(removed.status).toBe(204);
+    expect((await request(`/sessions/${session.id}`)).status).toBe(404);
+  });
+
+  it("should run messages and stream their events", async () => {
+    const created = await request("/sessions", { method: "POST" });
+    const { id } = (await created.json()) as { id: string };
+
+    const invalid = await request(`/sessions/${id}/messages`, {
+      method: "POST",
+      json: { content: "" },
+    });
+    expect(invalid.status).toBe(400);
+
+    const response = await request(`/sessions/${id}/messages`, {
+      method: "POST",
+      headers: { Accept: "text/event-stream" },
+      json: { content: "Go to the moon" },
+    });
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    const events = (await response.text())
+      .trim()
+      .split("\n\n")
+      .map((block) => {
+        const [type, data] = block.split("\n");
+        return {
+          type: type.slice("event: ".length),
+          data: JSON.parse(data.slice("data: ".length)) as unknown,
+        };
+      });
+    const types = events.map((event) => event.type);
+    expect(types).toContain("content_delta");
+    expect(types).toContain("tool_result");
+    expect(events.at(-1)).toEqual({
+      type: "result",
+      data: expect.objectContaining({
+        status: "completed",
+        result: "That tool is not available, so I stopped.",
+        steps: 2,
+      }),
+    });
+
+    const detail = (await (await request(`/sessions/${id}`)).json()) as {
+      messageCount: number;
+      messages: { role: string }[];
+    };
+    expect(detail.messageCount).toBe(4);
+    expect(detail.messages.map((msg) => msg.role)).toEqual([
+      "user",
+      "assistant",
+      "tool",
+      "assistant",
+    ]);
+
+    // The script has no response left
+    const failed = await request(`/sessions/${id}/messages`, {
+      method: "POST",
+      json: { content: "Again" },
+    });
+    expect(failed.status).toBe(502);
+    expect(await failed.json()).toEqual({
+      error: "Mock script exhausted: all 2 responses were used",
+    });
+    // The failed message is not left in the history
+    expect(server.listSessions()[0].messageCount).toBe(4);
+  });
+
+  it("should refuse cross-site and rebound requests", async () => {
+    const created = await request("/sessions", { method: "POST" });
+    const { id } = (await created.json()) as { id: string };
+
+    // A form post can only send text/plain and similar bodies
+    const form = await request(`/sessions/${id}/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      json: { content: "Run this" },
+    });
+    expect(form.status).toBe(415);
+
+    const crossSite = await request("/sessions", {
+      headers: { Origin: "http://evil.example" },
+    });
+    expect(crossSite.status).toBe(403);
+    expect(await crossSite.json()).toEqual({
+      error: "Origin not allowed: http://evil.example",
+    });
+
+    // DNS rebinding: the browser sends the attacker's host name
+    const { port } = new URL(baseUrl);
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      http
+        .get(
+          {
+            host: "127.0.0.1",
+            port,
+            path: "/health",
+            headers: { Host: `evil.example:${port}` },
+          },
+          (res) => {
+            res.resume();
+            resolve(res.statusCode);
+          }
+        )
+        .on("error", reject);
+    });
+    expect(status).toBe(403);
+    expect(server.listSessions()[0].messageCount).toBe(0);
+  });
+
+  it("should run one message per session at a time", async () => {
+    fixture = "slow.yaml";
+    const created = await request("/sessions", { method: "POST" });
+    const { id } = (await created.json()) as { id: string };
+
+    const first = request(`/sessions/${id}/messages`, {
+      method: "POST",
+      json: { content: "Slow" },
+    });
+    // Wait until the run has started
+    for (let i = 0; i < 100 && !server.listSessions()[0].busy; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    const second = await request(`/sessions/${id}/messages`, {
+      method: "POST",
+      json: { content: "Fast" },
+    });
+    expect(second.status).toBe(409);
+
+    const interrupt = await request(`/sessions/${id}/interrupt`, {
+      method: "POST",
+    });
+    expect(await interrupt.json()).toEqual({ interrupted: true });
+    expect(await (await first).json()).toMatchObject({
+      status: "interrupted",
+    });
+    expect(server.listSessions()[0].busy).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  completeMention,
+  findMentions,
+  resolveAttachments,
+} from "../src/attachments/index.js";
+import { OpenAIClient } from "../src/llm-client/openai-client.js";
+import type { ContentBlock, Message } from "../src/schema/index.js";
+
+// 1x1 transparent PNG
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==",
+  "base64"
+);
+
+describe("Attachments", () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), "mini-agent-attachments-")
+    );
+    await fs.mkdir(path.join(workspaceDir, "src"));
+    await fs.writeFile(
+      path.join(workspaceDir, "src", "app.ts"),
+      "const a = 1;\nconst b = 2;\n"
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("should inline mentioned text files with line numbers and limits", async () => {
+    await fs.writeFile(
+      path.join(workspaceDir, "long.txt"),
+      "one\ntwo\nthree\nfour\n"
+    );
+    await fs.writeFile(
+      path.join(workspaceDir, "data.bin"),
+      Buffer.from([0, 1])
+    );
+
+    expect(
+      findMentions('Ask @alice about @"my file.md", and @src/app.ts.')
+    ).toEqual(["alice", "my file.md", "src/app.ts"]);
+
+    const input = "Compare @src/app.ts with @long.txt (and @alice, @data.bin)";
+    const result = resolveAttachments(input, workspaceDir, {
+      maxLines: 2,
+      maxTextBytes: 1024,
+      maxImageBytes: 1024,
+    });
+    expect(result.content).toBe(
+      [
+        input,
+        '<file path="src/app.ts">\n     1|const a = 1;\n     2|const b = 2;\n</file>',
+        '<file path="long.txt">\n     1|one\n     2|two\n[Truncated after line 2; use read_file for the rest]\n</file>',
+      ].join("\n\n")
+    );
+    expect(result.attachments.map((a) => [a.reference, a.truncated])).toEqual([
+      ["src/app.ts", false],
+      ["long.txt", true],
+    ]);
+    expect(result.errors).toEqual([
+      "data.bin: binary files cannot be attached",
+    ]);
+  });
+
+  it("should attach images as blocks for Anthropic and OpenAI", async () => {
+    await fs.writeFile(path.join(workspaceDir, "shot.png"), PNG);
+
+    const result = resolveAttachments("What is in @shot.png?", workspaceDir);
+    const image = {
+      type: "image",
+      source: {
+        type: "base64",
+        media_type: "image/png",
+        data: PNG.toString("base64"),
+      },
+    };
+    expect(result.content).toEqual([
+      { type: "text", text: "What is in @shot.png?" },
+      image,
+    ]);
+
+    const client = new OpenAIClient("key", "https://api.example.com", "m", {
+      enabled: false,
+      maxRetries: 0,
+    });
+    const messages: Message[] = [
+      { role: "user", content: result.content as ContentBlock[] },
+    ];
+    expect(client.prepareRequest(messages)["apiMessages"]).toEqual([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "What is in @shot.png?" },
+          {
+            type: "image_url",
+            image_url: {
+              url: `data:image/png;base64,${PNG.toString("base64")}`,
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should complete workspace paths after @", async () => {
+    await fs.writeFile(path.join(workspaceDir, ".env"), "");
+
+    expect(completeMention("look at @s", workspaceDir)).toEqual([
+      ["@src/"],
+      "@s",
+    ]);
+    expect(completeMention("look at @src/a", workspaceDir)).toEqual([
+      ["@src/app.ts"],
+      "@src/a",
+    ]);
+    expect(completeMention("@", workspaceDir)[0]).toEqual(["@src/"]);
+    expect(completeMention("@.e", workspaceDir)[0]).toEqual(["@.env"]);
+    expect(completeMention("no mention", workspaceDir)).toEqual([
+      [],
+      "no mention",
+    ]);
+  });
+});
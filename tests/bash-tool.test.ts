@@ -49,6 +49,22 @@ describeIf("Bash tool", () => {
     expect(result.error?.toLowerCase()).toContain("timed out");
   }, 10000);
 
+  it("should kill foreground commands when aborted", async () => {
+    const tool = new BashTool();
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+
+    const started = Date.now();
+    const result = await tool.execute(
+      { command: "sleep 5" },
+      { signal: controller.signal }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.toLowerCase()).toContain("interrupted");
+    expect(Date.now() - started).toBeLessThan(4000);
+  }, 10000);
+
   it("should run background commands and fetch output", async () => {
     const tool = new BashTool();
     const result = await tool.execute({
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { CheckpointStore } from "../src/checkpoints/index.js";
+import { EditTool, WriteTool } from "../src/tools/index.js";
+
+describe("Checkpoints", () => {
+  let tempDir: string;
+  let workspaceDir: string;
+  let store: CheckpointStore;
+  let writeTool: WriteTool;
+  let editTool: EditTool;
+
+  const file = (name: string) => path.join(workspaceDir, name);
+  const read = (name: string) => fs.readFileSync(file(name), "utf8");
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoints-test-"));
+    workspaceDir = path.join(tempDir, "workspace");
+    fs.mkdirSync(workspaceDir);
+    fs.writeFileSync(file("a.txt"), "one");
+
+    store = new CheckpointStore(workspaceDir, path.join(tempDir, "store"));
+    store.open("session-1");
+    writeTool = new WriteTool(workspaceDir, store);
+    editTool = new EditTool(workspaceDir, store);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should undo the file changes of the last turn", async () => {
+    store.begin(1, "first");
+    await editTool.execute({ path: "a.txt", old_str: "one", new_str: "two" });
+    await editTool.execute({ path: "a.txt", old_str: "two", new_str: "three" });
+    await writeTool.execute({ path: "new/b.txt", content: "new file" });
+    store.begin(3, "second");
+
+    expect(read("a.txt")).toBe("three");
+    const result = store.undo();
+
+    expect(result?.checkpoints.map((c) => c.turn)).toEqual([1]);
+    expect(result?.restored).toEqual([file("a.txt")]);
+    expect(result?.deleted).toEqual([file("new/b.txt")]);
+    expect(read("a.txt")).toBe("one");
+    expect(fs.existsSync(file("new/b.txt"))).toBe(false);
+    expect(store.undo()).toBeNull();
+  });
+
+  it("should rewind several turns and keep the checkpoints across restarts", async () => {
+    store.begin(1, "first");
+    await editTool.execute({ path: "a.txt", old_str: "one", new_str: "two" });
+    store.begin(3, "second");
+    await editTool.execute({ path: "a.txt", old_str: "two", new_str: "three" });
+    store.begin(5, "third");
+    await writeTool.execute({ path: "c.txt", content: "created" });
+
+    const reopened = new CheckpointStore(
+      workspaceDir,
+      path.join(tempDir, "store")
+    );
+    reopened.open("session-1");
+    expect(reopened.list().map((c) => c.turn)).toEqual([1, 2, 3]);
+
+    const result = reopened.rewind(2);
+    expect(result.checkpoints.map((c) => c.turn)).toEqual([3, 2]);
+    expect(read("a.txt")).toBe("two");
+    expect(fs.existsSync(file("c.txt"))).toBe(false);
+    expect(reopened.list().map((c) => c.turn)).toEqual([1]);
+    expect(() => reopened.rewind(2)).toThrow("No checkpoint for turn 2");
+  });
+});
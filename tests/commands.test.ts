@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Agent } from "../src/agent.js";
+import type { AgentRuntime } from "../src/bootstrap.js";
+import { CheckpointStore } from "../src/checkpoints/index.js";
+import {
+  BUILTIN_COMMANDS,
+  CommandRegistry,
+  parseCommand,
+  type CommandContext,
+  type SlashCommand,
+} from "../src/commands/index.js";
+import { LLMClient } from "../src/llm-client/llm-client.js";
+import type { Message } from "../src/schema/index.js";
+import type { Session } from "../src/session/index.js";
+
+function createContext(
+  agent: Agent,
+  synced: Message[][] = [],
+  checkpoints = new CheckpointStore(agent.workspaceDir)
+) {
+  const registry = new CommandRegistry();
+  for (const command of BUILTIN_COMMANDS) {
+    registry.register(command);
+  }
+  return {
+    agent,
+    registry,
+    runtime: {
+      config: {
+        getModelPricing: (model: string) =>
+          model === "model-b" ? { input: 3, output: 15 } : undefined,
+      },
+      checkpoints,
+    } as unknown as AgentRuntime,
+    session: {
+      sync: (messages: Message[]) => synced.push([...messages]),
+    } as unknown as Session,
+  } as unknown as CommandContext;
+}
+
+function createAgent(workspaceDir: string): Agent {
+  const client = new LLMClient(
+    "key",
+    "https://api.example.com",
+    "openai",
+    "model-a",
+    { enabled: false, maxRetries: 0 }
+  );
+  return new Agent(client, "system", [], 5, workspaceDir);
+}
+
+async function run(line: string, context: CommandContext): Promise<void> {
+  const parsed = parseCommand(line);
+  if (!parsed) throw new Error(`Not a command: ${line}`);
+  await context.registry.get(parsed.name)?.execute(parsed.args, context);
+}
+
+describe("Slash commands", () => {
+  it("should parse command lines with quoted arguments", () => {
+    expect(parseCommand('/save "my notes.md" --force')).toEqual({
+      name: "save",
+      args: ["my notes.md", "--force"],
+    });
+    expect(parseCommand("/HELP")).toEqual({ name: "help", args: [] });
+    expect(parseCommand("/etc/hosts is missing")).toBeNull();
+    expect(parseCommand("what does /help do?")).toBeNull();
+  });
+
+  it("should register commands of tools and plugins under their source", () => {
+    const registry = new CommandRegistry();
+    const deploy: SlashCommand = {
+      name: "deploy",
+      aliases: ["ship"],
+      description: "Deploy the app",
+      execute: () => {},
+    };
+    registry.register(deploy, "deploy-plugin");
+
+    expect(registry.get("SHIP")).toBe(deploy);
+    expect(deploy.source).toBe("deploy-plugin");
+    expect(() =>
+      registry.register({ ...deploy, name: "other", aliases: ["deploy"] })
+    ).toThrow("Command /deploy is already registered by deploy-plugin");
+    expect(registry.get("other")).toBeUndefined();
+  });
+
+  it("should not rewind the conversation to a turn from before /clear", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "mini-agent-cmd-"));
+    const agent = createAgent(root);
+    const checkpoints = new CheckpointStore(root, path.join(root, "store"));
+    checkpoints.open("session-1");
+    const context = createContext(agent, [], checkpoints);
+
+    checkpoints.begin(agent.messages.length, "Hello");
+    agent.messages.push({ role: "user", content: "Hello" });
+    await run("/clear", context);
+    // The same prompt now sits where the old turn was
+    agent.messages.push(
+      { role: "user", content: "Hello" },
+      { role: "assistant", content: "Hi again" }
+    );
+    const messages = [...agent.messages];
+
+    await run("/rewind 1", context);
+    expect(agent.messages).toEqual(messages);
+    expect(checkpoints.list()).toEqual([]);
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("should clear, save and switch the model of the conversation", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "mini-agent-cmd-"));
+    const agent = createAgent(root);
+    const synced: Message[][] = [];
+    const context = createContext(agent, synced);
+    agent.messages.push(
+      { role: "user", content: "Hello" },
+      { role: "assistant", content: "Hi there" }
+    );
+
+    await run('/save "out/chat.md"', context);
+    const transcript = await fs.readFile(
+      path.join(root, "out", "chat.md"),
+      "utf8"
+    );
+    expect(transcript).toBe(
+      "# Conversation\n\n## User\n\nHello\n\n## Assistant\n\nHi there\n"
+    );
+
+    await run("/clear", context);
+    expect(agent.messages).toEqual([
+      { role: "system", content: agent.systemPrompt },
+    ]);
+    expect(synced).toEqual([agent.messages]);
+
+    await run("/model model-b --provider anthropic", context);
+    expect(agent.llmClient.model).toBe("model-b");
+    expect(agent.llmClient.provider).toBe("anthropic");
+    expect(agent.pricing).toEqual({ input: 3, output: 15 });
+    expect(() => agent.llmClient.switchModel("model-c", "unknown")).toThrow(
+      "Unsupported provider: unknown"
+    );
+    expect(agent.llmClient.model).toBe("model-b");
+
+    await fs.rm(root, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import {
+  ContextCompactor,
+  SUMMARY_PREFIX,
+  estimateMessagesTokens,
+  findCompactionSplit,
+} from "../src/compaction/index.js";
+import type { Message } from "../src/schema/schema.js";
+import { replayResponses } from "./helpers/scripted-client.js";
+
+function createConversation(): Message[] {
+  return [
+    { role: "system", content: "system prompt" },
+    { role: "user", content: "read both files" },
+    {
+      role: "assistant",
+      content: "",
+      tool_calls: [
+        {
+          id: "call_1",
+          type: "function",
+          function: { name: "read_file", arguments: { path: "a.txt" } },
+        },
+        {
+          id: "call_2",
+          type: "function",
+          function: { name: "read_file", arguments: { path: "b.txt" } },
+        },
+      ],
+    },
+    { role: "tool", content: "a", tool_call_id: "call_1" },
+    { role: "tool", content: "b", tool_call_id: "call_2" },
+    { role: "assistant", content: "done" },
+    { role: "user", content: "thanks" },
+    { role: "assistant", content: "you are welcome" },
+  ];
+}
+
+function createSummaryClient(summary: string) {
+  return replayResponses([[{ content: summary, done: false }, { done: true }]]);
+}
+
+describe("Context compaction", () => {
+  it("should estimate tokens from message content", () => {
+    const messages: Message[] = [{ role: "user", content: "x".repeat(400) }];
+    expect(estimateMessagesTokens(messages)).toBeGreaterThanOrEqual(100);
+  });
+
+  it("should never split between a tool call and its results", () => {
+    const messages = createConversation();
+    // Keeping 4 messages would start at the second tool result
+    const split = findCompactionSplit(messages, 4);
+    expect(split).toBe(2);
+    expect(messages[split!]?.role).toBe("assistant");
+  });
+
+  it("should return null when there is nothing to summarize", () => {
+    const messages = createConversation();
+    expect(findCompactionSplit(messages, messages.length)).toBeNull();
+  });
+
+  it("should only trigger past the configured threshold", () => {
+    const compactor = new ContextCompactor({
+      enabled: true,
+      contextWindow: 1000,
+      threshold: 0.5,
+      keepRecentMessages: 2,
+    });
+    const messages = createConversation();
+    expect(compactor.shouldCompact(messages)).toBe(false);
+    messages[3] = {
+      role: "tool",
+      content: "x".repeat(4000),
+      tool_call_id: "call_1",
+    };
+    expect(compactor.shouldCompact(messages)).toBe(true);
+  });
+
+  it("should not trigger when the kept messages alone pass the threshold", () => {
+    const compactor = new ContextCompactor({
+      enabled: true,
+      contextWindow: 1000,
+      threshold: 0.5,
+      keepRecentMessages: 2,
+    });
+    const messages = createConversation();
+    messages[7] = { role: "assistant", content: "x".repeat(4000) };
+    // Summarizing the older turns could not get below the threshold
+    expect(compactor.shouldCompact(messages)).toBe(false);
+    expect(
+      compactor.shouldCompact([{ role: "user", content: "x".repeat(4000) }])
+    ).toBe(false);
+  });
+
+  it("should replace older turns with a single summary message", async () => {
+    const compactor = new ContextCompactor({
+      enabled: true,
+      contextWindow: 1000,
+      threshold: 0.5,
+      keepRecentMessages: 3,
+    });
+    const messages = createConversation();
+    const result = await compactor.compact(
+      messages,
+      createSummaryClient("User asked to read a.txt and b.txt.")
+    );
+
+    expect(result).not.toBeNull();
+    expect(result!.summarizedCount).toBe(4);
+    expect(result!.messages).toHaveLength(5);
+    expect(result!.messages[0]).toEqual(messages[0]);
+    expect(result!.messages[1]?.role).toBe("user");
+    expect(result!.messages[1]?.content).toContain(SUMMARY_PREFIX);
+    expect(result!.messages.slice(2)).toEqual(messages.slice(5));
+  });
+
+  it("should merge the summary into a kept user message", async () => {
+    const compactor = new ContextCompactor({
+      enabled: true,
+      contextWindow: 1000,
+      threshold: 0.5,
+      keepRecentMessages: 2,
+    });
+    const messages = createConversation();
+    const result = await compactor.compact(
+      messages,
+      createSummaryClient("User asked to read a.txt and b.txt.")
+    );
+
+    expect(result!.summarizedCount).toBe(5);
+    expect(result!.messages.map((msg) => msg.role)).toEqual([
+      "system",
+      "user",
+      "assistant",
+    ]);
+    expect(result!.messages[1]?.content).toBe(
+      `${SUMMARY_PREFIX}\n\nUser asked to read a.txt and b.txt.\n\nthanks`
+    );
+  });
+});
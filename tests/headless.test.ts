@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { PassThrough } from "node:stream";
+import { fileURLToPath } from "node:url";
+import { Config } from "../src/config.js";
+import {
+  EXIT_CODES,
+  buildHeadlessPrompt,
+  readStdin,
+  runHeadless,
+  type OutputFormat,
+} from "../src/headless.js";
+
+const FIXTURES = fileURLToPath(new URL("./fixtures/mock/", import.meta.url));
+const MCP_SERVER = fileURLToPath(
+  new URL("./fixtures/mcp/echo-server.mjs", import.meta.url)
+);
+
+describe("Headless mode", () => {
+  it("should combine the prompt argument with piped stdin", () => {
+    expect(buildHeadlessPrompt("Review this diff", "diff --git a b\n")).toBe(
+      "Review this diff\n\ndiff --git a b"
+    );
+    expect(buildHeadlessPrompt(undefined, " from stdin ")).toBe("from stdin");
+    expect(buildHeadlessPrompt("only the argument", "")).toBe(
+      "only the argument"
+    );
+    expect(buildHeadlessPrompt(undefined, "  ")).toBe("");
+  });
+
+  it("should read piped stdin, but warn and stop waiting when none comes", async () => {
+    const piped = new PassThrough();
+    const read = readStdin(1000, piped);
+    piped.write("diff --git a b\n");
+    piped.end("+added\n");
+    expect(await read).toBe("diff --git a b\n+added\n");
+
+    const warnings: string[] = [];
+    const silent = new PassThrough();
+    expect(await readStdin(20, silent, (text) => warnings.push(text))).toBe("");
+    expect(warnings).toEqual([
+      expect.stringContaining("Ignoring stdin: no input arrived within 0.02s"),
+    ]);
+  });
+});
+
+describe("runHeadless", () => {
+  let tempDir: string;
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "mini-agent-headless-"));
+    workspaceDir = path.join(tempDir, "workspace");
+    await fs.mkdir(workspaceDir);
+    // Sessions and checkpoints are stored under $HOME
+    vi.stubEnv("HOME", tempDir);
+    vi.spyOn(console, "log");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function run(
+    fixture: string,
+    outputFormat: OutputFormat,
+    maxSteps = 10,
+    mcpConfigPath = "missing-mcp.json"
+  ): Promise<{ exitCode: number; output: string }> {
+    const configPath = path.join(tempDir, "config.yaml");
+    await fs.writeFile(
+      configPath,
+      [
+        "apiKey: mock",
+        `apiBase: ${JSON.stringify(path.join(FIXTURES, fixture))}`,
+        "provider: mock",
+        "model: mock-model",
+        `maxSteps: ${maxSteps}`,
+        "retry:",
+        "  enabled: false",
+        "tools:",
+        `  skillsDir: ${JSON.stringify(path.join(tempDir, "skills"))}`,
+        `  mcpConfigPath: ${mcpConfigPath}`,
+        "  mcp: {}",
+      ].join("\n")
+    );
+
+    let output = "";
+    const exitCode = await runHeadless({
+      prompt: "Take a note",
+      outputFormat,
+      workspaceDir,
+      permissionMode: "acceptEdits",
+      config: Config.fromYaml(configPath),
+      output: (text) => {
+        output += text;
+      },
+    });
+    return { exitCode, output };
+  }
+
+  it("should print only the answer in text format", async () => {
+    const { exitCode, output } = await run("tool-flow.yaml", "text");
+
+    expect(exitCode).toBe(EXIT_CODES.SUCCESS);
+    expect(output).toBe("The notes say to remember the milk.\n");
+    // Progress messages went to stderr
+    expect(console.log).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith("Loading Claude Skills...");
+  });
+
+  it("should print one result object in json format", async () => {
+    const { exitCode, output } = await run("tool-flow.yaml", "json");
+
+    expect(exitCode).toBe(EXIT_CODES.SUCCESS);
+    const result = JSON.parse(output);
+    expect(result).toMatchObject({
+      type: "result",
+      status: "completed",
+      is_error: false,
+      result: "The notes say to remember the milk.",
+      session_id: expect.any(String),
+    });
+  });
+
+  it("should stream the events before the result in stream-json format", async () => {
+    const { exitCode, output } = await run("tool-flow.yaml", "stream-json");
+
+    expect(exitCode).toBe(EXIT_CODES.SUCCESS);
+    const lines = output
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    const types = lines.map((line) => line.type);
+    expect(types).toContain("tool_call_start");
+    expect(types.at(-2)).toBe("run_end");
+    expect(lines.at(-1)).toMatchObject({ type: "result", status: "completed" });
+  });
+
+  it("should exit with the code of an error or a reached limit", async () => {
+    const failed = await run("missing.yaml", "json");
+    expect(failed.exitCode).toBe(EXIT_CODES.ERROR);
+    expect(JSON.parse(failed.output)).toMatchObject({
+      status: "error",
+      is_error: true,
+      error: expect.stringContaining("Mock script not found"),
+    });
+
+    const limited = await run("max-steps.yaml", "text", 2);
+    expect(limited.exitCode).toBe(EXIT_CODES.MAX_STEPS);
+    expect(limited.output).toBe(
+      "Task couldn't be completed after 2 steps.\n\nRead a.txt and b.txt. Left: c.txt.\n"
+    );
+  });
+
+  it("should keep the MCP progress messages out of the output", async () => {
+    // Found through $HOME/.mini-agent-ts/config
+    const configDir = path.join(tempDir, ".mini-agent-ts", "config");
+    await fs.mkdir(configDir, { recursive: true });
+    await fs.writeFile(
+      path.join(configDir, "headless-mcp.json"),
+      JSON.stringify({
+        mcpServers: {
+          echo: { command: process.execPath, args: [MCP_SERVER] },
+          broken: {
+            command: process.execPath,
+            args: ["-e", "process.exit(1)"],
+          },
+        },
+      })
+    );
+
+    const { exitCode, output } = await run(
+      "tool-flow.yaml",
+      "json",
+      10,
+      "headless-mcp.json"
+    );
+
+    expect(exitCode).toBe(EXIT_CODES.SUCCESS);
+    expect(JSON.parse(output)).toMatchObject({ status: "completed" });
+    expect(console.log).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("Connected to MCP server 'echo'")
+    );
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("Failed to connect to MCP server 'broken'")
+    );
+  });
+});
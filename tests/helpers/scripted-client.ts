@@ -0,0 +1,60 @@
+import { LLMClient } from "../../src/llm-client/llm-client.js";
+import type { LLMStreamChunk, Message } from "../../src/schema/index.js";
+import type { Tool } from "../../src/tools/index.js";
+
+export interface ScriptedRequest {
+  messages: Message[];
+  tools: Tool[];
+  signal?: AbortSignal;
+  /** Position of the request, starting at 0 */
+  index: number;
+}
+
+/**
+ * Produce the streamed chunks of one response.
+ */
+export type Respond = (
+  request: ScriptedRequest
+) => Iterable<LLMStreamChunk> | AsyncIterable<LLMStreamChunk>;
+
+/**
+ * LLM client whose responses are computed by the test.
+ *
+ * For fixed responses that only need the agent's behaviour, prefer the mock
+ * provider with a script in `fixtures/mock/`.
+ */
+export class ScriptedClient extends LLMClient {
+  /** Messages of every request, in order */
+  requests: Message[][] = [];
+  /** Names of the tools offered with every request, in order */
+  offeredTools: string[][] = [];
+
+  constructor(private respond: Respond = () => []) {
+    // The provider client is never used: every request goes to `respond`
+    super("scripted", "http://localhost", "openai", "scripted-model", {
+      enabled: false,
+      maxRetries: 0,
+    });
+  }
+
+  override async *generateStream(
+    messages: Message[],
+    tools?: Tool[] | null,
+    signal?: AbortSignal
+  ): AsyncGenerator<LLMStreamChunk> {
+    const index = this.requests.length;
+    this.requests.push([...messages]);
+    this.offeredTools.push((tools ?? []).map((tool) => tool.name));
+    yield* this.respond({ messages, tools: tools ?? [], signal, index });
+  }
+}
+
+/**
+ * A client streaming the next list of chunks for every request. Once the
+ * lists run out, the last one is repeated.
+ */
+export function replayResponses(responses: LLMStreamChunk[][]): ScriptedClient {
+  return new ScriptedClient(
+    ({ index }) => responses[Math.min(index, responses.length - 1)] ?? []
+  );
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import * as os from "node:os";
+import { Agent } from "../src/agent.js";
+import type { HookConfig, HooksConfig } from "../src/config.js";
+import { HookRunner } from "../src/hooks/index.js";
+import type { LLMClient } from "../src/llm-client/llm-client.js";
+import type { Tool, ToolInput, ToolResult } from "../src/tools/index.js";
+import { ScriptedClient } from "./helpers/scripted-client.js";
+
+class EchoTool implements Tool {
+  name = "echo";
+  description = "Echo the input";
+  parameters = { type: "object", properties: {} };
+  calls: ToolInput[] = [];
+
+  async execute(params: ToolInput): Promise<ToolResult> {
+    this.calls.push(params);
+    return { success: true, content: JSON.stringify(params) };
+  }
+}
+
+function hook(command: string, matcher?: string): HookConfig {
+  return { command, matcher, timeout: 10 };
+}
+
+function createRunner(hooks: Partial<HooksConfig>): HookRunner {
+  return new HookRunner(
+    {
+      PreToolUse: [],
+      PostToolUse: [],
+      UserPromptSubmit: [],
+      Stop: [],
+      SessionStart: [],
+      ...hooks,
+    },
+    os.tmpdir()
+  );
+}
+
+function createAgent(
+  hooks: HookRunner,
+  client: LLMClient = new ScriptedClient()
+) {
+  const tool = new EchoTool();
+  const agent = new Agent(client, "system", [tool], 10, os.tmpdir(), {
+    hooks,
+  });
+  return { agent, tool };
+}
+
+describe("Hooks", () => {
+  it("should block a tool call when a PreToolUse hook exits with code 2", async () => {
+    const { agent, tool } = createAgent(
+      createRunner({
+        PreToolUse: [hook('echo "not allowed" >&2; exit 2', "echo")],
+      })
+    );
+
+    const result = await agent.executeTool("echo", { text: "hi" });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Blocked by PreToolUse hook: not allowed");
+    expect(tool.calls).toHaveLength(0);
+  });
+
+  it("should only run hooks whose matcher matches the tool name", async () => {
+    const { agent, tool } = createAgent(
+      createRunner({ PreToolUse: [hook("exit 2", "bash|write_file")] })
+    );
+
+    const result = await agent.executeTool("echo", { text: "hi" });
+    expect(result.success).toBe(true);
+    expect(tool.calls).toHaveLength(1);
+  });
+
+  it("should apply updated_input and additional_context", async () => {
+    const { agent, tool } = createAgent(
+      createRunner({
+        PreToolUse: [hook(`echo '{"updated_input": {"text": "changed"}}'`)],
+        PostToolUse: [
+          hook(`echo '{"additional_context": "Remember to run the tests"}'`),
+        ],
+      })
+    );
+
+    const result = await agent.executeTool("echo", { text: "hi", n: 1 });
+    expect(tool.calls).toEqual([{ text: "changed", n: 1 }]);
+    expect(result.content).toBe(
+      '{"text":"changed","n":1}\n\nRemember to run the tests'
+    );
+  });
+
+  it("should validate the arguments a PreToolUse hook returns", async () => {
+    const runner = (input: string) =>
+      createRunner({
+        PreToolUse: [hook(`echo '{"updated_input": ${input}}'`)],
+      });
+    const { agent, tool } = createAgent(runner('{"n": "3"}'));
+    tool.parameters = {
+      type: "object",
+      properties: { text: { type: "string" }, n: { type: "integer" } },
+    };
+
+    await agent.executeTool("echo", { text: "hi", n: 1 });
+    expect(tool.calls).toEqual([{ text: "hi", n: 3 }]);
+
+    agent.hooks = runner('{"n": "three"}');
+    const result = await agent.executeTool("echo", { text: "hi", n: 1 });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(
+      "Invalid arguments for echo:\n- $.n: must be integer, got string\n(The arguments were changed by a PreToolUse hook)"
+    );
+    expect(tool.calls).toHaveLength(1);
+  });
+
+  it("should pass the event as JSON on stdin and report failing hooks", async () => {
+    const runner = createRunner({
+      UserPromptSubmit: [
+        hook("echo boom >&2; exit 1"),
+        hook("cat >&2; exit 2"),
+      ],
+    });
+    runner.sessionId = "session-1";
+
+    const outcome = await runner.run({
+      hook_event_name: "UserPromptSubmit",
+      prompt: "hello",
+    });
+    expect(outcome.blocked).toBe(true);
+    expect(JSON.parse(outcome.reason ?? "")).toEqual({
+      hook_event_name: "UserPromptSubmit",
+      prompt: "hello",
+      session_id: "session-1",
+      cwd: os.tmpdir(),
+    });
+    expect(outcome.errors).toEqual([
+      "echo boom >&2; exit 1: exited with code 1: boom",
+    ]);
+  });
+
+  it("should keep the run going when a Stop hook blocks", async () => {
+    const client = new ScriptedClient(({ index }) => [
+      { content: `answer ${index + 1}`, done: true },
+    ]);
+    // Blocks the first stop only
+    const { agent } = createAgent(
+      createRunner({
+        Stop: [
+          hook(
+            `grep -q '"stop_hook_active":true' || { echo "Run the tests first" >&2; exit 2; }`
+          ),
+        ],
+      }),
+      client
+    );
+
+    agent.addUserMessage("Fix the bug");
+    const answer = await agent.run();
+
+    expect(answer).toBe("answer 2");
+    expect(client.requests).toHaveLength(2);
+    expect(client.requests[1].at(-1)).toEqual({
+      role: "user",
+      content: "Run the tests first",
+    });
+  });
+
+  it("should drop a prompt blocked by a UserPromptSubmit hook", async () => {
+    const { agent } = createAgent(
+      createRunner({
+        UserPromptSubmit: [hook('echo "No secrets please" >&2; exit 2')],
+      })
+    );
+
+    agent.addUserMessage("my password is hunter2");
+    const answer = await agent.run();
+
+    expect(answer).toBe("No secrets please");
+    expect(agent.messages).toHaveLength(1);
+  });
+});
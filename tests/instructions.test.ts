@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Agent } from "../src/agent.js";
+import { findImports, loadInstructions } from "../src/instructions/index.js";
+import { ScriptedClient } from "./helpers/scripted-client.js";
+
+const client = new ScriptedClient();
+
+describe("Project instructions", () => {
+  let root: string;
+  let userDir: string;
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "mini-agent-instructions-"));
+    userDir = path.join(root, "home");
+    workspaceDir = path.join(root, "repo", "packages", "app");
+    await fs.mkdir(userDir, { recursive: true });
+    await fs.mkdir(path.join(workspaceDir, ".mini-agent"), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("should load user and project files in precedence order", async () => {
+    await fs.writeFile(path.join(userDir, "AGENTS.md"), "User rules");
+    await fs.writeFile(path.join(root, "repo", "AGENTS.md"), "Repo rules\n");
+    await fs.writeFile(path.join(workspaceDir, "AGENTS.md"), "App rules");
+    await fs.writeFile(
+      path.join(workspaceDir, ".mini-agent", "instructions.md"),
+      "Local rules"
+    );
+
+    const loaded = loadInstructions(workspaceDir, { userDir });
+    expect(loaded.files.map((file) => [file.scope, file.content])).toEqual([
+      ["user", "User rules"],
+      ["project", "Repo rules"],
+      ["project", "App rules"],
+      ["project", "Local rules"],
+    ]);
+    expect(loaded.prompt).toMatch(/^## Project Instructions\n/);
+    expect(loaded.prompt).toContain(
+      `### ${path.join(root, "repo", "AGENTS.md")}\nRepo rules`
+    );
+  });
+
+  it("should follow @imports and skip cycles", async () => {
+    await fs.mkdir(path.join(workspaceDir, "docs"));
+    await fs.writeFile(
+      path.join(workspaceDir, "AGENTS.md"),
+      "See @docs/style.md and @./missing.md.\nNot an import: `@docs/ignored.md`"
+    );
+    await fs.writeFile(
+      path.join(workspaceDir, "docs", "style.md"),
+      "Style @../testing.md"
+    );
+    await fs.writeFile(
+      path.join(workspaceDir, "testing.md"),
+      "Testing @docs/style.md"
+    );
+    await fs.writeFile(path.join(workspaceDir, "docs", "ignored.md"), "x");
+
+    const loaded = loadInstructions(workspaceDir, { userDir });
+    expect(
+      loaded.files.map((file) => [
+        path.relative(workspaceDir, file.path),
+        file.scope,
+      ])
+    ).toEqual([
+      ["AGENTS.md", "project"],
+      [path.join("docs", "style.md"), "import"],
+      ["testing.md", "import"],
+    ]);
+    expect(loaded.files[2].importedFrom).toBe(
+      path.join(workspaceDir, "docs", "style.md")
+    );
+    expect(findImports("mail me@example.com, or see @notes.md.")).toEqual([
+      "notes.md",
+    ]);
+  });
+
+  it("should only import files from the workspace and the user directory", async () => {
+    const secret = path.join(root, "secret.txt");
+    await fs.writeFile(secret, "id_rsa");
+    await fs.writeFile(path.join(root, "repo", "outside.md"), "Outside");
+    await fs.symlink(secret, path.join(workspaceDir, "link.md"));
+    await fs.writeFile(
+      path.join(workspaceDir, "AGENTS.md"),
+      `Read @${secret}, @~/.ssh/id_rsa, @../../outside.md and @link.md`
+    );
+    await fs.writeFile(path.join(userDir, "extra.md"), "Extra");
+    await fs.writeFile(
+      path.join(userDir, "AGENTS.md"),
+      `User rules @${path.join(userDir, "extra.md")} @${secret}`
+    );
+
+    const loaded = loadInstructions(workspaceDir, { userDir });
+    expect(loaded.files.map((file) => file.content)).toEqual([
+      `User rules @${path.join(userDir, "extra.md")} @${secret}`,
+      "Extra",
+      `Read @${secret}, @~/.ssh/id_rsa, @../../outside.md and @link.md`,
+    ]);
+  });
+
+  it("should put the instructions into the system prompt and replace them", () => {
+    const agent = new Agent(client, "system", [], 5, workspaceDir, {
+      instructions: "## Project Instructions\nOld rules",
+    });
+    expect(agent.messages[0].content).toContain("Current Workspace");
+    expect(agent.messages[0].content).toMatch(/\nOld rules$/);
+
+    agent.setInstructions("## Project Instructions\nNew rules");
+    expect(agent.messages[0].content).not.toContain("Old rules");
+    expect(agent.messages[0].content).toMatch(/\nNew rules$/);
+  });
+});
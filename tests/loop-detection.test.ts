@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import * as os from "node:os";
+import { Agent } from "../src/agent.js";
+import { LoopDetector } from "../src/loop-detection/index.js";
+import type { AgentEvent, ToolCall } from "../src/schema/index.js";
+import type { Tool, ToolResult } from "../src/tools/base.js";
+import { ScriptedClient } from "./helpers/scripted-client.js";
+
+const config = {
+  enabled: true,
+  warnThreshold: 2,
+  stopThreshold: 3,
+  window: 10,
+};
+
+function call(name: string, args: Record<string, unknown>): ToolCall {
+  return {
+    id: `call_${name}`,
+    type: "function",
+    function: { name, arguments: args },
+  };
+}
+
+class FailingTool implements Tool {
+  name = "bash";
+  description = "Always fails";
+  parameters = { type: "object", properties: {} };
+
+  async execute(): Promise<ToolResult> {
+    return { success: false, content: "", error: "command not found" };
+  }
+}
+
+describe("Loop detection", () => {
+  it("should count identical calls regardless of argument order", () => {
+    const detector = new LoopDetector(config);
+    const result: ToolResult = { success: true, content: "same" };
+
+    expect(
+      detector.record(call("read_file", { path: "a", limit: 1 }), result)
+    ).toEqual({ status: "ok" });
+    // A different result is a different call
+    expect(
+      detector.record(call("read_file", { path: "a", limit: 1 }), {
+        success: true,
+        content: "changed",
+      })
+    ).toEqual({ status: "ok" });
+    expect(
+      detector.record(call("read_file", { limit: 1, path: "a" }), result)
+    ).toEqual({ status: "warn", toolName: "read_file", count: 2 });
+    expect(
+      detector.record(call("read_file", { path: "a", limit: 1 }), result)
+    ).toEqual({ status: "stop", toolName: "read_file", count: 3 });
+  });
+
+  it("should warn the model and then stop a looping run", async () => {
+    const client = new ScriptedClient(({ index }) => [
+      {
+        tool_calls: [
+          { ...call("bash", { command: "mkae" }), id: `c${index + 1}` },
+        ],
+        done: true,
+      },
+    ]);
+    const agent = new Agent(
+      client,
+      "system",
+      [new FailingTool()],
+      10,
+      os.tmpdir(),
+      { loopDetection: config }
+    );
+    const events: AgentEvent[] = [];
+    agent.subscribe((event) => events.push(event));
+
+    agent.addUserMessage("Build it");
+    const answer = await agent.run();
+
+    expect(client.requests).toHaveLength(3);
+    const toolMessages = agent.messages.filter((msg) => msg.role === "tool");
+    expect(toolMessages[0].content).toBe("Error: command not found");
+    expect(toolMessages[1].content).toContain("[System note] You have called");
+    expect(events).toContainEqual({
+      type: "loop_warning",
+      toolName: "bash",
+      count: 2,
+    });
+    expect(events.at(-1)).toEqual({
+      type: "run_end",
+      status: "loop_detected",
+      content: answer,
+      steps: 3,
+    });
+    expect(answer).toContain("stuck in a loop calling bash");
+  });
+});
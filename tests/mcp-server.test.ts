@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Agent } from "../src/agent.js";
+import { LLMClient } from "../src/llm-client/llm-client.js";
+import { AgentRunTool, createMcpServer } from "../src/mcp-server/index.js";
+import { PermissionManager } from "../src/permissions/index.js";
+import type { Skill } from "../src/skills/index.js";
+import { ReadTool, WriteTool } from "../src/tools/index.js";
+import { ScriptedClient } from "./helpers/scripted-client.js";
+
+const FIXTURES = fileURLToPath(new URL("./fixtures/mock/", import.meta.url));
+
+const REVIEW_SKILL: Skill = {
+  name: "code-review",
+  description: "Review code for bugs",
+  content: "Look for off-by-one errors first.",
+};
+
+describe("MCP server mode", () => {
+  let workspaceDir: string;
+  let client: Client;
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "mini-agent-mcp-"));
+    const agentRun = new AgentRunTool(
+      async () =>
+        new Agent(
+          new LLMClient(
+            "mock",
+            path.join(FIXTURES, "tool-flow.yaml"),
+            "mock",
+            "mock-model",
+            { enabled: false, maxRetries: 0 }
+          ),
+          "system",
+          [new ReadTool(workspaceDir), new WriteTool(workspaceDir)],
+          5,
+          workspaceDir
+        )
+    );
+    // Calls from the host go through a local agent's checks, as in mcp-serve
+    const local = new Agent(
+      new ScriptedClient(),
+      "system",
+      [new ReadTool(workspaceDir), new WriteTool(workspaceDir), agentRun],
+      5,
+      workspaceDir,
+      { permissions: new PermissionManager({ workspaceDir }) }
+    );
+    const server = createMcpServer({
+      tools: local.listTools().filter((tool) => tool.name !== "todo_write"),
+      execute: (name, params, options) =>
+        local.executeTool(name, params, options),
+      skills: [REVIEW_SKILL],
+      version: "0.0.0-test",
+    });
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-host", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("should list and call the exposed tools", async () => {
+    await fs.writeFile(path.join(workspaceDir, "a.txt"), "hello");
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual([
+      "read_file",
+      "write_file",
+      "agent_run",
+    ]);
+    expect(tools[0].annotations?.readOnlyHint).toBe(true);
+    expect(tools[0].inputSchema.required).toEqual(["path"]);
+
+    const result = await client.callTool({
+      name: "read_file",
+      arguments: { path: "a.txt" },
+    });
+    expect(result.isError).toBe(false);
+    expect(JSON.stringify(result.content)).toContain("hello");
+
+    const missing = await client.callTool({
+      name: "read_file",
+      arguments: { path: "missing.txt" },
+    });
+    expect(missing.isError).toBe(true);
+    expect(JSON.stringify(missing.content)).toContain("File not found");
+
+    await expect(
+      client.callTool({ name: "launch_rocket", arguments: {} })
+    ).rejects.toThrow("Unknown tool: launch_rocket");
+  });
+
+  it("should validate and permission-check calls like the agent does", async () => {
+    const invalid = await client.callTool({
+      name: "read_file",
+      arguments: { limit: "ten" },
+    });
+    expect(invalid.isError).toBe(true);
+    expect(JSON.stringify(invalid.content)).toContain(
+      "Invalid arguments for read_file"
+    );
+
+    // No one can approve a write, so it is denied without a rule or mode
+    const write = await client.callTool({
+      name: "write_file",
+      arguments: { path: "evil.txt", content: "pwned" },
+    });
+    expect(write.isError).toBe(true);
+    expect(JSON.stringify(write.content)).toContain("Permission denied");
+    await expect(
+      fs.access(path.join(workspaceDir, "evil.txt"))
+    ).rejects.toThrow();
+  });
+
+  it("should offer skills as prompts and resources", async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name)).toEqual(["code-review"]);
+
+    const prompt = await client.getPrompt({
+      name: "code-review",
+      arguments: { task: "Check src/sum.ts" },
+    });
+    const content = prompt.messages[0].content;
+    expect(content.type).toBe("text");
+    expect(content.type === "text" && content.text).toContain(
+      "Look for off-by-one errors first."
+    );
+    expect(content.type === "text" && content.text).toMatch(
+      /Task: Check src\/sum\.ts$/
+    );
+
+    const { resources } = await client.listResources();
+    expect(resources).toEqual([
+      expect.objectContaining({
+        uri: "skill://code-review",
+        mimeType: "text/markdown",
+      }),
+    ]);
+    const resource = await client.readResource({ uri: "skill://code-review" });
+    expect(resource.contents[0]).toMatchObject({
+      text: "Look for off-by-one errors first.",
+    });
+  });
+
+  it("should run a whole agent task through agent_run", async () => {
+    const result = await client.callTool({
+      name: "agent_run",
+      arguments: { task: "Write down the note and read it back" },
+    });
+
+    expect(result.isError).toBe(false);
+    expect(result.content).toEqual([
+      { type: "text", text: "The notes say to remember the milk." },
+    ]);
+    await expect(
+      fs.readFile(path.join(workspaceDir, "notes.txt"), "utf8")
+    ).resolves.toBe("remember the milk");
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { Agent, INTERRUPTED_MESSAGE } from "../src/agent.js";
+import { LLMClient } from "../src/llm-client/llm-client.js";
+import { parseMockScript } from "../src/llm-client/mock-client.js";
+import type { AgentEvent } from "../src/schema/index.js";
+import { ReadTool, WriteTool } from "../src/tools/file-tools.js";
+
+const FIXTURES = fileURLToPath(new URL("./fixtures/mock/", import.meta.url));
+
+describe("Mock provider", () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "mini-agent-mock-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  function createAgent(fixture: string, maxSteps = 10) {
+    const client = new LLMClient(
+      "mock",
+      path.join(FIXTURES, fixture),
+      "mock",
+      "mock-model",
+      { enabled: false, maxRetries: 0 }
+    );
+    const agent = new Agent(
+      client,
+      "system",
+      [new ReadTool(workspaceDir), new WriteTool(workspaceDir)],
+      maxSteps,
+      workspaceDir
+    );
+    const events: AgentEvent[] = [];
+    agent.subscribe((event) => events.push(event));
+    return { agent, events };
+  }
+
+  it("should replay a multi-step tool flow chunk by chunk", async () => {
+    const { agent, events } = createAgent("tool-flow.yaml");
+
+    agent.addUserMessage("Take a note");
+    const answer = await agent.run();
+
+    expect(answer).toBe("The notes say to remember the milk.");
+    expect(
+      await fs.readFile(path.join(workspaceDir, "notes.txt"), "utf8")
+    ).toBe("remember the milk");
+
+    const tools = agent.messages.filter((msg) => msg.role === "tool");
+    expect(tools.map((msg) => [msg.tool_call_id, msg.tool_name])).toEqual([
+      ["call_1_1", "write_file"],
+      ["call_2_1", "read_file"],
+    ]);
+    expect(tools[1].content).toContain("remember the milk");
+
+    const deltas = events.filter((event) => event.type === "content_delta");
+    expect(deltas.map((event) => event.delta)).toEqual([
+      "Creating",
+      " the not",
+      "es file.",
+      "The note",
+      "s say to",
+      " remembe",
+      "r the mi",
+      "lk.",
+    ]);
+    expect(agent.messages[2]).toMatchObject({
+      role: "assistant",
+      thinking: "I should create the file first.",
+    });
+    expect(agent.usage).toMatchObject({
+      input_tokens: 450,
+      output_tokens: 42,
+    });
+    expect(events.at(-1)).toEqual({
+      type: "run_end",
+      status: "completed",
+      content: answer,
+      steps: 3,
+    });
+  });
+
+  it("should report unknown tools and scripted errors", async () => {
+    const unknown = createAgent("unknown-tool.yaml");
+    unknown.agent.addUserMessage("Go to the moon");
+    expect(await unknown.agent.run()).toBe(
+      "That tool is not available, so I stopped."
+    );
+    expect(
+      unknown.agent.messages.find((msg) => msg.role === "tool")
+    ).toMatchObject({
+      tool_call_id: "call_missing",
+      content: "Error: Unknown tool: launch_rocket",
+    });
+
+    const failing = createAgent("errors.yaml");
+    failing.agent.addUserMessage("First");
+    expect(await failing.agent.run()).toBe("First answer.");
+    failing.agent.addUserMessage("Second");
+    await expect(failing.agent.run()).rejects.toThrow(
+      "Service unavailable (503)"
+    );
+    failing.agent.addUserMessage("Third");
+    await expect(failing.agent.run()).rejects.toThrow(
+      "Mock script exhausted: all 2 responses were used"
+    );
+
+    expect(() => parseMockScript({ responses: [{ delay: -1 }] })).toThrow(
+      "Invalid mock script at responses.0.delay"
+    );
+  });
+
+  it("should stop at maxSteps and honor interrupts", async () => {
+    await fs.writeFile(path.join(workspaceDir, "a.txt"), "a");
+    await fs.writeFile(path.join(workspaceDir, "b.txt"), "b");
+    const limited = createAgent("max-steps.yaml", 2);
+
+    limited.agent.addUserMessage("Read every file");
+    const answer = await limited.agent.run();
+    expect(answer).toBe(
+      "Task couldn't be completed after 2 steps.\n\nRead a.txt and b.txt. Left: c.txt."
+    );
+    expect(limited.events.at(-1)).toEqual({
+      type: "run_end",
+      status: "max_steps",
+      content: answer,
+      steps: 2,
+    });
+
+    const slow = createAgent("slow.yaml");
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    slow.agent.addUserMessage("Hurry");
+    const started = Date.now();
+    expect(await slow.agent.run({ signal: controller.signal })).toBe(
+      INTERRUPTED_MESSAGE
+    );
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(slow.events.at(-1)).toMatchObject({
+      type: "run_end",
+      status: "interrupted",
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { Agent, OUTPUT_REMINDER_PROMPT } from "../src/agent.js";
+import { validateJsonSchema } from "../src/json-schema/index.js";
+import { LLMClient } from "../src/llm-client/llm-client.js";
+import type { AgentEvent } from "../src/schema/index.js";
+
+const FIXTURES = fileURLToPath(new URL("./fixtures/mock/", import.meta.url));
+
+const TODO_SCHEMA = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    count: { type: "integer", minimum: 0 },
+    tags: { type: "array", items: { $ref: "#/$defs/tag" } },
+  },
+  required: ["title", "count"],
+  additionalProperties: false,
+  $defs: { tag: { enum: ["bug", "docs"] } },
+};
+
+describe("Structured output", () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "mini-agent-out-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  function createAgent(maxOutputRepairs?: number) {
+    const client = new LLMClient(
+      "mock",
+      path.join(FIXTURES, "final-answer.yaml"),
+      "mock",
+      "mock-model",
+      { enabled: false, maxRetries: 0 }
+    );
+    const agent = new Agent(client, "system", [], 10, workspaceDir, {
+      outputSchema: TODO_SCHEMA,
+      maxOutputRepairs,
+    });
+    const events: AgentEvent[] = [];
+    agent.subscribe((event) => events.push(event));
+    return { agent, events };
+  }
+
+  it("should report every schema violation with its path", () => {
+    expect(validateJsonSchema(TODO_SCHEMA, { title: "x", count: 1 })).toEqual(
+      []
+    );
+    expect(
+      validateJsonSchema(TODO_SCHEMA, {
+        count: 1.5,
+        tags: ["bug", "chore"],
+        extra: true,
+      })
+    ).toEqual([
+      { path: "$.title", message: "is required" },
+      { path: "$.count", message: "must be integer, got number" },
+      { path: "$.tags[1]", message: 'must be one of: "bug", "docs"' },
+      { path: "$.extra", message: "is not an allowed property" },
+    ]);
+    expect(
+      validateJsonSchema({ anyOf: [{ type: "string" }, { type: "null" }] }, 3)
+    ).toEqual([
+      { path: "$", message: "must match one of the 2 allowed schemas" },
+    ]);
+  });
+
+  it("should send errors back until final_answer gets a valid answer", async () => {
+    const { agent, events } = createAgent();
+    expect(agent.systemPrompt).toContain("`final_answer`");
+
+    agent.addUserMessage("Count the TODOs");
+    const answer = await agent.run();
+
+    expect(JSON.parse(answer)).toEqual({
+      title: "Open TODOs",
+      count: 2,
+      tags: ["bug"],
+    });
+    expect(agent.structuredOutput).toEqual(JSON.parse(answer));
+    expect(events.at(-1)).toMatchObject({
+      type: "run_end",
+      status: "completed",
+    });
+
+    // The text reply got a reminder, the invalid answer its errors
+    const feedback = agent.messages.filter(
+      (msg) => msg.role === "user" || msg.role === "tool"
+    );
+    expect(feedback.map((msg) => msg.content)).toEqual([
+      "Count the TODOs",
+      OUTPUT_REMINDER_PROMPT,
+      'Error: Invalid arguments for final_answer:\n- $.count: must be >= 0\n- $.tags[1]: must be one of: "bug", "docs"',
+      "Final answer recorded.",
+    ]);
+  });
+
+  it("should stop with invalid_output when the repairs run out", async () => {
+    const { agent, events } = createAgent(1);
+
+    agent.addUserMessage("Count the TODOs");
+    const answer = await agent.run();
+
+    expect(answer).toContain("Stopped after 2 invalid final answers.");
+    expect(answer).toContain("$.count: must be >= 0");
+    expect(agent.structuredOutput).toBeUndefined();
+    expect(events.at(-1)).toMatchObject({
+      type: "run_end",
+      status: "invalid_output",
+      steps: 2,
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Agent } from "../src/agent.js";
+import {
+  PermissionManager,
+  globToRegExp,
+  loadProjectSettings,
+  matchesRule,
+  parseRule,
+  suggestRule,
+  type PermissionChoice,
+  type PermissionRequest,
+} from "../src/permissions/index.js";
+import type { Tool, ToolResult } from "../src/tools/base.js";
+import { ScriptedClient } from "./helpers/scripted-client.js";
+
+const workspaceDir = path.resolve("/tmp/workspace");
+
+class RecordingTool implements Tool {
+  description = "Record calls";
+  parameters = { type: "object", properties: {} };
+  calls = 0;
+
+  constructor(
+    public name: string,
+    public readOnly = false
+  ) {}
+
+  async execute(): Promise<ToolResult> {
+    this.calls++;
+    return { success: true, content: "ok" };
+  }
+}
+
+function scriptedPrompt(answers: PermissionChoice[]) {
+  const requests: PermissionRequest[] = [];
+  const prompt = async (request: PermissionRequest) => {
+    requests.push(request);
+    const answer = answers.shift();
+    if (!answer) throw new Error("Unexpected prompt");
+    return answer;
+  };
+  return { prompt, requests };
+}
+
+describe("Permission rules", () => {
+  it("should parse rules with and without patterns", () => {
+    expect(parseRule("bash(git status:*)")).toMatchObject({
+      toolName: "bash",
+      pattern: "git status:*",
+    });
+    expect(parseRule("read_file")).toMatchObject({
+      toolName: "read_file",
+      pattern: null,
+    });
+    expect(() => parseRule("bash(oops")).toThrow("Invalid permission rule");
+  });
+
+  it("should match globs", () => {
+    expect(globToRegExp("src/**").test("src/a/b.ts")).toBe(true);
+    expect(globToRegExp("src/*.ts").test("src/a/b.ts")).toBe(false);
+    expect(globToRegExp("**/*.md").test("README.md")).toBe(true);
+    expect(globToRegExp("docs/?.md").test("docs/a.md")).toBe(true);
+  });
+
+  it("should match bash commands by prefix", () => {
+    const rule = parseRule("bash(git status:*)");
+    const match = (command: string) =>
+      matchesRule(rule, "bash", { command }, workspaceDir);
+
+    expect(match("git status")).toBe(true);
+    expect(match("git status -s")).toBe(true);
+    expect(match("git statusx")).toBe(false);
+    expect(match("git push")).toBe(false);
+  });
+
+  it("should require every command of a list or pipeline to match", () => {
+    const rule = parseRule("bash(git status:*)");
+    const match = (command: string) =>
+      matchesRule(rule, "bash", { command }, workspaceDir);
+
+    expect(match("git status && git status -s")).toBe(true);
+    expect(match("git status && rm -rf ~")).toBe(false);
+    expect(match("git status || rm -rf ~")).toBe(false);
+    expect(match("git status; rm -rf ~")).toBe(false);
+    expect(match("git status | sh")).toBe(false);
+    expect(match("git status\nrm -rf ~")).toBe(false);
+    expect(match("git status $(rm -rf ~)")).toBe(false);
+    expect(match("git status `rm -rf ~`")).toBe(false);
+    expect(match("git status > ~/.bashrc")).toBe(false);
+  });
+
+  it("should apply deny rules to any command of a list", () => {
+    const rule = parseRule("bash(rm:*)");
+    const match = (command: string) =>
+      matchesRule(rule, "bash", { command }, workspaceDir, true);
+
+    expect(match("git status && rm -rf ~")).toBe(true);
+    expect(match("echo $(rm -rf ~)")).toBe(true);
+    expect(match("git status")).toBe(false);
+  });
+
+  it("should suggest rules that only cover the approved call", () => {
+    const suggested = suggestRule("bash", { command: "ls *.ts" }, workspaceDir);
+    expect(suggested).toBe("bash(ls \\*.ts)");
+
+    const rule = parseRule(suggested);
+    const match = (command: string) =>
+      matchesRule(rule, "bash", { command }, workspaceDir);
+    expect(match("ls *.ts")).toBe(true);
+    expect(match("ls a.ts")).toBe(false);
+
+    const compound = parseRule(
+      suggestRule(
+        "bash",
+        { command: "npm run build && npm test" },
+        workspaceDir
+      )
+    );
+    expect(
+      matchesRule(
+        compound,
+        "bash",
+        { command: "npm run build && npm test" },
+        workspaceDir
+      )
+    ).toBe(true);
+  });
+
+  it("should match paths relative to the workspace", () => {
+    const rule = parseRule("edit_file(src/**)");
+    const match = (p: string) =>
+      matchesRule(rule, "edit_file", { path: p }, workspaceDir);
+
+    expect(match("src/agent.ts")).toBe(true);
+    expect(match(path.join(workspaceDir, "src", "cli.ts"))).toBe(true);
+    expect(match("tests/agent.test.ts")).toBe(false);
+    expect(match("../src/agent.ts")).toBe(false);
+  });
+});
+
+describe("PermissionManager", () => {
+  it("should allow read-only tools and ask for mutating ones", async () => {
+    const { prompt, requests } = scriptedPrompt([{ choice: "allow_once" }]);
+    const manager = new PermissionManager({ workspaceDir, prompt });
+
+    const read = await manager.check(new RecordingTool("read_file", true), {
+      path: "a.txt",
+    });
+    const bash = await manager.check(
+      new RecordingTool("bash"),
+      { command: "npm test" },
+      "call_1"
+    );
+
+    expect(read.behavior).toBe("allow");
+    expect(bash.behavior).toBe("allow");
+    expect(requests).toHaveLength(1);
+    expect(requests[0].suggestedRule).toBe("bash(npm test)");
+    expect(requests[0].toolCallId).toBe("call_1");
+  });
+
+  it("should remember allow-always answers for the session", async () => {
+    const { prompt, requests } = scriptedPrompt([{ choice: "allow_always" }]);
+    const manager = new PermissionManager({ workspaceDir, prompt });
+    const tool = new RecordingTool("bash");
+
+    await manager.check(tool, { command: "npm test" });
+    const again = await manager.check(tool, { command: "npm test" });
+
+    expect(again.behavior).toBe("allow");
+    expect(requests).toHaveLength(1);
+    expect(manager.getSessionRules()).toEqual(["bash(npm test)"]);
+  });
+
+  it("should pass the deny reason on", async () => {
+    const { prompt } = scriptedPrompt([
+      { choice: "deny", reason: "use pnpm instead" },
+    ]);
+    const manager = new PermissionManager({ workspaceDir, prompt });
+
+    const decision = await manager.check(new RecordingTool("bash"), {
+      command: "npm install",
+    });
+
+    expect(decision).toEqual({
+      behavior: "deny",
+      reason: "The user denied this action: use pnpm instead",
+    });
+  });
+
+  it("should apply rules and modes", async () => {
+    const bash = new RecordingTool("bash");
+    const edit = new RecordingTool("edit_file");
+
+    const manager = new PermissionManager({
+      workspaceDir,
+      allow: ["bash(git status:*)"],
+      deny: ["bash(rm -rf:*)"],
+    });
+    expect(
+      (await manager.check(bash, { command: "git status" })).behavior
+    ).toBe("allow");
+    // Without a prompt, calls that need approval are denied
+    expect((await manager.check(edit, { path: "a.ts" })).behavior).toBe("deny");
+
+    manager.mode = "acceptEdits";
+    expect((await manager.check(edit, { path: "a.ts" })).behavior).toBe(
+      "allow"
+    );
+    expect((await manager.check(bash, { command: "ls" })).behavior).toBe(
+      "deny"
+    );
+
+    manager.mode = "bypass";
+    expect((await manager.check(bash, { command: "ls" })).behavior).toBe(
+      "allow"
+    );
+    expect((await manager.check(bash, { command: "rm -rf /" })).behavior).toBe(
+      "deny"
+    );
+  });
+
+  it("should only take restrictions from the project settings", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "permissions-"));
+    fs.mkdirSync(path.join(dir, ".mini-agent"));
+    fs.writeFileSync(
+      path.join(dir, ".mini-agent", "settings.json"),
+      JSON.stringify({
+        permissions: {
+          mode: "bypass",
+          allow: ["bash(npm test)"],
+          deny: ["bash(git push:*)"],
+        },
+      })
+    );
+
+    const project = loadProjectSettings(dir);
+    const manager = PermissionManager.fromConfig(
+      { mode: "acceptEdits", allow: ["bash(git:*)"], deny: [] },
+      dir,
+      project?.permissions
+    );
+
+    const bash = new RecordingTool("bash");
+    expect(manager.mode).toBe("acceptEdits");
+    expect((await manager.check(bash, { command: "npm test" })).behavior).toBe(
+      "deny"
+    );
+    expect(
+      (await manager.check(bash, { command: "git status" })).behavior
+    ).toBe("allow");
+    expect((await manager.check(bash, { command: "git push" })).behavior).toBe(
+      "deny"
+    );
+
+    const stricter = PermissionManager.fromConfig(
+      { mode: "bypass", allow: [], deny: [] },
+      dir,
+      { mode: "default", allow: [], deny: [] }
+    );
+    expect(stricter.mode).toBe("default");
+    expect(loadProjectSettings(os.tmpdir())).toBeNull();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe("Agent permissions", () => {
+  it("should return the denial to the model instead of running the tool", async () => {
+    const tool = new RecordingTool("write_file");
+    const { prompt } = scriptedPrompt([
+      { choice: "deny", reason: "not in this repo" },
+    ]);
+    const agent = new Agent(
+      new ScriptedClient(),
+      "system",
+      [tool],
+      5,
+      os.tmpdir(),
+      { permissions: new PermissionManager({ workspaceDir, prompt }) }
+    );
+
+    const result = await agent.executeTool("write_file", { path: "a.txt" });
+
+    expect(tool.calls).toBe(0);
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(
+      "Permission denied: The user denied this action: not in this repo"
+    );
+  });
+});
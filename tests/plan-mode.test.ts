@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import * as os from "node:os";
+import { Agent } from "../src/agent.js";
+import type { LLMClient } from "../src/llm-client/llm-client.js";
+import {
+  isReadOnlyCommand,
+  type Tool,
+  type ToolResult,
+} from "../src/tools/index.js";
+import { ScriptedClient, replayResponses } from "./helpers/scripted-client.js";
+
+class StubTool implements Tool {
+  description = "Stub";
+  parameters = { type: "object", properties: {} };
+  calls = 0;
+
+  constructor(
+    public name: string,
+    public readOnly = false
+  ) {}
+
+  async execute(): Promise<ToolResult> {
+    this.calls++;
+    return { success: true, content: `${this.name} ran` };
+  }
+}
+
+function createAgent(client: LLMClient = new ScriptedClient()) {
+  const tools = {
+    read: new StubTool("read_file", true),
+    write: new StubTool("write_file"),
+    bash: new StubTool("bash"),
+  };
+  const agent = new Agent(
+    client,
+    "system",
+    Object.values(tools),
+    10,
+    os.tmpdir(),
+    { planMode: true }
+  );
+  return { agent, tools };
+}
+
+describe("isReadOnlyCommand", () => {
+  it("should accept read-only commands and pipelines", () => {
+    expect(isReadOnlyCommand("ls -la src")).toBe(true);
+    expect(isReadOnlyCommand("git status")).toBe(true);
+    expect(isReadOnlyCommand("git --no-pager diff HEAD~1")).toBe(true);
+    expect(isReadOnlyCommand("grep -rn foo src | head -20")).toBe(true);
+    expect(isReadOnlyCommand("cat a.txt 2>/dev/null && wc -l a.txt")).toBe(
+      true
+    );
+    expect(isReadOnlyCommand("ls missing >/dev/null 2>&1|wc -l")).toBe(true);
+  });
+
+  it("should reject commands that may change state", () => {
+    expect(isReadOnlyCommand("rm -rf build")).toBe(false);
+    expect(isReadOnlyCommand("echo hi > file.txt")).toBe(false);
+    expect(isReadOnlyCommand("ls; npm install")).toBe(false);
+    expect(isReadOnlyCommand("git commit -m x")).toBe(false);
+    expect(isReadOnlyCommand('find . -name "*.tmp" -delete')).toBe(false);
+    expect(isReadOnlyCommand("cat $(which node)")).toBe(false);
+    expect(isReadOnlyCommand("sleep 100 &")).toBe(false);
+    expect(isReadOnlyCommand("cat a.txt >/dev/null.txt")).toBe(false);
+    expect(isReadOnlyCommand("ls 2>/dev/nullx")).toBe(false);
+  });
+
+  it("should reject flags that write files or run commands", () => {
+    expect(isReadOnlyCommand("git diff --output=patch.txt")).toBe(false);
+    expect(isReadOnlyCommand("git log --output x")).toBe(false);
+    expect(isReadOnlyCommand("git diff --out=patch.txt")).toBe(false);
+    expect(isReadOnlyCommand("git grep -Ovim foo")).toBe(false);
+    expect(isReadOnlyCommand("git grep --open-files-in-pager=sh foo")).toBe(
+      false
+    );
+    expect(isReadOnlyCommand("git -c core.pager=sh log")).toBe(false);
+    expect(isReadOnlyCommand("sort -ofile a.txt")).toBe(false);
+    expect(isReadOnlyCommand("sort -ro file a.txt")).toBe(false);
+    expect(isReadOnlyCommand("sort --output=file a.txt")).toBe(false);
+    expect(isReadOnlyCommand("tree -ofile")).toBe(false);
+    expect(isReadOnlyCommand("rg --pre ./run.sh foo")).toBe(false);
+    expect(isReadOnlyCommand("rg --pre-glob=*.pdf foo")).toBe(false);
+    expect(isReadOnlyCommand("find . -fls out.txt")).toBe(false);
+    expect(isReadOnlyCommand("find . -fprint0 out.txt")).toBe(false);
+  });
+
+  it("should still accept the same programs with harmless flags", () => {
+    expect(isReadOnlyCommand("sort -rn a.txt")).toBe(true);
+    expect(isReadOnlyCommand("git log --oneline -5")).toBe(true);
+    expect(isReadOnlyCommand("rg --no-heading -n foo")).toBe(true);
+    expect(isReadOnlyCommand('find . -name "*.ts" -print0')).toBe(true);
+  });
+});
+
+describe("Plan mode", () => {
+  it("should only offer read-only tools and exit_plan_mode", async () => {
+    const { agent, tools } = createAgent();
+
+    expect(agent.getActiveTools().map((tool) => tool.name)).toEqual([
+      "read_file",
+      "bash",
+      "todo_write",
+      "exit_plan_mode",
+    ]);
+
+    const write = await agent.executeTool("write_file", { path: "a.txt" });
+    expect(write.error).toBe("Tool write_file is not available in plan mode");
+
+    const rm = await agent.executeTool("bash", { command: "rm -rf src" });
+    expect(rm.success).toBe(false);
+    const ls = await agent.executeTool("bash", { command: "ls" });
+    expect(ls.success).toBe(true);
+    expect(tools.bash.calls).toBe(1);
+    expect(tools.write.calls).toBe(0);
+  });
+
+  it("should leave plan mode when the plan is approved", async () => {
+    const client = replayResponses([
+      [
+        {
+          tool_calls: [
+            {
+              id: "p1",
+              type: "function",
+              function: {
+                name: "exit_plan_mode",
+                arguments: { plan: "1. Edit a.txt" },
+              },
+            },
+          ],
+          done: true,
+        },
+      ],
+      [{ content: "done", done: true }],
+    ]);
+
+    const { agent } = createAgent(client);
+    const reviewed: string[] = [];
+    agent.reviewPlan = async (plan) => {
+      reviewed.push(plan);
+      return { approved: true };
+    };
+
+    agent.addUserMessage("change a.txt");
+    await agent.run();
+
+    expect(reviewed).toEqual(["1. Edit a.txt"]);
+    expect(agent.planMode).toBe(false);
+    expect(client.requests[0][0].content).toContain("Plan mode is active");
+    expect(client.requests[1][0].content).not.toContain("Plan mode");
+    expect(client.offeredTools[1]).toEqual([
+      "read_file",
+      "write_file",
+      "bash",
+      "todo_write",
+    ]);
+    // The approved plan stays in the conversation
+    expect(JSON.stringify(agent.messages)).toContain("1. Edit a.txt");
+  });
+
+  it("should stay in plan mode when the plan is rejected", async () => {
+    const { agent } = createAgent();
+    agent.reviewPlan = async () => ({ approved: false, feedback: "smaller" });
+
+    const result = await agent.executeTool("exit_plan_mode", { plan: "x" });
+
+    expect(result.content).toContain("smaller");
+    expect(agent.planMode).toBe(true);
+  });
+});
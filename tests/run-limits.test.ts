@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import * as os from "node:os";
+import { Agent, type AgentOptions } from "../src/agent.js";
+import type { AgentEvent, RunLimit } from "../src/schema/index.js";
+import type { Tool, ToolResult } from "../src/tools/base.js";
+import { ScriptedClient } from "./helpers/scripted-client.js";
+
+class EchoTool implements Tool {
+  name = "echo";
+  description = "Echo text back";
+  parameters = { type: "object", properties: {} };
+
+  async execute(): Promise<ToolResult> {
+    return { success: true, content: "echoed" };
+  }
+}
+
+/**
+ * A client that keeps calling tools until it is asked for a summary.
+ */
+function createBusyClient() {
+  return new ScriptedClient(function* ({ messages, index }) {
+    const usage = {
+      input_tokens: 90,
+      output_tokens: 10,
+      cache_read_tokens: 0,
+      cache_write_tokens: 0,
+    };
+    const last = messages[messages.length - 1];
+    if (
+      last.role === "user" &&
+      typeof last.content === "string" &&
+      last.content.includes("summary")
+    ) {
+      yield { content: "Done: step 1. Left: the rest.", done: true, usage };
+      return;
+    }
+    yield {
+      tool_calls: [
+        {
+          id: `call_${index + 1}`,
+          type: "function",
+          function: { name: "echo", arguments: { n: index + 1 } },
+        },
+      ],
+      done: true,
+      usage,
+    };
+  });
+}
+
+function createAgent(options: AgentOptions = {}) {
+  const client = createBusyClient();
+  const agent = new Agent(
+    client,
+    "system",
+    [new EchoTool()],
+    2,
+    os.tmpdir(),
+    options
+  );
+  const events: AgentEvent[] = [];
+  agent.subscribe((event) => events.push(event));
+  return { agent, client, events };
+}
+
+describe("Run limits", () => {
+  it("should summarize the progress when the step limit is reached", async () => {
+    const { agent, client, events } = createAgent();
+
+    agent.addUserMessage("Do everything");
+    const answer = await agent.run();
+
+    expect(client.requests).toHaveLength(3);
+    expect(answer).toBe(
+      "Task couldn't be completed after 2 steps.\n\nDone: step 1. Left: the rest."
+    );
+    expect(events.at(-1)).toEqual({
+      type: "run_end",
+      status: "max_steps",
+      content: answer,
+      steps: 2,
+    });
+    // The cutoff stays in the history for the next prompt
+    expect(agent.messages.at(-1)).toMatchObject({
+      role: "assistant",
+      content: "Done: step 1. Left: the rest.",
+    });
+  });
+
+  it("should extend or lift a limit when the user continues", async () => {
+    const asked: RunLimit[] = [];
+    const decisions = ["continue", "unlimited"] as const;
+    const { agent, events } = createAgent({
+      tokenBudget: 500,
+      confirmContinue: async (limit) => {
+        asked.push(limit);
+        return decisions[asked.length - 1] ?? "stop";
+      },
+    });
+
+    agent.addUserMessage("Do everything");
+    await agent.run();
+
+    // 2 steps, 2 more, then the token budget (100 tokens per step) ends the run
+    expect(asked).toEqual(["max_steps", "max_steps", "token_budget"]);
+    const stepStarts = events.filter((event) => event.type === "step_start");
+    expect(stepStarts).toHaveLength(5);
+    expect(stepStarts.at(-1)).toEqual({
+      type: "step_start",
+      step: 5,
+      maxSteps: null,
+    });
+    expect(events.at(-1)).toMatchObject({
+      type: "run_end",
+      status: "token_budget",
+      steps: 5,
+    });
+  });
+});
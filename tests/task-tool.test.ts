@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import * as os from "node:os";
+import { Agent } from "../src/agent.js";
+import type { LLMClient } from "../src/llm-client/llm-client.js";
+import type { AgentEvent, ToolCall } from "../src/schema/index.js";
+import { TaskTool, type Tool, type ToolResult } from "../src/tools/index.js";
+import { ScriptedClient } from "./helpers/scripted-client.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+class EchoTool implements Tool {
+  name = "echo";
+  description = "Echo";
+  parameters = { type: "object", properties: {} };
+  readOnly = true;
+
+  async execute(): Promise<ToolResult> {
+    return { success: true, content: "echoed" };
+  }
+}
+
+function taskCall(id: string, prompt: string, tools?: string[]): ToolCall {
+  return {
+    id,
+    type: "function",
+    function: {
+      name: "task",
+      arguments: { description: `task ${id}`, prompt, tools },
+    },
+  };
+}
+
+/**
+ * The parent delegates; each child calls `echo` once, then answers with its
+ * prompt in upper case.
+ */
+function createClient(parentCalls: ToolCall[]) {
+  const state = { running: 0, maxRunning: 0 };
+  const client = new ScriptedClient(async function* ({ messages, tools }) {
+    const isChild = !tools.some((tool) => tool.name === "task");
+    const last = messages[messages.length - 1];
+
+    if (!isChild) {
+      if (last.role === "user") {
+        yield { tool_calls: parentCalls, done: true };
+      } else {
+        yield { content: "parent done", done: true };
+      }
+      return;
+    }
+
+    if (last.role === "user") {
+      state.running++;
+      state.maxRunning = Math.max(state.maxRunning, state.running);
+      await sleep(20);
+      state.running--;
+      yield {
+        tool_calls: [
+          {
+            id: "e1",
+            type: "function",
+            function: { name: "echo", arguments: {} },
+          },
+        ],
+        done: true,
+      };
+    } else {
+      const prompt = String(messages[1].content);
+      yield { content: prompt.toUpperCase(), done: true };
+    }
+  });
+  return { client, state };
+}
+
+function createAgent(client: LLMClient): Agent {
+  const tools: Tool[] = [new EchoTool()];
+  tools.push(
+    new TaskTool({
+      llmClient: client,
+      workspaceDir: os.tmpdir(),
+      tools: [...tools],
+      maxSteps: 5,
+    })
+  );
+  return new Agent(client, "parent", tools, 5, os.tmpdir());
+}
+
+describe("TaskTool", () => {
+  it("should return only the final answers of parallel sub-agents", async () => {
+    const { client, state } = createClient([
+      taskCall("t1", "find a"),
+      taskCall("t2", "find b"),
+    ]);
+    const agent = createAgent(client);
+    const events: AgentEvent[] = [];
+    agent.subscribe((event) => events.push(event));
+
+    agent.addUserMessage("explore");
+    const result = await agent.run();
+
+    expect(result).toBe("parent done");
+    const toolMessages = agent.messages.filter((msg) => msg.role === "tool");
+    expect(toolMessages.map((msg) => msg.content)).toEqual([
+      "FIND A",
+      "FIND B",
+    ]);
+    // The child's echo calls never reach the parent history
+    expect(agent.messages.some((msg) => msg.content === "echoed")).toBe(false);
+    expect(state.maxRunning).toBe(2);
+
+    const nested = events.filter((event) => event.type === "subagent");
+    expect(nested.length).toBeGreaterThan(0);
+    expect(
+      nested.some(
+        (event) =>
+          event.type === "subagent" &&
+          event.toolCall.id === "t1" &&
+          event.event.type === "tool_call_start"
+      )
+    ).toBe(true);
+  });
+
+  it("should reject tools that are not available", async () => {
+    const { client } = createClient([]);
+    const tool = new TaskTool({
+      llmClient: client,
+      workspaceDir: os.tmpdir(),
+      tools: [new EchoTool()],
+      maxSteps: 5,
+    });
+
+    const result = await tool.execute({
+      description: "bad",
+      prompt: "x",
+      tools: ["write_file"],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Unknown tool(s) for sub-agent: write_file");
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Agent } from "../src/agent.js";
+import {
+  createTemplateSlashCommand,
+  expandTemplate,
+  loadTemplateCommands,
+  type CommandContext,
+} from "../src/commands/index.js";
+import {
+  PermissionManager,
+  type PermissionRequest,
+} from "../src/permissions/index.js";
+import type { Tool } from "../src/tools/base.js";
+import { BashTool } from "../src/tools/index.js";
+import { replayResponses } from "./helpers/scripted-client.js";
+
+describe("Template commands", () => {
+  let root: string;
+  let userDir: string;
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "mini-agent-templates-"));
+    userDir = path.join(root, "home");
+    workspaceDir = path.join(root, "repo");
+    await fs.mkdir(path.join(userDir, "commands"), { recursive: true });
+    await fs.mkdir(path.join(workspaceDir, ".mini-agent", "commands"), {
+      recursive: true,
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("should load user and project commands with their frontmatter", async () => {
+    await fs.writeFile(
+      path.join(userDir, "commands", "review.md"),
+      "# Review the code\nReview $ARGUMENTS"
+    );
+    await fs.writeFile(
+      path.join(userDir, "commands", "explain.md"),
+      "Explain $1"
+    );
+    await fs.writeFile(
+      path.join(workspaceDir, ".mini-agent", "commands", "Review.md"),
+      [
+        "---",
+        "description: Security review",
+        "argument-hint: <path>",
+        "allowed-tools: read_file, bash",
+        "model: reviewer-model",
+        "---",
+        "Review @$1 for security issues",
+      ].join("\n")
+    );
+    await fs.writeFile(
+      path.join(workspaceDir, ".mini-agent", "commands", "broken.md"),
+      "---\nallowed-tools: 42\n---\nBody"
+    );
+
+    const commands = loadTemplateCommands(workspaceDir, { userDir });
+    expect(
+      commands.map(({ name, scope, description }) => ({
+        name,
+        scope,
+        description,
+      }))
+    ).toEqual([
+      { name: "explain", scope: "user", description: "Explain $1" },
+      { name: "review", scope: "project", description: "Security review" },
+    ]);
+    expect(commands[1]).toMatchObject({
+      argumentHint: "<path>",
+      allowedTools: ["read_file", "bash"],
+      model: "reviewer-model",
+      template: "Review @$1 for security issues",
+    });
+  });
+
+  it("should expand arguments, files and shell output once", async () => {
+    await fs.writeFile(path.join(workspaceDir, "auth.ts"), "login() @x.ts");
+    await fs.writeFile(path.join(workspaceDir, "x.ts"), "secret");
+
+    const prompt = await expandTemplate(
+      "Check @$1, focus on $2.\nAll: $ARGUMENTS\nBranch: !`echo main`\nMissing: @nope.ts",
+      ["auth.ts", "tokens"],
+      { cwd: workspaceDir }
+    );
+    expect(prompt).toBe(
+      "Check auth.ts:\n```\nlogin() @x.ts\n```, focus on tokens.\nAll: auth.ts tokens\nBranch: main\nMissing: @nope.ts"
+    );
+
+    expect(
+      await expandTemplate("Summarize the changes", ["in", "src"], {
+        cwd: workspaceDir,
+      })
+    ).toBe("Summarize the changes\n\nin src");
+  });
+
+  it("should not run shell code passed in the arguments", async () => {
+    const prompt = await expandTemplate(
+      "Args: $ARGUMENTS\nEcho: !`echo $1`",
+      ["$(touch pwned) it's", "!`touch pwned`"],
+      { cwd: workspaceDir }
+    );
+
+    expect(prompt).toBe(
+      "Args: $(touch pwned) it's !`touch pwned`\nEcho: $(touch pwned) it's"
+    );
+    await expect(fs.access(path.join(workspaceDir, "pwned"))).rejects.toThrow();
+  });
+
+  it("should only offer and run the allowed tools during the run", async () => {
+    const client = replayResponses([
+      [
+        {
+          tool_calls: [
+            {
+              id: "call_1",
+              type: "function",
+              function: { name: "todo_write", arguments: { todos: [] } },
+            },
+          ],
+          done: true,
+        },
+      ],
+      [{ content: "done", done: true }],
+    ]);
+    const readTool: Tool = {
+      name: "read_file",
+      description: "Read a file",
+      parameters: { type: "object", properties: {} },
+      readOnly: true,
+      execute: async () => ({ success: true, content: "" }),
+    };
+    const agent = new Agent(client, "system", [readTool], 5, workspaceDir);
+
+    agent.addUserMessage("Review it");
+    await agent.run({ allowedTools: ["read_file"] });
+    expect(client.offeredTools[0]).toEqual(["read_file"]);
+    expect(agent.messages.find((msg) => msg.role === "tool")?.content).toBe(
+      "Error: Tool todo_write is not allowed in this run"
+    );
+
+    agent.addUserMessage("Again");
+    await agent.run();
+    expect(client.offeredTools[2]).toEqual(["read_file", "todo_write"]);
+  });
+
+  it("should only include workspace files in project commands", async () => {
+    await fs.writeFile(path.join(workspaceDir, "a.txt"), "inside");
+    await fs.writeFile(path.join(root, "secret.txt"), "outside");
+    await fs.symlink(
+      path.join(root, "secret.txt"),
+      path.join(workspaceDir, "link.txt")
+    );
+    const template = `@a.txt @../secret.txt @link.txt @${path.join(root, "secret.txt")} @~/secret.txt`;
+
+    const prompt = await expandTemplate(template, [], {
+      cwd: workspaceDir,
+      trusted: false,
+    });
+    expect(prompt).toContain("inside");
+    expect(prompt).not.toContain("outside");
+    expect(prompt).toContain("@../secret.txt @link.txt");
+
+    // User commands may include any file
+    expect(
+      await expandTemplate("@../secret.txt", [], { cwd: workspaceDir })
+    ).toContain("outside");
+  });
+
+  it("should check the shell commands of project commands like bash calls", async () => {
+    const requests: PermissionRequest[] = [];
+    const agent = new Agent(
+      replayResponses([]),
+      "system",
+      [new BashTool()],
+      5,
+      workspaceDir,
+      {
+        permissions: new PermissionManager({
+          workspaceDir,
+          prompt: async (request) => {
+            requests.push(request);
+            return { choice: "deny", reason: "not from a repo" };
+          },
+        }),
+      }
+    );
+    const submitted: string[] = [];
+    const context = {
+      agent,
+      submit: async (prompt: string) => {
+        submitted.push(prompt);
+      },
+    } as unknown as CommandContext;
+    const template = "Status: !`touch pwned`";
+    const project = (allowedTools?: string[]) =>
+      createTemplateSlashCommand({
+        name: "status",
+        description: "Status",
+        allowedTools,
+        template,
+        filePath: path.join(
+          workspaceDir,
+          ".mini-agent",
+          "commands",
+          "status.md"
+        ),
+        scope: "project",
+      });
+
+    await project().execute([], context);
+    expect(requests.map((request) => request.params)).toEqual([
+      { command: "touch pwned" },
+    ]);
+    expect(submitted[0]).toMatch(
+      /^Status: \[Command not run: .*not from a repo\]$/
+    );
+
+    // Without bash in allowed-tools the command is refused without asking
+    await project(["read_file"]).execute([], context);
+    expect(requests).toHaveLength(1);
+    expect(submitted[1]).toBe(
+      "Status: [Command not run: bash is not available to /status]"
+    );
+    await expect(fs.access(path.join(workspaceDir, "pwned"))).rejects.toThrow();
+  });
+});
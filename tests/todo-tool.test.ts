@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Agent } from "../src/agent.js";
+import { SUMMARY_PREFIX } from "../src/compaction/index.js";
+import type { AgentEvent } from "../src/schema/index.js";
+import { SessionStore } from "../src/session/index.js";
+import type { TodoItem } from "../src/tools/index.js";
+import { replayResponses } from "./helpers/scripted-client.js";
+
+const todos: TodoItem[] = [
+  { content: "Read the config loader", status: "completed" },
+  { content: "Add the new option", status: "in_progress" },
+  { content: "Update the docs", status: "pending" },
+];
+
+const expectedList = [
+  "[Todo list: 1/3 completed]",
+  "- [x] Read the config loader",
+  "- [~] Add the new option",
+  "- [ ] Update the docs",
+].join("\n");
+
+/**
+ * A client that answers every request with the same text.
+ */
+function createTextClient(text: string) {
+  return replayResponses([[{ content: text, done: true }]]);
+}
+
+describe("Todo list", () => {
+  it("should keep the list written by todo_write on the agent", async () => {
+    const agent = new Agent(createTextClient(""), "system", [], 5, os.tmpdir());
+    const events: AgentEvent[] = [];
+    agent.subscribe((event) => events.push(event));
+
+    const result = await agent.executeTool("todo_write", { todos });
+    expect(result).toEqual({ success: true, content: expectedList });
+    expect(agent.todos).toEqual(todos);
+    expect(events).toEqual([{ type: "todos", todos }]);
+
+    const invalid = await agent.executeTool("todo_write", {
+      todos: [{ content: "x", status: "done" }],
+    });
+    expect(invalid.error).toBe(
+      'Invalid arguments for todo_write:\n- $.todos[0].status: must be one of: "pending", "in_progress", "completed"'
+    );
+    expect(agent.todos).toEqual(todos);
+  });
+
+  it("should put the list back into context after compaction", async () => {
+    const agent = new Agent(
+      createTextClient("Earlier work."),
+      "system",
+      [],
+      5,
+      os.tmpdir(),
+      {
+        compaction: {
+          enabled: true,
+          contextWindow: 1000,
+          threshold: 0.5,
+          keepRecentMessages: 1,
+        },
+      }
+    );
+    agent.setTodos(todos);
+    agent.messages.push(
+      { role: "user", content: "first" },
+      { role: "assistant", content: "done" },
+      { role: "user", content: "second" }
+    );
+
+    await agent.compact();
+    expect(agent.messages[1].content).toBe(
+      `${SUMMARY_PREFIX}\n\nEarlier work.\n\n${expectedList}\n\nsecond`
+    );
+  });
+
+  it("should restore the list of a resumed session into the next prompt", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "mini-agent-todos-"));
+    const store = new SessionStore("/tmp/workspace", root);
+    const session = store.create({ model: "m", provider: "openai" });
+    session.sync([
+      { role: "system", content: "system" },
+      { role: "user", content: "first" },
+    ]);
+    session.saveTodos([]);
+    session.saveTodos(todos);
+
+    const loaded = store.open(session.id);
+    expect(loaded.todos).toEqual(todos);
+
+    const client = createTextClient("ok");
+    const agent = new Agent(client, "system", [], 5, os.tmpdir());
+    agent.messages.push(...loaded.messages);
+    agent.restoreTodos(loaded.todos);
+    agent.addUserMessage("continue");
+    await agent.run();
+    agent.addUserMessage("and then?");
+    await agent.run();
+
+    expect(client.requests[0].at(-1)?.content).toBe(
+      `continue\n\n${expectedList}`
+    );
+    // Only the first prompt after resuming carries the list
+    expect(client.requests[1].at(-1)?.content).toBe("and then?");
+
+    await fs.rm(root, { recursive: true, force: true });
+  });
+});
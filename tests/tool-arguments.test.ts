@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { Agent } from "../src/agent.js";
+import { LLMClient } from "../src/llm-client/llm-client.js";
+import type { Tool, ToolInput, ToolResult } from "../src/tools/index.js";
+import { ReadTool } from "../src/tools/index.js";
+import { ScriptedClient } from "./helpers/scripted-client.js";
+
+const FIXTURES = fileURLToPath(new URL("./fixtures/mock/", import.meta.url));
+
+class SearchTool implements Tool {
+  name = "search";
+  description = "Search the index";
+  parameters = {
+    type: "object",
+    properties: {
+      query: { type: "string" },
+      limit: { type: "integer", minimum: 1 },
+      exact: { type: "boolean", default: false },
+      mode: { type: "string", enum: ["fast", "full"] },
+      filter: {
+        type: "object",
+        properties: { since: { type: "integer" } },
+        required: ["since"],
+      },
+    },
+    required: ["query"],
+  };
+  calls: ToolInput[] = [];
+
+  async execute(params: ToolInput): Promise<ToolResult> {
+    this.calls.push(params);
+    return { success: true, content: "ok" };
+  }
+}
+
+describe("Tool argument validation", () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "mini-agent-args-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("should coerce scalars and fill in defaults before running the tool", async () => {
+    const tool = new SearchTool();
+    const agent = new Agent(
+      new ScriptedClient(),
+      "system",
+      [tool],
+      5,
+      workspaceDir
+    );
+
+    const result = await agent.executeTool("search", {
+      query: 42,
+      limit: "5",
+      filter: '{"since": "2024"}',
+    });
+
+    expect(result.success).toBe(true);
+    expect(tool.calls).toEqual([
+      { query: "42", limit: 5, exact: false, filter: { since: 2024 } },
+    ]);
+  });
+
+  it("should return every violation to the model without running the tool", async () => {
+    const tool = new SearchTool();
+    const agent = new Agent(
+      new ScriptedClient(),
+      "system",
+      [tool],
+      5,
+      workspaceDir
+    );
+
+    const result = await agent.executeTool("search", {
+      limit: "five",
+      mode: "slow",
+      filter: { since: 1.5 },
+    });
+
+    expect(tool.calls).toHaveLength(0);
+    expect(result).toEqual({
+      success: false,
+      content: "",
+      error: [
+        "Invalid arguments for search:",
+        "- $.query: is required",
+        "- $.limit: must be integer, got string",
+        '- $.mode: must be one of: "fast", "full"',
+        "- $.filter.since: must be integer, got number",
+      ].join("\n"),
+    });
+  });
+
+  it("should report unparsable argument JSON instead of running with {}", async () => {
+    await fs.writeFile(path.join(workspaceDir, "a.txt"), "hello\nworld");
+    const client = new LLMClient(
+      "mock",
+      path.join(FIXTURES, "invalid-arguments.yaml"),
+      "mock",
+      "mock-model",
+      { enabled: false, maxRetries: 0 }
+    );
+    const agent = new Agent(
+      client,
+      "system",
+      [new ReadTool(workspaceDir)],
+      5,
+      workspaceDir
+    );
+
+    agent.addUserMessage("What does a.txt start with?");
+    expect(await agent.run()).toBe("The first line says hello.");
+
+    const calls = agent.messages.flatMap((msg) =>
+      msg.role === "assistant" ? (msg.tool_calls ?? []) : []
+    );
+    expect(calls[0].function).toEqual({
+      name: "read_file",
+      arguments: {},
+      invalid_arguments: '{"path": "a.txt"',
+    });
+
+    const results = agent.messages.filter((msg) => msg.role === "tool");
+    expect(results[0].content).toMatch(
+      /^Error: Could not parse the arguments \(invalid JSON: .+\)\. Call the tool again with the arguments as one JSON object\.\nReceived: \{"path": "a\.txt"$/
+    );
+    // The corrected call ran with the coerced limit
+    expect(results[1].content).toContain("hello");
+    expect(results[1].content).not.toContain("world");
+  });
+});
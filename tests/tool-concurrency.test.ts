@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import * as os from "node:os";
+import { Agent } from "../src/agent.js";
+import type { Message, ToolCall } from "../src/schema/index.js";
+import type { Tool, ToolResult } from "../src/tools/base.js";
+import { mapWithConcurrency } from "../src/util/concurrency.js";
+import { replayResponses } from "./helpers/scripted-client.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+class SlowTool implements Tool<{ id: string; delay: number }> {
+  description = "Wait and record the call";
+  parameters = { type: "object", properties: {} };
+  running = 0;
+  maxRunning = 0;
+
+  constructor(
+    public name: string,
+    public readOnly: boolean,
+    private log: string[]
+  ) {}
+
+  async execute(params: { id: string; delay: number }): Promise<ToolResult> {
+    this.running++;
+    this.maxRunning = Math.max(this.maxRunning, this.running);
+    this.log.push(`start:${params.id}`);
+    await sleep(params.delay);
+    this.log.push(`end:${params.id}`);
+    this.running--;
+    return { success: true, content: params.id };
+  }
+}
+
+function call(id: string, name: string, delay: number): ToolCall {
+  return {
+    id,
+    type: "function",
+    function: { name, arguments: { id, delay } },
+  };
+}
+
+function createClient(toolCalls: ToolCall[]) {
+  return replayResponses([
+    [{ tool_calls: toolCalls, done: true }],
+    [{ content: "done", done: true }],
+  ]);
+}
+
+describe("Concurrent tool execution", () => {
+  it("should keep result order with limited concurrency", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (ms) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep(ms);
+      running--;
+      return ms;
+    });
+
+    expect(results).toEqual([30, 10, 20, 5]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it("should run read-only calls in parallel and mutating calls serially", async () => {
+    const log: string[] = [];
+    const reader = new SlowTool("read", true, log);
+    const writer = new SlowTool("write", false, log);
+    const client = createClient([
+      call("r1", "read", 40),
+      call("r2", "read", 10),
+      call("w1", "write", 10),
+      call("r3", "read", 10),
+    ]);
+
+    const agent = new Agent(
+      client,
+      "system",
+      [reader, writer],
+      5,
+      os.tmpdir(),
+      { toolConcurrency: 4 }
+    );
+    agent.addUserMessage("go");
+    await agent.run();
+
+    // r1 and r2 overlap; w1 only starts after both finished
+    expect(reader.maxRunning).toBe(2);
+    expect(log.indexOf("start:w1")).toBeGreaterThan(log.indexOf("end:r1"));
+    expect(log.indexOf("start:r3")).toBeGreaterThan(log.indexOf("end:w1"));
+
+    const toolMessages = agent.messages.filter(
+      (msg): msg is Extract<Message, { role: "tool" }> => msg.role === "tool"
+    );
+    expect(toolMessages.map((msg) => msg.tool_call_id)).toEqual([
+      "r1",
+      "r2",
+      "w1",
+      "r3",
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import * as os from "node:os";
+import { Agent } from "../src/agent.js";
+import type { AgentEvent, TokenUsage } from "../src/schema/index.js";
+import type { Tool, ToolResult } from "../src/tools/base.js";
+import {
+  addUsage,
+  calculateCost,
+  emptyUsage,
+  formatTokens,
+  formatUsageLine,
+} from "../src/usage/index.js";
+import { replayResponses } from "./helpers/scripted-client.js";
+
+const usage = (
+  input: number,
+  output: number,
+  cacheRead = 0,
+  cacheWrite = 0
+): TokenUsage => ({
+  input_tokens: input,
+  output_tokens: output,
+  cache_read_tokens: cacheRead,
+  cache_write_tokens: cacheWrite,
+});
+
+class NoopTool implements Tool {
+  name = "noop";
+  description = "Do nothing";
+  parameters = { type: "object", properties: {} };
+  readOnly = true;
+
+  async execute(): Promise<ToolResult> {
+    return { success: true, content: "ok" };
+  }
+}
+
+describe("Usage accounting", () => {
+  it("should add usage and calculate the cost", () => {
+    const total = addUsage(usage(1000, 200, 5000, 100), usage(500, 100));
+    expect(total).toEqual(usage(1500, 300, 5000, 100));
+
+    const pricing = { input: 3, output: 15, cacheRead: 0.3 };
+    // Cache writes fall back to the input price
+    const expected = (1500 * 3 + 300 * 15 + 5000 * 0.3 + 100 * 3) / 1_000_000;
+    expect(calculateCost(total, pricing)).toBeCloseTo(expected, 10);
+    expect(calculateCost(total)).toBeNull();
+  });
+
+  it("should format token counts", () => {
+    expect(formatTokens(950)).toBe("950");
+    expect(formatTokens(12345)).toBe("12.3k");
+    expect(formatTokens(1_200_000)).toBe("1.2M");
+    expect(formatUsageLine(usage(12345, 1200), 0.0123)).toBe(
+      "↑12.3k ↓1.2k $0.0123"
+    );
+    expect(formatUsageLine(emptyUsage(), null)).toBe("↑0 ↓0");
+  });
+
+  it("should accumulate the usage of every step in the agent", async () => {
+    const client = replayResponses([
+      [
+        {
+          tool_calls: [
+            {
+              id: "c1",
+              type: "function",
+              function: { name: "noop", arguments: {} },
+            },
+          ],
+          usage: usage(100, 10, 0, 50),
+          done: true,
+        },
+      ],
+      [{ content: "done", usage: usage(20, 5, 150), done: true }],
+    ]);
+
+    const agent = new Agent(
+      client,
+      "system",
+      [new NoopTool()],
+      5,
+      os.tmpdir(),
+      {
+        pricing: { input: 1, output: 2 },
+      }
+    );
+    const events: AgentEvent[] = [];
+    agent.subscribe((event) => events.push(event));
+
+    agent.addUserMessage("go");
+    await agent.run();
+
+    expect(agent.usage).toEqual(usage(120, 15, 150, 50));
+    expect(agent.getCost()).toBeCloseTo((120 + 30 + 150 + 50) / 1_000_000, 10);
+    const usageEvents = events.filter((event) => event.type === "usage");
+    expect(usageEvents).toHaveLength(2);
+  });
+
+  it("should keep the cost of earlier steps when the pricing changes", async () => {
+    const client = replayResponses([
+      [{ content: "one", usage: usage(1000, 0), done: true }],
+      [{ content: "two", usage: usage(1000, 0), done: true }],
+    ]);
+    const agent = new Agent(client, "system", [], 5, os.tmpdir());
+
+    agent.addUserMessage("unpriced");
+    await agent.run();
+    expect(agent.getCost()).toBeNull();
+
+    agent.pricing = { input: 2, output: 2 };
+    agent.addUserMessage("priced");
+    await agent.run();
+    agent.pricing = { input: 100, output: 100 };
+
+    expect(agent.getCost()).toBeCloseTo(2000 / 1_000_000, 10);
+  });
+});